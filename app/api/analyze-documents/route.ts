@@ -1,4 +1,34 @@
 import { type NextRequest, NextResponse } from "next/server"
+import {
+  DocumentProcessor,
+  type DataPoint,
+  type DocumentMetadata,
+  type DocumentStructure,
+  type SourceOptions,
+  type SourceRecordSet,
+} from "@/lib/document-processor"
+import {
+  CsvDialectSchema,
+  FixedWidthLayoutSchema,
+  type CsvDialect,
+  type DataQualityIssue,
+  type FieldDictionaryEntry,
+  type FixedWidthLayout,
+} from "@/lib/mapping-schemas"
+import { isEDI } from "@/lib/edi-parser"
+import { isHL7 } from "@/lib/hl7-parser"
+import { detectSchemaKind } from "@/lib/schema-import"
+import { detectDataQualityIssues } from "@/lib/data-quality"
+import { findCandidateKeys, findSourceJoins, tableNameOf } from "@/lib/relationships"
+import { qualifySheetField, type SheetRows } from "@/lib/sheet-references"
+import { BINARY_FORMATS, isSupportedEncoding, readFileText } from "@/lib/encoding"
+import {
+  compareDictionaryEntries,
+  describeDictionaryEntry,
+  findDictionaryEntry,
+  findDocumentedMatch,
+  mergeDictionaries,
+} from "@/lib/field-dictionary"
 
 export const maxDuration = 60
 
@@ -27,9 +57,10 @@ export async function POST(req: NextRequest) {
     const sourceFile = formData.get("sourceFile") as File | null
     const targetFile = formData.get("targetFile") as File | null
 
-    // Get specification files
+    // Get specification files and the source files related to the source, such as customers next to orders
     const sourceSpecs: File[] = []
     const targetSpecs: File[] = []
+    const relatedSources: File[] = []
 
     // Extract spec files
     for (const [key, value] of formData.entries()) {
@@ -39,6 +70,9 @@ export async function POST(req: NextRequest) {
       if (key.startsWith("targetSpec") && value instanceof File) {
         targetSpecs.push(value)
       }
+      if (key.startsWith("relatedSource") && value instanceof File) {
+        relatedSources.push(value)
+      }
     }
 
     console.log("Files received:", {
@@ -46,6 +80,7 @@ export async function POST(req: NextRequest) {
       targetFile: targetFile?.name,
       sourceSpecs: sourceSpecs.map((f) => f.name),
       targetSpecs: targetSpecs.map((f) => f.name),
+      relatedSources: relatedSources.map((f) => f.name),
     })
 
     // Validate we have required files
@@ -61,7 +96,7 @@ export async function POST(req: NextRequest) {
 
     // Validate file sizes
     const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
-    for (const file of [sourceFile, targetFile, ...sourceSpecs, ...targetSpecs]) {
+    for (const file of [sourceFile, targetFile, ...sourceSpecs, ...targetSpecs, ...relatedSources]) {
       if (file.size > MAX_FILE_SIZE) {
         return NextResponse.json(
           {
@@ -74,13 +109,107 @@ export async function POST(req: NextRequest) {
     }
 
     // Process documents
-    const processedSourceDoc = await processDocumentBasic(sourceFile)
-    const processedTargetDoc = await processDocumentBasic(targetFile)
+    const sourceSheet = (formData.get("sourceSheet") as string | null) || undefined
+    const rawSourceLayout = formData.get("sourceLayout") as string | null
+    const rawTargetLayout = formData.get("targetLayout") as string | null
+
+    let sourceLayout: FixedWidthLayout | undefined
+    let targetLayout: FixedWidthLayout | undefined
+    try {
+      sourceLayout = rawSourceLayout ? FixedWidthLayoutSchema.parse(JSON.parse(rawSourceLayout)) : undefined
+      targetLayout = rawTargetLayout ? FixedWidthLayoutSchema.parse(JSON.parse(rawTargetLayout)) : undefined
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Fixed-width layouts must be valid column layouts",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 },
+      )
+    }
+
+    const rawSourceCsv = formData.get("sourceCsv") as string | null
+    const rawTargetCsv = formData.get("targetCsv") as string | null
+
+    let sourceCsv: CsvDialect | undefined
+    let targetCsv: CsvDialect | undefined
+    try {
+      sourceCsv = rawSourceCsv ? CsvDialectSchema.parse(JSON.parse(rawSourceCsv)) : undefined
+      targetCsv = rawTargetCsv ? CsvDialectSchema.parse(JSON.parse(rawTargetCsv)) : undefined
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "CSV settings must be a valid delimiter, quote and header row",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 },
+      )
+    }
+
+    const sourceEncoding = (formData.get("sourceEncoding") as string | null) || undefined
+    const targetEncoding = (formData.get("targetEncoding") as string | null) || undefined
+    // Operation of an OpenAPI target or input type of a GraphQL target
+    const targetSchemaEntry = (formData.get("targetSchemaEntry") as string | null) || undefined
+    const unsupported = [sourceEncoding, targetEncoding].find((encoding) => encoding && !isSupportedEncoding(encoding))
+    if (unsupported) {
+      return NextResponse.json({ success: false, error: `Unsupported character encoding: ${unsupported}` }, { status: 400 })
+    }
+
+    const sourceOptions: SourceOptions = {
+      sheet: sourceSheet,
+      layout: sourceLayout,
+      csv: sourceCsv,
+      encoding: sourceEncoding,
+    }
+    const { document: processedSourceDoc, records: analyzedSourceRecords } = await processDocumentBasic(
+      sourceFile,
+      sourceOptions,
+    )
+    const { document: processedTargetDoc } = await processDocumentBasic(targetFile, {
+      layout: targetLayout,
+      csv: targetCsv,
+      encoding: targetEncoding,
+      schemaEntry: targetSchemaEntry,
+    })
 
     console.log("Documents processed successfully")
 
+    // Field tables in the uploaded specifications ground the matching in the documentation. A target
+    // uploaded as a schema file defines its fields itself, and those definitions come first.
+    const sourceDictionary = await readSpecDictionary(sourceSpecs)
+    const targetDictionary = await readSpecDictionary(targetSpecs)
+    const targetDefinitions = processedTargetDoc.metadata.field_definitions
+    if (targetDefinitions) {
+      targetDictionary.entries = mergeDictionaries([targetDefinitions, targetDictionary.entries])
+      targetDictionary.warnings.unshift(...(processedTargetDoc.metadata.schema_warnings ?? []))
+    }
+    console.log("Field dictionaries read:", {
+      source: sourceDictionary.entries.length,
+      target: targetDictionary.entries.length,
+    })
+
+    // Quality issues are read from all source records, so they can be fixed before converting
+    const sourceRecords = await recordsOf(sourceFile, sourceOptions, analyzedSourceRecords)
+    const qualityIssues = sourceRecords ? detectDataQualityIssues(sourceRecords, processedSourceDoc.dataPoints) : []
+    console.log("Data quality issues found:", qualityIssues.length)
+
+    // Keys of the source files and how they link; the fields of related files become source fields
+    const relationships = await readSourceRelationships(sourceFile, sourceRecords, relatedSources)
+    processedSourceDoc.dataPoints.push(...relationships.dataPoints)
+    console.log("Source relationships found:", {
+      candidateKeys: relationships.candidateKeys.length,
+      joins: relationships.joins.length,
+    })
+
     // Generate mock analysis results
-    const analysis = generateMockAnalysis(processedSourceDoc, processedTargetDoc)
+    const analysis = generateMockAnalysis(
+      processedSourceDoc,
+      processedTargetDoc,
+      { source: sourceDictionary.entries, target: targetDictionary.entries },
+      qualityIssues,
+    )
 
     console.log("Analysis generated successfully")
 
@@ -94,6 +223,10 @@ export async function POST(req: NextRequest) {
         sourceFields: processedSourceDoc.dataPoints?.map((dp: any) => dp.field) || [],
         targetFields: processedTargetDoc.dataPoints?.map((dp: any) => dp.field) || [],
         mappings: analysis.field_mappings || [],
+        sourceDictionary: sourceDictionary.entries,
+        targetDictionary: targetDictionary.entries,
+        specWarnings: [...sourceDictionary.warnings, ...targetDictionary.warnings],
+        relationships: { candidateKeys: relationships.candidateKeys, joins: relationships.joins },
         confidence: 89,
         note: "Using mock analysis for demonstration",
       },
@@ -116,69 +249,175 @@ export async function POST(req: NextRequest) {
   }
 }
 
-// Basic document processing function
-async function processDocumentBasic(file: File) {
-  const id = Math.random().toString(36).substr(2, 9)
-  const format = detectFormatBasic(file)
+// Records of an analyzed file: those its analysis read, or a read of their own for workbooks, which
+// are analyzed without them. A file whose records cannot be read has none.
+async function recordsOf(file: File, options: SourceOptions, analyzed?: SourceRecordSet) {
+  if (analyzed) return analyzed
+  try {
+    return await new DocumentProcessor().readRecords(file, options)
+  } catch (error) {
+    console.error(`Error reading records of ${file.name}:`, error)
+    return null
+  }
+}
 
-  console.log(`Processing document: ${file.name}, format: ${format}`)
+// Candidate keys of the source and its related files and the joins between them. The fields of a
+// related file that joins the source can be mapped under its name, as "customers!name".
+async function readSourceRelationships(sourceFile: File, sourceRecords: SourceRecordSet | null, relatedSources: File[]) {
+  if (relatedSources.length === 0) return { candidateKeys: [], joins: [], dataPoints: [] }
+
+  const tables: SheetRows[] = []
+  if (sourceRecords) {
+    tables.push({ name: tableNameOf(sourceFile.name), columns: sourceRecords.columns, rows: sourceRecords.records })
+  }
+  // Related files are read with their detected settings; the options only describe the source
+  const relatedDataPoints = new Map<string, any[]>()
+  for (const file of relatedSources) {
+    const { document, records } = await processDocumentBasic(file)
+    const recordSet = await recordsOf(file, {}, records)
+    if (!recordSet) continue
+    tables.push({ name: tableNameOf(file.name), columns: recordSet.columns, rows: recordSet.records })
+    relatedDataPoints.set(tableNameOf(file.name), document.dataPoints)
+  }
+
+  const candidateKeys = tables.flatMap(findCandidateKeys)
+  const joins = findSourceJoins(tables)
+
+  const source = tableNameOf(sourceFile.name)
+  const dataPoints: any[] = []
+  relatedDataPoints.forEach((related, name) => {
+    const linked = joins.some(
+      (join) => (join.file === source && join.related_file === name) || (join.file === name && join.related_file === source),
+    )
+    if (!linked) return
+    dataPoints.push(...related.map((dp: any) => ({ ...dp, field: qualifySheetField(name, dp.field) })))
+  })
+
+  return { candidateKeys, joins, dataPoints }
+}
+
+// Basic document processing function. The records the analysis read are returned beside the
+// document, which is sent to the client, so they are not.
+async function processDocumentBasic(file: File, options: SourceOptions = {}) {
+  const id = Math.random().toString(36).substr(2, 9)
+  let format = options.layout ? "fixed" : detectFormatBasic(file)
 
   let content = ""
-  let structure = { type: "text" as const }
+  let structure: DocumentStructure = { type: "text" }
   let dataPoints: any[] = []
+  let processedMetadata: Partial<DocumentMetadata> = {}
+  let records: SourceRecordSet | undefined
 
   try {
-    if (format === "csv") {
-      content = await file.text()
-      console.log(`File content read, length: ${content.length}`)
-      structure = analyzeCSVStructure(content)
-      dataPoints = extractCSVDataPoints(content)
-    } else if (format === "json") {
-      content = await file.text()
-      const jsonData = JSON.parse(content)
-      structure = { type: "hierarchical" as const }
-      dataPoints = extractJSONDataPoints(jsonData)
-    } else if (format === "txt") {
-      content = await file.text()
-      structure = { type: "text" as const }
+    // Text files are decoded with the given or detected encoding rather than assumed to be UTF-8
+    const decoded = BINARY_FORMATS.includes(format) ? null : await readFileText(file, options.encoding)
+    if (decoded) processedMetadata.encoding = decoded.encoding
+    if (format === "txt" && decoded) {
+      if (isEDI(decoded.text)) format = "edi"
+      else if (isHL7(decoded.text)) format = "hl7"
+    }
+    if (format === "json" && decoded && detectSchemaKind(file.name, decoded.text)) format = "schema"
+
+    console.log(`Processing document: ${file.name}, format: ${format}, encoding: ${decoded?.encoding ?? "binary"}`)
+
+    if (format === "txt") {
+      content = decoded!.text
+      structure = { type: "text" }
       dataPoints = extractTextDataPoints(content)
+    } else if (["json", "csv", "xlsx", "fixed", "ndjson", "edi", "hl7", "pdf", "docx", "schema"].includes(format)) {
+      // JSON files give the full paths of their fields, array elements included ("orders[0].id"); CSV
+      // files are read with their detected or given dialect; workbooks are profiled sheet by sheet so
+      // fields of every sheet can be mapped; fixed-width files are read with their layout, NDJSON
+      // files are sampled across all lines, EDI and HL7 messages are split into segment/field paths,
+      // the tables of PDF and Word documents give their fields and schema files define them
+      const processed = await new DocumentProcessor().processDocument(file, options)
+      content = processed.content
+      structure = processed.structure
+      dataPoints = processed.dataPoints
+      records = processed.records
+      processedMetadata = {
+        sheets: processed.metadata.sheets,
+        record_sheet: processed.metadata.record_sheet,
+        sheet_profiles: processed.metadata.sheet_profiles,
+        encoding: processed.metadata.encoding,
+        csv_dialect: processed.metadata.csv_dialect,
+        pages: processed.metadata.pages,
+        table_count: processed.metadata.table_count,
+        schema_kind: processed.metadata.schema_kind,
+        field_definitions: processed.metadata.field_definitions,
+        schema_warnings: processed.metadata.schema_warnings,
+        schema_entries: processed.metadata.schema_entries,
+        schema_entry: processed.metadata.schema_entry,
+      }
     } else {
       // For other formats, create realistic field names based on file name
       content = `[${format.toUpperCase()} file - ${file.size} bytes]`
-      structure = { type: "text" as const }
+      structure = { type: "text" }
       dataPoints = createRealisticDataPoints(file.name, format)
     }
 
     return {
-      id,
-      name: file.name,
-      format,
-      content: content.substring(0, 1000), // Limit content size
-      structure,
-      dataPoints: dataPoints.slice(0, 10), // Limit data points
-      metadata: {
-        size: file.size,
-        type: file.type,
+      records,
+      document: {
+        id,
+        name: file.name,
+        format,
+        content: content.substring(0, 1000), // Limit content size
+        structure,
+        // Limit data points; JSON files keep every nested field, workbooks the sheet-qualified fields of
+        // their other sheets, NDJSON the fields that only appear in later records, EDI and HL7 every
+        // segment path, and documents and schema files every field they define
+        dataPoints: ["json", "csv", "xlsx", "ndjson", "edi", "hl7", "pdf", "docx", "schema"].includes(format)
+          ? dataPoints
+          : dataPoints.slice(0, 10),
+        metadata: {
+          size: file.size,
+          type: file.type,
+          ...processedMetadata,
+        },
       },
     }
   } catch (error) {
     console.error(`Error processing ${file.name}:`, error)
     // Return mock data if processing fails
     return {
-      id,
-      name: file.name,
-      format,
-      content: `[Error processing ${format.toUpperCase()} file]`,
-      structure: { type: "text" as const },
-      dataPoints: createRealisticDataPoints(file.name, format),
-      metadata: {
-        size: file.size,
-        type: file.type,
+      records: undefined,
+      document: {
+        id,
+        name: file.name,
+        format,
+        content: `[Error processing ${format.toUpperCase()} file]`,
+        structure: { type: "text" as const },
+        dataPoints: createRealisticDataPoints(file.name, format),
+        metadata: {
+          size: file.size,
+          type: file.type,
+        },
       },
     }
   }
 }
 
+// A spec that cannot be read only loses its field definitions; the analysis goes on without them
+async function readSpecDictionary(files: File[]): Promise<{ entries: FieldDictionaryEntry[]; warnings: string[] }> {
+  const processor = new DocumentProcessor()
+  const dictionaries: FieldDictionaryEntry[][] = []
+  const warnings: string[] = []
+
+  for (const file of files) {
+    try {
+      const entries = await processor.readFieldDictionary(file)
+      if (entries.length === 0) warnings.push(`No field table was found in ${file.name}`)
+      dictionaries.push(entries)
+    } catch (error) {
+      console.warn(`Could not read specification ${file.name}:`, error)
+      warnings.push(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  return { entries: mergeDictionaries(dictionaries), warnings }
+}
+
 function detectFormatBasic(file: File): string {
   const extension = file.name.split(".").pop()?.toLowerCase()
   const supportedFormats = ["csv", "txt", "json", "xml", "xlsx", "pdf", "docx"]
@@ -186,9 +425,14 @@ function detectFormatBasic(file: File): string {
   if (extension && supportedFormats.includes(extension)) {
     return extension
   }
+  if (extension === "jsonl" || extension === "ndjson") return "ndjson"
+  if (extension === "edi" || extension === "x12" || extension === "edifact") return "edi"
+  if (extension === "hl7") return "hl7"
+  if (["xsd", "sql", "ddl", "yaml", "yml", "graphql", "gql", "graphqls"].includes(extension ?? "")) return "schema"
 
   // Fallback based on MIME type
   if (file.type.includes("csv")) return "csv"
+  if (file.type.includes("ndjson")) return "ndjson"
   if (file.type.includes("json")) return "json"
   if (file.type.includes("xml")) return "xml"
   if (file.type.includes("text")) return "txt"
@@ -196,61 +440,6 @@ function detectFormatBasic(file: File): string {
   return "txt" // Default fallback
 }
 
-function analyzeCSVStructure(content: string) {
-  try {
-    const lines = content.split("\n").filter((line) => line.trim())
-    if (lines.length === 0) {
-      return { type: "tabular" as const, columns: [], rows: 0 }
-    }
-
-    const firstLine = lines[0]
-    const columns = firstLine.split(",").map((col) => col.trim().replace(/"/g, ""))
-
-    return {
-      type: "tabular" as const,
-      columns,
-      rows: Math.max(0, lines.length - 1),
-    }
-  } catch (error) {
-    console.error("Error analyzing CSV structure:", error)
-    return { type: "text" as const }
-  }
-}
-
-function extractCSVDataPoints(content: string) {
-  try {
-    const lines = content.split("\n").filter((line) => line.trim())
-    if (lines.length < 2) {
-      return []
-    }
-
-    const headers = lines[0].split(",").map((col) => col.trim().replace(/"/g, ""))
-    const dataRows = lines.slice(1, 6) // Sample first 5 rows
-
-    return headers.slice(0, 10).map((header) => {
-      const sampleValues = dataRows
-        .map((row) => {
-          const values = row.split(",")
-          const index = headers.indexOf(header)
-          return index >= 0 ? values[index]?.trim().replace(/"/g, "") : ""
-        })
-        .filter(Boolean)
-        .slice(0, 3)
-
-      return {
-        field: header,
-        type: "string",
-        sample_values: sampleValues,
-        null_count: 0,
-        unique_count: sampleValues.length,
-      }
-    })
-  } catch (error) {
-    console.error("Error extracting CSV data points:", error)
-    return []
-  }
-}
-
 function extractTextDataPoints(content: string) {
   try {
     const lines = content.split("\n").filter((line) => line.trim())
@@ -297,43 +486,6 @@ function extractTextDataPoints(content: string) {
   }
 }
 
-function extractJSONDataPoints(data: any) {
-  try {
-    const fields: any[] = []
-
-    function traverse(obj: any, path = "") {
-      if (fields.length >= 10) return // Limit fields
-
-      if (typeof obj === "object" && obj !== null && !Array.isArray(obj)) {
-        Object.keys(obj).forEach((key) => {
-          const newPath = path ? `${path}.${key}` : key
-          const value = obj[key]
-
-          if (typeof value !== "object") {
-            fields.push({
-              field: newPath,
-              type: typeof value,
-              sample_values: [value],
-              null_count: value == null ? 1 : 0,
-              unique_count: 1,
-            })
-          } else if (value !== null) {
-            traverse(value, newPath)
-          }
-        })
-      } else if (Array.isArray(obj) && obj.length > 0 && typeof obj[0] === "object") {
-        // Handle array of objects - extract fields from first item
-        traverse(obj[0], path)
-      }
-    }
-
-    traverse(data)
-    return fields
-  } catch (error) {
-    return []
-  }
-}
-
 function createRealisticDataPoints(fileName: string, format: string) {
   // Create realistic field names based on file name
   const lowerFileName = fileName.toLowerCase()
@@ -452,7 +604,12 @@ function createRealisticDataPoints(fileName: string, format: string) {
   }
 }
 
-function generateMockAnalysis(sourceDoc: any, targetDoc: any) {
+function generateMockAnalysis(
+  sourceDoc: any,
+  targetDoc: any,
+  dictionaries: { source: FieldDictionaryEntry[]; target: FieldDictionaryEntry[] } = { source: [], target: [] },
+  qualityIssues: DataQualityIssue[] = [],
+) {
   // Extract field names from the documents
   const sourceFields = sourceDoc.dataPoints?.map((dp: any) => dp.field) || []
   const targetFields = targetDoc.dataPoints?.map((dp: any) => dp.field) || []
@@ -473,6 +630,19 @@ function generateMockAnalysis(sourceDoc: any, targetDoc: any) {
         tf.toLowerCase().includes(sourceField.toLowerCase()) || sourceField.toLowerCase().includes(tf.toLowerCase()),
     )
 
+    // Otherwise the specs may describe both fields alike, or one description may name the other field
+    const documented = targetField
+      ? null
+      : findDocumentedMatch(
+          sourceField,
+          findDictionaryEntry(dictionaries.source, sourceField),
+          targetFields,
+          dictionaries.target,
+        )
+    if (documented) {
+      targetField = documented.field
+    }
+
     // If no match found but we have a target field at the same index, use that
     if (!targetField && i < targetFields.length) {
       targetField = targetFields[i]
@@ -480,7 +650,7 @@ function generateMockAnalysis(sourceDoc: any, targetDoc: any) {
 
     if (targetField) {
       // Calculate confidence based on name similarity
-      let confidence = 0.7 // Base confidence
+      let confidence = documented ? Math.min(0.75 + documented.score * 0.2, 0.92) : 0.7 // Base confidence
 
       if (sourceField.toLowerCase() === targetField.toLowerCase()) {
         confidence = 0.98 // Exact match
@@ -510,7 +680,9 @@ function generateMockAnalysis(sourceDoc: any, targetDoc: any) {
         target_field: targetField,
         transformation_type: transformationType,
         confidence,
-        reasoning: `Field name similarity suggests a mapping between ${sourceField} and ${targetField}`,
+        reasoning: documented
+          ? `The specifications describe ${sourceField} and ${targetField} as the same data`
+          : `Field name similarity suggests a mapping between ${sourceField} and ${targetField}`,
         transformation_logic: `${sourceField} -> ${targetField}`,
         potential_issues: confidence < 0.8 ? ["Verify field data types match"] : [],
       })
@@ -534,6 +706,37 @@ function generateMockAnalysis(sourceDoc: any, targetDoc: any) {
     }
   }
 
+  // What the specs say about both fields goes into the reasoning, their conflicts into the issues
+  const documentedMappings = fieldMappings.map((mapping) => {
+    const sourceEntry = findDictionaryEntry(dictionaries.source, mapping.source_field)
+    const targetEntry = findDictionaryEntry(dictionaries.target, mapping.target_field)
+    if (!sourceEntry && !targetEntry) return mapping
+
+    const sourceType = sourceDoc.dataPoints?.find((dp: any) => dp.field === mapping.source_field)?.type
+    const documentation = [
+      sourceEntry && `Source spec: ${describeDictionaryEntry(sourceEntry)}.`,
+      targetEntry && `Target spec: ${describeDictionaryEntry(targetEntry)}.`,
+    ].filter(Boolean)
+    const issues = compareDictionaryEntries(sourceEntry, targetEntry, sourceType)
+
+    return {
+      ...mapping,
+      reasoning: [mapping.reasoning, ...documentation].join(" "),
+      ...(targetEntry?.type && { target_type: targetEntry.type }),
+      transformation_type:
+        mapping.transformation_type === "direct_mapping" && issues.some((issue) => issue.includes("source holds"))
+          ? "data_type_conversion"
+          : mapping.transformation_type,
+      potential_issues: [...mapping.potential_issues, ...issues],
+    }
+  })
+
+  const mappedTargets = new Set(documentedMappings.map((mapping) => mapping.target_field))
+  const unmappedMandatory = dictionaries.target
+    .filter((entry) => entry.mandatory)
+    .filter((entry) => ![...mappedTargets].some((field) => findDictionaryEntry([entry], field)))
+    .map((entry) => entry.name)
+
   return {
     document_summary: {
       source_document: sourceDoc.name,
@@ -541,15 +744,8 @@ function generateMockAnalysis(sourceDoc: any, targetDoc: any) {
       compatibility_score: 0.85,
       overall_complexity: "medium",
     },
-    field_mappings: fieldMappings,
-    data_quality_issues: [
-      {
-        type: "missing_values",
-        field: sourceFields[0] || "unknown",
-        severity: "low",
-        description: "Some records may have missing values",
-      },
-    ],
+    field_mappings: documentedMappings,
+    data_quality_issues: qualityIssues,
     transformation_strategy: {
       approach: "direct_mapping_with_validation",
       estimated_effort: "medium",
@@ -568,6 +764,9 @@ function generateMockAnalysis(sourceDoc: any, targetDoc: any) {
       "Consider implementing data quality checks",
       "Test transformation with a sample dataset first",
       "Monitor transformation results for data integrity",
+      ...(unmappedMandatory.length > 0
+        ? [`The target spec marks these fields as mandatory but they have no mapping: ${unmappedMandatory.join(", ")}`]
+        : []),
     ],
   }
 }
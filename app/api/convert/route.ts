@@ -0,0 +1,281 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DocumentProcessor } from "@/lib/document-processor"
+import { ConversionEngine, normalizeMappings } from "@/lib/conversion-engine"
+import { NDJSON_MIME_TYPE, streamNDJSON } from "@/lib/ndjson"
+import { isSupportedEncoding } from "@/lib/encoding"
+import type { FieldTypes } from "@/lib/expression-language"
+import { z } from "zod"
+import {
+  AggregationConfigSchema,
+  CsvDialectSchema,
+  DataTypeSchema,
+  FieldDictionaryEntrySchema,
+  FixedWidthLayoutSchema,
+  FormatSpecSchema,
+  RowFilterConfigSchema,
+  SourceJoinSchema,
+  type AggregationConfig,
+  type CsvDialect,
+  type FieldDictionaryEntry,
+  type FixedWidthLayout,
+  type FormatSpec,
+  type RowFilterConfig,
+  type SourceJoin,
+} from "@/lib/mapping-schemas"
+import { applySourceJoins, tableNameOf } from "@/lib/relationships"
+import type { SheetRows } from "@/lib/sheet-references"
+
+export const maxDuration = 60
+
+export async function POST(req: NextRequest) {
+  try {
+    let formData: FormData
+    try {
+      formData = await req.formData()
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Failed to parse request data",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 },
+      )
+    }
+
+    const sourceFile = formData.get("sourceFile") as File | null
+    const rawMappings = formData.get("mappings") as string | null
+    const rawFilters = formData.get("filters") as string | null
+    const rawAggregation = formData.get("aggregation") as string | null
+    const sourceSheet = (formData.get("sourceSheet") as string | null) || undefined
+    const rawSourceLayout = formData.get("sourceLayout") as string | null
+    const rawSourceCsv = formData.get("sourceCsv") as string | null
+    const sourceEncoding = (formData.get("sourceEncoding") as string | null) || undefined
+    // Field definitions of the target, from its schema file or specs, that the output is validated against
+    const rawTargetConstraints = formData.get("targetConstraints") as string | null
+    // "ndjson" streams the converted records instead of returning them in the JSON response
+    const outputFormat = formData.get("outputFormat") as string | null
+    // Source field types found during analysis, which expressions are checked against
+    const rawFieldTypes = formData.get("fieldTypes") as string | null
+    // Number and date formats found during analysis, e.g. comma decimals, that source values are read with
+    const rawFieldFormats = formData.get("fieldFormats") as string | null
+    // Source files related to the source and the joins that add their fields to its records
+    const rawJoins = formData.get("joins") as string | null
+    const relatedSources: File[] = []
+    for (const [key, value] of formData.entries()) {
+      if (key.startsWith("relatedSource") && value instanceof File) {
+        relatedSources.push(value)
+      }
+    }
+
+    if (!sourceFile) {
+      return NextResponse.json({ success: false, error: "A source file must be provided" }, { status: 400 })
+    }
+
+    let mappings
+    try {
+      mappings = normalizeMappings(JSON.parse(rawMappings || "[]"))
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Mappings must be a JSON array",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 },
+      )
+    }
+
+    let filters: RowFilterConfig | undefined
+    try {
+      filters = rawFilters ? RowFilterConfigSchema.parse(JSON.parse(rawFilters)) : undefined
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Filters must be a valid filter configuration",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 },
+      )
+    }
+
+    let aggregation: AggregationConfig | undefined
+    try {
+      aggregation = rawAggregation ? AggregationConfigSchema.parse(JSON.parse(rawAggregation)) : undefined
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Aggregation must be a valid group-by configuration",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 },
+      )
+    }
+
+    let sourceLayout: FixedWidthLayout | undefined
+    try {
+      sourceLayout = rawSourceLayout ? FixedWidthLayoutSchema.parse(JSON.parse(rawSourceLayout)) : undefined
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Source layout must be a valid fixed-width layout",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 },
+      )
+    }
+
+    let sourceCsv: CsvDialect | undefined
+    try {
+      sourceCsv = rawSourceCsv ? CsvDialectSchema.parse(JSON.parse(rawSourceCsv)) : undefined
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "CSV settings must be a valid delimiter, quote and header row",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 },
+      )
+    }
+
+    let targetConstraints: FieldDictionaryEntry[] | undefined
+    try {
+      targetConstraints = rawTargetConstraints
+        ? z.array(FieldDictionaryEntrySchema).parse(JSON.parse(rawTargetConstraints))
+        : undefined
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Target constraints must be a list of field definitions",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 },
+      )
+    }
+
+    let joins: SourceJoin[] | undefined
+    try {
+      joins = rawJoins ? z.array(SourceJoinSchema).parse(JSON.parse(rawJoins)) : undefined
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Joins must be a list of links between source files",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 },
+      )
+    }
+
+    let fieldTypes: FieldTypes
+    try {
+      fieldTypes = rawFieldTypes ? z.record(z.string(), DataTypeSchema).parse(JSON.parse(rawFieldTypes)) : {}
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Field types must map source fields to data types",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 },
+      )
+    }
+
+    let fieldFormats: Record<string, FormatSpec>
+    try {
+      fieldFormats = rawFieldFormats ? z.record(z.string(), FormatSpecSchema).parse(JSON.parse(rawFieldFormats)) : {}
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Field formats must map source fields to format settings",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 },
+      )
+    }
+
+    const engine = new ConversionEngine(mappings, {
+      fieldTypes,
+      fieldFormats,
+      filters,
+      aggregation,
+      targetConstraints,
+    })
+    const groupingError = engine.groupingError()
+    if (groupingError) {
+      return NextResponse.json({ success: false, error: groupingError }, { status: 400 })
+    }
+
+    if (sourceEncoding && !isSupportedEncoding(sourceEncoding)) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported character encoding: ${sourceEncoding}` },
+        { status: 400 },
+      )
+    }
+
+    const sourceOptions = { sheet: sourceSheet, layout: sourceLayout, csv: sourceCsv, encoding: sourceEncoding }
+
+    const processor = new DocumentProcessor()
+    let recordSet = await processor.readRecords(sourceFile, sourceOptions)
+
+    // Fields of related files are added to every record under the file name, as "customers!name"
+    if (joins && joins.length > 0) {
+      const related: SheetRows[] = []
+      for (const file of relatedSources) {
+        const { records, columns } = await processor.readRecords(file)
+        related.push({ name: tableNameOf(file.name), columns, rows: records })
+      }
+      const source = { name: tableNameOf(sourceFile.name), columns: recordSet.columns, rows: recordSet.records }
+      const joined = applySourceJoins(source, related, joins)
+      recordSet = {
+        ...recordSet,
+        records: joined.records,
+        columns: joined.columns,
+        warnings: [...(recordSet.warnings ?? []), ...joined.warnings],
+      }
+    }
+
+    const result = engine.convert(recordSet)
+
+    if (outputFormat === "ndjson") {
+      // The summary travels in headers so the body holds nothing but records
+      return new Response(streamNDJSON(result.records, result.columns), {
+        status: 200,
+        headers: {
+          "Content-Type": NDJSON_MIME_TYPE,
+          "Content-Disposition": 'attachment; filename="transformed_data.jsonl"',
+          "X-Input-Records": String(result.summary.input_records),
+          "X-Output-Records": String(result.summary.output_records),
+          "X-Row-Issues": String(result.summary.row_issues.length),
+          // Encoded because warnings and row issues quote source values, which headers cannot hold as is
+          "X-Conversion-Summary": encodeURIComponent(JSON.stringify(result.summary)),
+        },
+      })
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        records: result.records,
+        columns: result.columns,
+        summary: result.summary,
+      },
+      { status: 200 },
+    )
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Conversion failed",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
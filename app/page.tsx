@@ -10,14 +10,20 @@ import { StepReviewMapping } from "@/components/steps/step-review-mapping"
 import { StepAiChat } from "@/components/steps/step-ai-chat"
 import { StepConversion } from "@/components/steps/step-conversion"
 import { StepSaveConfig } from "@/components/steps/step-save-config"
+import type { AggregationConfig, RowFilterConfig, SourceJoin } from "@/lib/mapping-schemas"
+import type { SourceOptions } from "@/lib/document-processor"
 
 type WorkflowStep = 1 | 2 | 3 | 4 | 5 | 6
 
 interface DocumentSet {
   sourceFile: File | null
   sourceSpecs: File[]
+  // Source files whose records link to the source records, such as customers next to orders
+  relatedSources: File[]
   targetFile: File | null
   targetSpecs: File[]
+  sourceOptions?: SourceOptions
+  targetOptions?: SourceOptions
 }
 
 interface MappingData {
@@ -25,6 +31,9 @@ interface MappingData {
   analysisResults: any
   chatHistory: any[]
   finalMappings: any[]
+  filterRules?: RowFilterConfig
+  aggregation?: AggregationConfig
+  joins?: SourceJoin[]
 }
 
 interface WorkflowData {
@@ -40,6 +49,7 @@ export default function DataTransformationApp() {
     documents: {
       sourceFile: null,
       sourceSpecs: [],
+      relatedSources: [],
       targetFile: null,
       targetSpecs: [],
     },
@@ -91,10 +101,18 @@ export default function DataTransformationApp() {
     // When configuration is loaded, populate data and skip to step 4
     updateWorkflowData({
       loadedConfiguration: config,
+      documents: {
+        ...workflowData.documents,
+        sourceOptions: config.sourceOptions,
+        targetOptions: config.targetOptions,
+      },
       mappings: {
         ...workflowData.mappings,
         fieldMappings: config.mappings || [],
         finalMappings: config.mappings || [],
+        filterRules: config.filterRules,
+        aggregation: config.aggregation,
+        joins: config.joins,
       },
     })
 
@@ -224,7 +242,7 @@ export default function DataTransformationApp() {
             <StepConversion
               documents={workflowData.documents}
               mappings={workflowData.mappings}
-              onComplete={() => completeStep(5)}
+              onComplete={(mappings) => completeStep(5, { mappings })}
               onBack={() => setCurrentStep(4)}
             />
           )}
@@ -242,6 +260,7 @@ export default function DataTransformationApp() {
                   documents: {
                     sourceFile: null,
                     sourceSpecs: [],
+                    relatedSources: [],
                     targetFile: null,
                     targetSpecs: [],
                   },
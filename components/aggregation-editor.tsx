@@ -0,0 +1,88 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Input } from "@/components/ui/input"
+import { Layers } from "lucide-react"
+import type { AggregateFunction, AggregationConfig } from "@/lib/mapping-schemas"
+import { AGGREGATE_FUNCTION_LABELS } from "@/lib/aggregation"
+
+interface AggregationEditorProps {
+  aggregation: AggregationConfig
+  targetFields: string[]
+  onChange: (aggregation: AggregationConfig) => void
+}
+
+const GROUP_BY = "group_by"
+const DEFAULT = "default"
+
+export function AggregationEditor({ aggregation, targetFields, onChange }: AggregationEditorProps) {
+  const enabled = aggregation.group_by.length > 0
+
+  const getRole = (field: string) => {
+    if (aggregation.group_by.includes(field)) return GROUP_BY
+    return aggregation.aggregates?.[field] ?? DEFAULT
+  }
+
+  const setRole = (field: string, role: string) => {
+    const groupBy = aggregation.group_by.filter((key) => key !== field)
+    const { [field]: _previous, ...aggregates } = aggregation.aggregates ?? {}
+
+    if (role === GROUP_BY) {
+      onChange({ ...aggregation, group_by: [...groupBy, field], aggregates })
+    } else if (role === DEFAULT) {
+      onChange({ ...aggregation, group_by: groupBy, aggregates })
+    } else {
+      onChange({ ...aggregation, group_by: groupBy, aggregates: { ...aggregates, [field]: role as AggregateFunction } })
+    }
+  }
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="flex items-center space-x-2">
+        <Layers className="h-4 w-4 text-gray-600" />
+        <h3 className="font-medium text-gray-900">Group Records</h3>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Mark one or more target fields as group keys to produce one output record per key, for example order totals
+        from order lines. Other fields are combined with the selected function.
+      </p>
+
+      <div className="space-y-2">
+        {targetFields.map((field) => (
+          <div key={field} className="flex items-center space-x-3">
+            <span className="text-sm font-mono bg-green-50 px-2 py-1 rounded w-48 truncate">{field}</span>
+            <div className="w-48">
+              <Select value={getRole(field)} onValueChange={(value) => setRole(field, value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT}>{enabled ? "Mapping default" : "No grouping"}</SelectItem>
+                  <SelectItem value={GROUP_BY}>Group by</SelectItem>
+                  {Object.entries(AGGREGATE_FUNCTION_LABELS).map(([aggregate, label]) => (
+                    <SelectItem key={aggregate} value={aggregate}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {enabled && (
+        <label className="flex items-center space-x-2 text-sm">
+          <span className="text-gray-600 whitespace-nowrap">Join values with</span>
+          <Input
+            value={aggregation.concat_separator ?? ""}
+            onChange={(e) => onChange({ ...aggregation, concat_separator: e.target.value || undefined })}
+            placeholder=", "
+            className="w-20 text-sm"
+          />
+        </label>
+      )}
+    </div>
+  )
+}
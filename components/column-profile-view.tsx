@@ -0,0 +1,64 @@
+"use client"
+
+import type { ColumnProfile } from "@/lib/column-profile"
+
+interface ColumnProfileViewProps {
+  profile: ColumnProfile
+}
+
+const formatNumber = (value: number | string) =>
+  typeof value === "number" ? value.toLocaleString(undefined, { maximumFractionDigits: 4 }) : value
+
+// Statistics of a field's values: range, text lengths, the most common values and a histogram
+export function ColumnProfileView({ profile }: ColumnProfileViewProps) {
+  const largestBin = Math.max(1, ...(profile.histogram ?? []).map((bin) => bin.count))
+
+  return (
+    <div className="space-y-2 text-xs text-gray-600">
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        <span>{profile.count} values</span>
+        {profile.min !== undefined && profile.max !== undefined && (
+          <span>
+            Range: {formatNumber(profile.min)} – {formatNumber(profile.max)}
+          </span>
+        )}
+        {profile.mean !== undefined && <span>Mean: {formatNumber(profile.mean)}</span>}
+        <span>
+          Length: {profile.lengths.min}–{profile.lengths.max} (mean {profile.lengths.mean})
+        </span>
+        {profile.date_format && <span className="font-mono">Format: {profile.date_format}</span>}
+      </div>
+
+      {profile.top_values.length > 0 && (
+        <div>
+          <span className="text-gray-500">Most common:</span>
+          <ul className="mt-1 space-y-0.5">
+            {profile.top_values.map((top) => (
+              <li key={top.value} className="flex items-center space-x-2">
+                <div className="h-1.5 rounded bg-blue-300" style={{ width: `${(top.count / profile.count) * 6}rem` }} />
+                <span className="font-mono truncate max-w-xs">{top.value}</span>
+                <span className="text-gray-400">×{top.count}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {profile.histogram && profile.histogram.length > 1 && (
+        <div>
+          <span className="text-gray-500">Distribution:</span>
+          <div className="mt-1 flex h-10 items-end space-x-0.5">
+            {profile.histogram.map((bin, index) => (
+              <div
+                key={index}
+                className="w-4 rounded-t bg-green-300"
+                style={{ height: `${(bin.count / largestBin) * 100}%` }}
+                title={`${formatNumber(bin.from)} – ${formatNumber(bin.to)}: ${bin.count}`}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { FileSpreadsheet } from "lucide-react"
+import type { CsvDialect } from "@/lib/mapping-schemas"
+import { CSV_DELIMITERS, describeDialect, sniffCSVDialect } from "@/lib/csv-dialect"
+import { readFileText } from "@/lib/encoding"
+
+interface CsvDialectInputProps {
+  file: File
+  dialect?: CsvDialect
+  encoding?: string
+  onChange: (dialect: CsvDialect) => void
+}
+
+const AUTO = "auto"
+const NO_HEADER = "none"
+
+export function CsvDialectInput({ file, dialect = {}, encoding, onChange }: CsvDialectInputProps) {
+  const [detected, setDetected] = useState<string | null>(null)
+
+  // Sniff the start of the file so the user sees what automatic detection picks
+  useEffect(() => {
+    let cancelled = false
+    readFileText(file, encoding)
+      .then(({ text }) => {
+        if (!cancelled) setDetected(describeDialect(sniffCSVDialect(text, dialect)))
+      })
+      .catch((error) => {
+        console.warn("Could not read the CSV dialect:", error)
+        if (!cancelled) setDetected(null)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [file, dialect.delimiter, dialect.quote, dialect.header_row, encoding])
+
+  const update = (key: keyof CsvDialect, value: CsvDialect[keyof CsvDialect] | undefined) => {
+    const next = { ...dialect, [key]: value }
+    if (value === undefined) delete next[key]
+    onChange(next)
+  }
+
+  const headerValue =
+    dialect.header_row === undefined ? AUTO : dialect.header_row === null ? NO_HEADER : String(dialect.header_row)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-3">
+        <FileSpreadsheet className="h-4 w-4 text-gray-500" />
+        <div className="w-40">
+          <Select
+            value={dialect.delimiter ?? AUTO}
+            onValueChange={(value) => update("delimiter", value === AUTO ? undefined : value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO}>Delimiter: auto</SelectItem>
+              {CSV_DELIMITERS.map((option) => (
+                <SelectItem key={option.label} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-40">
+          <Select
+            value={headerValue}
+            onValueChange={(value) =>
+              update("header_row", value === AUTO ? undefined : value === NO_HEADER ? null : Number(value))
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO}>Header: auto</SelectItem>
+              <SelectItem value={NO_HEADER}>No header row</SelectItem>
+              {Array.from({ length: 10 }, (_, index) => (
+                <SelectItem key={index} value={String(index)}>
+                  Header on row {index + 1}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {detected && <p className="text-xs text-gray-500">Reading as: {detected}</p>}
+    </div>
+  )
+}
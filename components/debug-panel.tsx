@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { ChevronDown, ChevronUp, Bug, FileText } from "lucide-react"
+import { ColumnProfileView } from "@/components/column-profile-view"
 
 interface DebugPanelProps {
   sourceDocuments?: any[]
@@ -50,6 +51,11 @@ export function DebugPanel({ sourceDocuments = [], targetDocuments = [], analysi
                         <Badge variant="outline" className="text-orange-600">
                           {doc.format}
                         </Badge>
+                        {doc.metadata?.encoding && (
+                          <Badge variant="outline" className="text-gray-600">
+                            {doc.metadata.encoding}
+                          </Badge>
+                        )}
                       </div>
                       <Button
                         variant="ghost"
@@ -79,6 +85,11 @@ export function DebugPanel({ sourceDocuments = [], targetDocuments = [], analysi
                                 <div className="text-xs text-gray-600">
                                   Type: {dp.type} | Samples: {JSON.stringify(dp.sample_values)}
                                 </div>
+                                {dp.profile && (
+                                  <div className="mt-1">
+                                    <ColumnProfileView profile={dp.profile} />
+                                  </div>
+                                )}
                               </div>
                             ))}
                           </div>
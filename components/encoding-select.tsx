@@ -0,0 +1,64 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Languages } from "lucide-react"
+import { TEXT_ENCODINGS, detectEncoding, type DetectedEncoding } from "@/lib/encoding"
+
+interface EncodingSelectProps {
+  file: File
+  encoding?: string
+  onChange: (encoding: string | undefined) => void
+}
+
+const AUTO = "auto"
+
+const labelOf = (encoding: string) => TEXT_ENCODINGS.find((option) => option.value === encoding)?.label ?? encoding
+
+export function EncodingSelect({ file, encoding, onChange }: EncodingSelectProps) {
+  const [detected, setDetected] = useState<DetectedEncoding | null>(null)
+
+  // Detect from the bytes so the user can tell when an export was not saved as UTF-8
+  useEffect(() => {
+    let cancelled = false
+    file
+      .arrayBuffer()
+      .then((buffer) => {
+        if (!cancelled) setDetected(detectEncoding(new Uint8Array(buffer)))
+      })
+      .catch((error) => {
+        console.warn("Could not detect the file encoding:", error)
+        if (!cancelled) setDetected(null)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [file])
+
+  return (
+    <div className="flex items-center space-x-3">
+      <Languages className="h-4 w-4 text-gray-500" />
+      <div className="w-64">
+        <Select value={encoding ?? AUTO} onValueChange={(value) => onChange(value === AUTO ? undefined : value)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={AUTO}>Encoding: auto</SelectItem>
+            {TEXT_ENCODINGS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {detected && (
+        <p className="text-xs text-gray-500">
+          Detected: {labelOf(detected.encoding)}
+          {detected.bom && " (with byte order mark)"}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -3,7 +3,9 @@
 import { useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
 import { Eye, EyeOff } from "lucide-react"
+import { readFileText } from "@/lib/encoding"
 
 interface FilePreviewProps {
   file: File
@@ -11,6 +13,7 @@ interface FilePreviewProps {
 
 export function FilePreview({ file }: FilePreviewProps) {
   const [content, setContent] = useState<string>("")
+  const [encoding, setEncoding] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [isVisible, setIsVisible] = useState(false)
 
@@ -22,8 +25,10 @@ export function FilePreview({ file }: FilePreviewProps) {
 
     setIsLoading(true)
     try {
-      const text = await file.text()
+      // Decode with the detected encoding so accented characters from non-UTF-8 exports show correctly
+      const { text, encoding } = await readFileText(file)
       setContent(text)
+      setEncoding(encoding)
       setIsVisible(true)
     } catch (error) {
       console.error("Error reading file:", error)
@@ -54,7 +59,14 @@ export function FilePreview({ file }: FilePreviewProps) {
       {isVisible && content && (
         <Card className="mt-2">
           <CardHeader className="py-2">
-            <CardTitle className="text-sm">File Content Preview</CardTitle>
+            <CardTitle className="text-sm flex items-center justify-between">
+              File Content Preview
+              {encoding && (
+                <Badge variant="outline" className="text-xs">
+                  {encoding}
+                </Badge>
+              )}
+            </CardTitle>
           </CardHeader>
           <CardContent className="py-2">
             <pre className="text-xs bg-gray-50 p-2 rounded max-h-32 overflow-auto whitespace-pre-wrap">
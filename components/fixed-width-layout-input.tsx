@@ -0,0 +1,63 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Ruler, X } from "lucide-react"
+import type { FixedWidthLayout } from "@/lib/mapping-schemas"
+import { getRecordLength, parseLayoutCSV } from "@/lib/fixed-width"
+
+interface FixedWidthLayoutInputProps {
+  layout?: FixedWidthLayout
+  onChange: (layout: FixedWidthLayout | undefined) => void
+}
+
+export function FixedWidthLayoutInput({ layout, onChange }: FixedWidthLayoutInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    try {
+      onChange(parseLayoutCSV(await file.text()))
+      setError(null)
+    } catch (error) {
+      setError(`Invalid layout in ${file.name}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center space-x-3">
+        <Ruler className="h-4 w-4 text-gray-500" />
+        {layout ? (
+          <>
+            <span className="text-sm text-gray-700">Fixed-width layout</span>
+            <Badge variant="outline" className="text-xs">
+              {layout.fields.length} fields, {getRecordLength(layout)} characters
+            </Badge>
+            <Button variant="ghost" size="sm" onClick={() => onChange(undefined)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button variant="outline" size="sm" type="button" onClick={() => inputRef.current?.click()}>
+              Load Layout CSV
+            </Button>
+            <span className="text-xs text-gray-500">
+              For fixed-width files: a CSV with name, start and length columns (type and padding optional)
+            </span>
+          </>
+        )}
+        <input ref={inputRef} type="file" accept=".csv,.txt" onChange={handleFile} className="hidden" />
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { ArrowRight, Edit, Trash2, Database, Target } from "lucide-react"
+import { getSourceFields, getTargetFields } from "@/lib/mapping-fields"
 
 interface MappingVisualizationProps {
   sourceFields: string[]
@@ -22,11 +23,11 @@ export function MappingVisualization({
   const [selectedMapping, setSelectedMapping] = useState<string | null>(null)
 
   const getMappedTargetFields = () => {
-    return currentMappings.map((m) => m.target_field)
+    return [...new Set(currentMappings.flatMap((m) => getTargetFields(m)))]
   }
 
   const getMappedSourceFields = () => {
-    return currentMappings.map((m) => m.source_field)
+    return [...new Set(currentMappings.flatMap((m) => getSourceFields(m)))]
   }
 
   const getUnmappedSourceFields = () => {
@@ -81,7 +82,7 @@ export function MappingVisualization({
           <CardContent className="space-y-2 max-h-96 overflow-y-auto">
             {sourceFields.map((field) => {
               const isMapped = getMappedSourceFields().includes(field)
-              const mapping = currentMappings.find((m) => m.source_field === field)
+              const mapping = currentMappings.find((m) => getSourceFields(m).includes(field))
 
               return (
                 <div
@@ -93,7 +94,9 @@ export function MappingVisualization({
                   <div className="flex items-center justify-between">
                     <div>
                       <span className="font-medium text-sm">{field}</span>
-                      {mapping && <div className="text-xs text-gray-600 mt-1">→ {mapping.target_field}</div>}
+                      {mapping && (
+                        <div className="text-xs text-gray-600 mt-1">→ {getTargetFields(mapping).join(", ")}</div>
+                      )}
                     </div>
                     <div className="flex items-center space-x-1">
                       {isMapped ? (
@@ -141,13 +144,21 @@ export function MappingVisualization({
                   <div className="space-y-2">
                     <div className="flex items-center justify-between">
                       <div className="flex items-center space-x-2">
-                        <Badge variant="outline" className="text-[#1a365d] text-xs">
-                          {mapping.source_field}
-                        </Badge>
+                        <div className="flex flex-wrap gap-1">
+                          {getSourceFields(mapping).map((field) => (
+                            <Badge key={field} variant="outline" className="text-[#1a365d] text-xs">
+                              {field}
+                            </Badge>
+                          ))}
+                        </div>
                         <ArrowRight className="h-3 w-3 text-gray-400" />
-                        <Badge variant="outline" className="text-[#0f766e] text-xs">
-                          {mapping.target_field}
-                        </Badge>
+                        <div className="flex flex-wrap gap-1">
+                          {getTargetFields(mapping).map((field) => (
+                            <Badge key={field} variant="outline" className="text-[#0f766e] text-xs">
+                              {field}
+                            </Badge>
+                          ))}
+                        </div>
                       </div>
                       <div className="flex items-center space-x-1">
                         <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
@@ -190,7 +201,7 @@ export function MappingVisualization({
           <CardContent className="space-y-2 max-h-96 overflow-y-auto">
             {targetFields.map((field) => {
               const isMapped = getMappedTargetFields().includes(field)
-              const mapping = currentMappings.find((m) => m.target_field === field)
+              const mapping = currentMappings.find((m) => getTargetFields(m).includes(field))
 
               return (
                 <div
@@ -202,7 +213,9 @@ export function MappingVisualization({
                   <div className="flex items-center justify-between">
                     <div>
                       <span className="font-medium text-sm">{field}</span>
-                      {mapping && <div className="text-xs text-gray-600 mt-1">← {mapping.source_field}</div>}
+                      {mapping && (
+                        <div className="text-xs text-gray-600 mt-1">← {getSourceFields(mapping).join(" + ")}</div>
+                      )}
                     </div>
                     <div className="flex items-center space-x-1">
                       {isMapped ? (
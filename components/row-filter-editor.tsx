@@ -0,0 +1,166 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Filter, Plus, Trash2 } from "lucide-react"
+import type { FilterRule, RowFilterConfig } from "@/lib/mapping-schemas"
+import { FILTER_OPERATOR_LABELS } from "@/lib/row-filters"
+import { validateExpression } from "@/lib/expression-language"
+
+interface RowFilterEditorProps {
+  filters: RowFilterConfig
+  sourceFields: string[]
+  onChange: (filters: RowFilterConfig) => void
+}
+
+const OPERATORS_WITHOUT_VALUE: FilterRule["operator"][] = ["is_empty", "is_not_empty"]
+
+export function RowFilterEditor({ filters, sourceFields, onChange }: RowFilterEditorProps) {
+  const updateRule = (id: string, updates: Partial<FilterRule>) => {
+    onChange({ ...filters, rules: filters.rules.map((rule) => (rule.id === id ? { ...rule, ...updates } : rule)) })
+  }
+
+  const addRule = () => {
+    const rule: FilterRule = { id: Date.now().toString(), field: sourceFields[0] || "", operator: "equals", value: "" }
+    onChange({ ...filters, rules: [...filters.rules, rule] })
+  }
+
+  const removeRule = (id: string) => {
+    onChange({ ...filters, rules: filters.rules.filter((rule) => rule.id !== id) })
+  }
+
+  const parseRowCount = (value: string) => {
+    const count = Number.parseInt(value, 10)
+    return isNaN(count) || count <= 0 ? undefined : count
+  }
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Filter className="h-4 w-4 text-gray-600" />
+          <h3 className="font-medium text-gray-900">Row Filters</h3>
+        </div>
+        <Button size="sm" variant="outline" onClick={addRule}>
+          <Plus className="h-3 w-3 mr-1" />
+          Add Rule
+        </Button>
+      </div>
+
+      <p className="text-sm text-gray-500">Rows that match any rule are left out of the converted file.</p>
+
+      {filters.rules.length > 0 && (
+        <div className="space-y-2">
+          {filters.rules.map((rule) => {
+            const expressionCheck =
+              rule.operator === "expression" && rule.value?.trim() ? validateExpression(rule.value) : null
+
+            return (
+              <div key={rule.id} className="space-y-1">
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm text-gray-600 w-16">Exclude if</span>
+                  {rule.operator !== "expression" && (
+                    <div className="w-48">
+                      {sourceFields.length > 0 ? (
+                        <Select value={rule.field} onValueChange={(value) => updateRule(rule.id, { field: value })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Field" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {sourceFields.map((field) => (
+                              <SelectItem key={field} value={field}>
+                                {field}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Input
+                          value={rule.field}
+                          onChange={(e) => updateRule(rule.id, { field: e.target.value })}
+                          placeholder="Field"
+                          className="text-sm"
+                        />
+                      )}
+                    </div>
+                  )}
+                  <div className="w-44">
+                    <Select
+                      value={rule.operator}
+                      onValueChange={(value) => updateRule(rule.id, { operator: value as FilterRule["operator"] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(FILTER_OPERATOR_LABELS).map(([operator, label]) => (
+                          <SelectItem key={operator} value={operator}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {!OPERATORS_WITHOUT_VALUE.includes(rule.operator) && (
+                    <Input
+                      value={rule.value || ""}
+                      onChange={(e) => updateRule(rule.id, { value: e.target.value })}
+                      placeholder={
+                        rule.operator === "expression"
+                          ? 'status = "inactive" and is_empty(email)'
+                          : rule.operator === "matches"
+                            ? "^TEST"
+                            : "Value"
+                      }
+                      className={`text-sm flex-1 ${rule.operator === "expression" ? "font-mono" : ""}`}
+                    />
+                  )}
+                  <Button size="sm" variant="ghost" onClick={() => removeRule(rule.id)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+                {expressionCheck && expressionCheck.errors.length > 0 && (
+                  <p className="text-xs text-red-600 ml-16">{expressionCheck.errors[0]}</p>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+        <label className="flex items-center space-x-2">
+          <span className="text-gray-600 whitespace-nowrap">Skip first</span>
+          <Input
+            type="number"
+            min={0}
+            value={filters.skip_leading_rows ?? ""}
+            onChange={(e) => onChange({ ...filters, skip_leading_rows: parseRowCount(e.target.value) })}
+            className="w-20 text-sm"
+          />
+          <span className="text-gray-600">rows</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span className="text-gray-600 whitespace-nowrap">Skip last</span>
+          <Input
+            type="number"
+            min={0}
+            value={filters.skip_trailing_rows ?? ""}
+            onChange={(e) => onChange({ ...filters, skip_trailing_rows: parseRowCount(e.target.value) })}
+            className="w-20 text-sm"
+          />
+          <span className="text-gray-600">rows</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={!!filters.drop_repeated_headers}
+            onChange={(e) => onChange({ ...filters, drop_repeated_headers: e.target.checked })}
+          />
+          <span className="text-gray-600">Drop repeated header rows</span>
+        </label>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Braces } from "lucide-react"
+import { readFileText } from "@/lib/encoding"
+import { detectSchemaKind, listSchemaEntries, type SchemaKind } from "@/lib/schema-import"
+
+interface SchemaEntrySelectProps {
+  file: File
+  entry?: string
+  onChange: (entry: string | undefined) => void
+}
+
+const FIRST = "first"
+
+// Picks the operation of an OpenAPI document or the input type of a GraphQL schema whose payload is
+// the target; other files render nothing
+export function SchemaEntrySelect({ file, entry, onChange }: SchemaEntrySelectProps) {
+  const [kind, setKind] = useState<SchemaKind | null>(null)
+  const [entries, setEntries] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setKind(null)
+    setEntries([])
+    setError(null)
+    readFileText(file)
+      .then(({ text }) => {
+        if (cancelled) return
+        const detected = detectSchemaKind(file.name, text)
+        if (detected !== "openapi" && detected !== "graphql") return
+        const list = listSchemaEntries(detected, text)
+        setKind(detected)
+        setEntries(list)
+        // An entry chosen for an earlier file falls back to the first of this one
+        if (entry && !list.includes(entry)) onChange(undefined)
+      })
+      .catch((reason) => {
+        if (!cancelled) setError(reason instanceof Error ? reason.message : String(reason))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [file])
+
+  if (error) return <p className="text-xs text-red-600">Could not read the schema: {error}</p>
+  if (!kind || entries.length === 0) return null
+
+  return (
+    <div className="flex items-center space-x-3">
+      <Braces className="h-4 w-4 text-gray-500" />
+      <div className="w-80">
+        <Select value={entry ?? FIRST} onValueChange={(value) => onChange(value === FIRST ? undefined : value)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={FIRST}>
+              {kind === "openapi" ? "Operation" : "Input type"}: {entries[0]}
+            </SelectItem>
+            {entries.slice(1).map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-gray-500">
+        {kind === "openapi"
+          ? "Request body the target fields are read from"
+          : "Input type the target fields are read from"}
+      </p>
+    </div>
+  )
+}
@@ -72,14 +72,25 @@ What would you like to adjust?`,
   )
   const [currentMessage, setCurrentMessage] = useState("")
   const [isLoading, setIsLoading] = useState(false)
-  const [currentMappings, setCurrentMappings] = useState(
+  const [currentMappings, setCurrentMappings] = useState<any[]>(
     mappings.fieldMappings.length > 0
       ? mappings.fieldMappings.map((m, i) => ({
           id: m.id || `mapping-${i}`,
           sourceField: m.sourceField || m.source_field || `source_${i}`,
           targetField: m.targetField || m.target_field || `target_${i}`,
           transformation: m.transformation || m.transformation_type || "Direct Copy",
-          valueMappings: m.valueMappings || [],
+          transformation_logic: m.transformation_logic,
+          separator: m.separator,
+          conditional_rules: m.conditional_rules,
+          format_options: m.format_options,
+          value_mapping: m.value_mapping,
+          valueMappings:
+            m.valueMappings ||
+            m.value_mapping?.entries.map((entry: any) => ({
+              sourceValue: entry.source_value,
+              targetValue: entry.target_value,
+            })) ||
+            [],
         }))
       : [
           { id: "1", sourceField: "id", targetField: "user_id", transformation: "Direct Copy", valueMappings: [] },
@@ -660,6 +671,37 @@ What would you like to adjust?`,
                               </Button>
                             </div>
 
+                            <div className="flex items-center space-x-2 mb-1">
+                              <Input
+                                value={mapping.value_mapping?.default_value ?? ""}
+                                onChange={(e) => {
+                                  const updated = [...currentMappings]
+                                  updated[index] = {
+                                    ...updated[index],
+                                    value_mapping: { ...updated[index].value_mapping, default_value: e.target.value },
+                                  }
+                                  setCurrentMappings(updated)
+                                }}
+                                className="text-xs h-5 w-1/2"
+                                placeholder="Default (keep original)"
+                              />
+                              <label className="flex items-center space-x-1 text-xs text-gray-600">
+                                <input
+                                  type="checkbox"
+                                  checked={!!mapping.value_mapping?.case_sensitive}
+                                  onChange={(e) => {
+                                    const updated = [...currentMappings]
+                                    updated[index] = {
+                                      ...updated[index],
+                                      value_mapping: { ...updated[index].value_mapping, case_sensitive: e.target.checked },
+                                    }
+                                    setCurrentMappings(updated)
+                                  }}
+                                />
+                                <span>Case sensitive</span>
+                              </label>
+                            </div>
+
                             {!mapping.valueMappings || mapping.valueMappings.length === 0 ? (
                               <p className="text-xs text-gray-500 italic">No value mappings defined</p>
                             ) : (
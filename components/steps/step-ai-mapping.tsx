@@ -7,12 +7,16 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
 import { Brain, CheckCircle, AlertCircle, ArrowLeft, ArrowRight, Loader2, FileText, Target } from "lucide-react"
+import type { SourceOptions } from "@/lib/document-processor"
 
 interface DocumentSet {
   sourceFile: File | null
   sourceSpecs: File[]
+  relatedSources: File[]
   targetFile: File | null
   targetSpecs: File[]
+  sourceOptions?: SourceOptions
+  targetOptions?: SourceOptions
 }
 
 interface MappingData {
@@ -53,6 +57,30 @@ export function StepAiMapping({ documents, onComplete, onBack }: StepAiMappingPr
         formData.append("sourceFile", documents.sourceFile)
         console.log("Added source file:", documents.sourceFile.name)
       }
+      if (documents.sourceOptions?.sheet) {
+        formData.append("sourceSheet", documents.sourceOptions.sheet)
+      }
+      if (documents.sourceOptions?.layout) {
+        formData.append("sourceLayout", JSON.stringify(documents.sourceOptions.layout))
+      }
+      if (documents.targetOptions?.layout) {
+        formData.append("targetLayout", JSON.stringify(documents.targetOptions.layout))
+      }
+      if (documents.sourceOptions?.csv) {
+        formData.append("sourceCsv", JSON.stringify(documents.sourceOptions.csv))
+      }
+      if (documents.targetOptions?.csv) {
+        formData.append("targetCsv", JSON.stringify(documents.targetOptions.csv))
+      }
+      if (documents.sourceOptions?.encoding) {
+        formData.append("sourceEncoding", documents.sourceOptions.encoding)
+      }
+      if (documents.targetOptions?.encoding) {
+        formData.append("targetEncoding", documents.targetOptions.encoding)
+      }
+      if (documents.targetOptions?.schemaEntry) {
+        formData.append("targetSchemaEntry", documents.targetOptions.schemaEntry)
+      }
       if (documents.targetFile) {
         formData.append("targetFile", documents.targetFile)
         console.log("Added target file:", documents.targetFile.name)
@@ -63,6 +91,11 @@ export function StepAiMapping({ documents, onComplete, onBack }: StepAiMappingPr
         console.log("Added source spec:", file.name)
       })
 
+      documents.relatedSources.forEach((file, index) => {
+        formData.append(`relatedSource${index}`, file)
+        console.log("Added related source:", file.name)
+      })
+
       documents.targetSpecs.forEach((file, index) => {
         formData.append(`targetSpec${index}`, file)
         console.log("Added target spec:", file.name)
@@ -198,6 +231,15 @@ export function StepAiMapping({ documents, onComplete, onBack }: StepAiMappingPr
                     </Badge>
                   </div>
                 )}
+                {documents.relatedSources.map((file) => (
+                  <div key={file.name} className="flex items-center space-x-2 p-2 bg-slate-50 rounded">
+                    <span>{getFileIcon(file.name)}</span>
+                    <span className="text-sm">{file.name}</span>
+                    <Badge variant="outline" className="text-xs">
+                      Related
+                    </Badge>
+                  </div>
+                ))}
                 {documents.sourceSpecs.map((file) => (
                   <div key={file.name} className="flex items-center space-x-2 p-2 bg-slate-50 rounded">
                     <span>{getFileIcon(file.name)}</span>
@@ -297,6 +339,27 @@ export function StepAiMapping({ documents, onComplete, onBack }: StepAiMappingPr
                 <p>• Found {analysisResults.sourceFields?.length || 0} source fields</p>
                 <p>• Found {analysisResults.targetFields?.length || 0} target fields</p>
                 <p>• Generated {analysisResults.mappings?.length || 0} field mappings</p>
+                {analysisResults.relationships?.joins?.length > 0 && (
+                  <p>
+                    • Found {analysisResults.relationships.joins.length} likely joins between the source files
+                  </p>
+                )}
+                {analysisResults.analysis?.data_quality_issues?.length > 0 && (
+                  <p className="text-amber-700">
+                    • Found {analysisResults.analysis.data_quality_issues.length} data quality issues in the source
+                  </p>
+                )}
+                {(analysisResults.sourceDictionary?.length > 0 || analysisResults.targetDictionary?.length > 0) && (
+                  <p>
+                    • Read {analysisResults.sourceDictionary?.length || 0} source and{" "}
+                    {analysisResults.targetDictionary?.length || 0} target field definitions from the specifications
+                  </p>
+                )}
+                {analysisResults.specWarnings?.map((warning: string) => (
+                  <p key={warning} className="text-amber-700">
+                    • {warning}
+                  </p>
+                ))}
                 <p>• Overall confidence: {analysisResults.confidence || 0}%</p>
               </div>
             </div>
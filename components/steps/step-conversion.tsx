@@ -5,13 +5,26 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { ArrowLeft, ArrowRight, Download, FileText, CheckCircle, AlertCircle } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ArrowLeft, ArrowRight, Download, FileText, CheckCircle, AlertCircle, Sheet } from "lucide-react"
+import { normalizeMappings, type ConversionSummary } from "@/lib/conversion-engine"
+import { readSpreadsheetColumns, resolveOutputFormat, writeOutput, type OutputFile } from "@/lib/output-writers"
+import type { AggregationConfig, RowFilterConfig, SourceJoin } from "@/lib/mapping-schemas"
+import { getTargetFields } from "@/lib/mapping-fields"
+import { hasRecordElement, parseXMLDocument } from "@/lib/xml-template"
+import { NDJSON_MIME_TYPE } from "@/lib/ndjson"
+import { RowFilterEditor } from "@/components/row-filter-editor"
+import { AggregationEditor } from "@/components/aggregation-editor"
+import type { SourceOptions } from "@/lib/document-processor"
 
 interface DocumentSet {
   sourceFile: File | null
   sourceSpecs: File[]
+  relatedSources: File[]
   targetFile: File | null
   targetSpecs: File[]
+  sourceOptions?: SourceOptions
+  targetOptions?: SourceOptions
 }
 
 interface MappingData {
@@ -19,12 +32,15 @@ interface MappingData {
   analysisResults: any
   chatHistory: any[]
   finalMappings: any[]
+  filterRules?: RowFilterConfig
+  aggregation?: AggregationConfig
+  joins?: SourceJoin[]
 }
 
 interface StepConversionProps {
   documents: DocumentSet
   mappings: MappingData
-  onComplete: () => void
+  onComplete: (mappings: MappingData) => void
   onBack: () => void
 }
 
@@ -35,42 +51,144 @@ export function StepConversion({ documents, mappings, onComplete, onBack }: Step
   const [conversionComplete, setConversionComplete] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [outputFile, setOutputFile] = useState<string | null>(null)
+  const [conversionResult, setConversionResult] = useState<{ output: OutputFile; summary: ConversionSummary } | null>(
+    null,
+  )
+  const [filters, setFilters] = useState<RowFilterConfig>(mappings.filterRules || { rules: [] })
+  const [aggregation, setAggregation] = useState<AggregationConfig>(mappings.aggregation || { group_by: [] })
+  const [sheetBy, setSheetBy] = useState("")
+
+  const targetFields = [...new Set(normalizeMappings(mappings.finalMappings).flatMap((mapping) => getTargetFields(mapping)))]
+  // A target with a fixed-width layout is written in that layout, whatever its extension
+  const outputFormat = documents.targetOptions?.layout ? "fixed" : resolveOutputFormat(documents.targetFile?.name)
+
+  // An Excel target sample decides the column order of the output
+  const readTargetColumnOrder = async (): Promise<string[] | undefined> => {
+    if (!documents.targetFile || outputFormat !== "xlsx") return undefined
+    try {
+      return readSpreadsheetColumns(await documents.targetFile.arrayBuffer())
+    } catch (error) {
+      console.warn("Could not read the column order of the target file:", error)
+      return undefined
+    }
+  }
 
   const startConversion = async () => {
     setIsConverting(true)
     setError(null)
     setProgress(0)
+    setConversionResult(null)
 
     try {
+      if (!documents.sourceFile) {
+        throw new Error("No source file available for conversion")
+      }
+
       // Step 1: Prepare conversion
       setCurrentTask("Preparing data transformation...")
       setProgress(10)
-      await new Promise((resolve) => setTimeout(resolve, 500))
+
+      const formData = new FormData()
+      formData.append("sourceFile", documents.sourceFile)
+      if (documents.sourceOptions?.sheet) {
+        formData.append("sourceSheet", documents.sourceOptions.sheet)
+      }
+      if (documents.sourceOptions?.layout) {
+        formData.append("sourceLayout", JSON.stringify(documents.sourceOptions.layout))
+      }
+      if (documents.sourceOptions?.csv) {
+        formData.append("sourceCsv", JSON.stringify(documents.sourceOptions.csv))
+      }
+      if (documents.sourceOptions?.encoding) {
+        formData.append("sourceEncoding", documents.sourceOptions.encoding)
+      }
+      formData.append("mappings", JSON.stringify(mappings.finalMappings))
+      // NDJSON output is streamed by the server, one line per converted record
+      formData.append("outputFormat", outputFormat)
+      // Related files add their fields to the source records through the joins chosen in the review
+      if (mappings.joins && mappings.joins.length > 0) {
+        formData.append("joins", JSON.stringify(mappings.joins))
+        documents.relatedSources.forEach((file, index) => formData.append(`relatedSource${index}`, file))
+      }
+      // Expressions are checked against the source field types found during analysis and read numbers in their formats
+      const sourceDataPoints = mappings.analysisResults?.sourceDocuments?.[0]?.dataPoints || []
+      formData.append(
+        "fieldTypes",
+        JSON.stringify(Object.fromEntries(sourceDataPoints.map((dp: any) => [dp.field, dp.type]))),
+      )
+      formData.append(
+        "fieldFormats",
+        JSON.stringify(
+          Object.fromEntries(sourceDataPoints.filter((dp: any) => dp.format).map((dp: any) => [dp.field, dp.format])),
+        ),
+      )
+      formData.append("filters", JSON.stringify(filters))
+      if (aggregation.group_by.length > 0) {
+        formData.append("aggregation", JSON.stringify(aggregation))
+      }
+      // Field definitions of the target schema or specs; values that break them are reported per row
+      const targetDictionary = mappings.analysisResults?.targetDictionary
+      if (targetDictionary?.length > 0) {
+        formData.append("targetConstraints", JSON.stringify(targetDictionary))
+      }
 
       // Step 2: Apply mappings
       setCurrentTask("Applying field mappings...")
       setProgress(30)
-      await new Promise((resolve) => setTimeout(resolve, 1000))
+
+      const response = await fetch("/api/convert", {
+        method: "POST",
+        body: formData,
+      })
 
       // Step 3: Transform data
       setCurrentTask("Transforming data values...")
       setProgress(60)
-      await new Promise((resolve) => setTimeout(resolve, 1500))
+
+      const streamed = response.ok && response.headers.get("Content-Type")?.startsWith(NDJSON_MIME_TYPE)
+      const result = streamed ? null : await response.json()
+      if (!streamed && (!response.ok || !result.success)) {
+        throw new Error(result.details || result.error || `Conversion failed: ${response.status}`)
+      }
 
       // Step 4: Generate output
       setCurrentTask("Generating output file...")
       setProgress(85)
-      await new Promise((resolve) => setTimeout(resolve, 800))
+
+      let summary: ConversionSummary
+      let output: OutputFile
+      if (streamed) {
+        // The streamed body already is the output file; its summary comes in a header
+        summary = JSON.parse(decodeURIComponent(response.headers.get("X-Conversion-Summary") || ""))
+        output = { content: await response.blob(), mimeType: NDJSON_MIME_TYPE, extension: "jsonl" }
+      } else {
+        summary = result.summary
+        const options = {
+          columnOrder: await readTargetColumnOrder(),
+          sheetBy: sheetBy || undefined,
+          layout: documents.targetOptions?.layout,
+        }
+        // An XML target sample is used as the template of the output document; an XSD is not a sample
+        let xmlTemplate =
+          outputFormat === "xml" && documents.targetFile && /\.xml$/i.test(documents.targetFile.name)
+            ? await parseXMLDocument(await documents.targetFile.text())
+            : undefined
+        if (xmlTemplate && !hasRecordElement(xmlTemplate)) {
+          summary.warnings.push(
+            "The target XML has no element that can be repeated per record, so a plain record list was written",
+          )
+          xmlTemplate = undefined
+        }
+        output = writeOutput(result.records, result.columns, outputFormat, { ...options, xmlTemplate })
+      }
+      summary.warnings.push(...(output.warnings || []))
 
       // Step 5: Finalize
       setCurrentTask("Finalizing conversion...")
       setProgress(100)
-      await new Promise((resolve) => setTimeout(resolve, 300))
 
-      // Simulate file generation
-      const targetExtension = documents.targetFile?.name.split(".").pop() || "json"
-      const outputFileName = `transformed_data.${targetExtension}`
-      setOutputFile(outputFileName)
+      setConversionResult({ output, summary })
+      setOutputFile(`transformed_data.${output.extension}`)
       setConversionComplete(true)
       setCurrentTask("Conversion complete!")
     } catch (error) {
@@ -84,26 +202,13 @@ export function StepConversion({ documents, mappings, onComplete, onBack }: Step
   }
 
   const downloadFile = () => {
-    // Simulate file download
-    const sampleData = {
-      metadata: {
-        source: documents.sourceFile?.name,
-        target: documents.targetFile?.name,
-        mappings: mappings.finalMappings.length,
-        timestamp: new Date().toISOString(),
-      },
-      data: [
-        { name: "John Doe", email: "john@example.com", date: "2024-01-15", amount: "$1,250.00" },
-        { name: "Jane Smith", email: "jane@example.com", date: "2024-01-16", amount: "$890.50" },
-        { name: "Bob Johnson", email: "bob@example.com", date: "2024-01-17", amount: "$2,100.75" },
-      ],
-    }
+    if (!conversionResult) return
 
-    const blob = new Blob([JSON.stringify(sampleData, null, 2)], { type: "application/json" })
+    const blob = new Blob([conversionResult.output.content], { type: conversionResult.output.mimeType })
     const url = URL.createObjectURL(blob)
     const a = document.createElement("a")
     a.href = url
-    a.download = outputFile || "transformed_data.json"
+    a.download = outputFile || `transformed_data.${conversionResult.output.extension}`
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
@@ -194,12 +299,75 @@ export function StepConversion({ documents, mappings, onComplete, onBack }: Step
                 <CheckCircle className="h-5 w-5 text-green-500" />
                 <span className="font-medium text-green-800">Conversion Successful!</span>
               </div>
+              {conversionResult && (
+                <div className="grid grid-cols-3 gap-4 my-3 text-center">
+                  <div className="bg-white rounded p-3">
+                    <div className="text-2xl font-bold text-gray-900">{conversionResult.summary.input_records}</div>
+                    <div className="text-xs text-gray-600">Input records</div>
+                  </div>
+                  <div className="bg-white rounded p-3">
+                    <div className="text-2xl font-bold text-yellow-700">
+                      {conversionResult.summary.excluded_records.reduce((total, exclusion) => total + exclusion.count, 0)}
+                    </div>
+                    <div className="text-xs text-gray-600">Excluded records</div>
+                  </div>
+                  <div className="bg-white rounded p-3">
+                    <div className="text-2xl font-bold text-green-700">{conversionResult.summary.output_records}</div>
+                    <div className="text-xs text-gray-600">
+                      Output records
+                      {conversionResult.summary.grouped_by && ` (grouped by ${conversionResult.summary.grouped_by.join(", ")})`}
+                    </div>
+                  </div>
+                </div>
+              )}
               <div className="text-sm text-green-700 space-y-1">
-                <p>• Processed {mappings.finalMappings.length} field mappings</p>
-                <p>• Applied transformations successfully</p>
+                <p>• Applied {conversionResult?.summary.applied_mappings ?? 0} field mappings</p>
+                <p>
+                  • Converted {conversionResult?.summary.input_records ?? 0} source records into{" "}
+                  {conversionResult?.summary.output_records ?? 0} output records
+                </p>
                 <p>• Generated output file: {outputFile}</p>
-                <p>• Ready for download</p>
               </div>
+              {conversionResult &&
+                (conversionResult.summary.warnings.length > 0 ||
+                  conversionResult.summary.skipped_mappings.length > 0 ||
+                  conversionResult.summary.unmatched_values.length > 0 ||
+                  conversionResult.summary.excluded_records.length > 0 ||
+                  conversionResult.summary.row_issues.length > 0) && (
+                  <div className="mt-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-3 space-y-1">
+                    {conversionResult.summary.skipped_mappings.map((skipped) => (
+                      <p key={skipped.mapping_id}>
+                        • Skipped mapping to {skipped.target_field || "(no target)"}: {skipped.reason}
+                      </p>
+                    ))}
+                    {conversionResult.summary.excluded_records.map((exclusion) => (
+                      <p key={exclusion.reason}>
+                        • Excluded {exclusion.count} {exclusion.count === 1 ? "row" : "rows"}: {exclusion.reason} (
+                        {exclusion.count > exclusion.rows.length ? "rows include" : "rows"} {exclusion.rows.join(", ")})
+                      </p>
+                    ))}
+                    {conversionResult.summary.warnings.map((warning, index) => (
+                      <p key={index}>• {warning}</p>
+                    ))}
+                    {conversionResult.summary.unmatched_values.slice(0, 5).map((unmatched) => (
+                      <p key={`${unmatched.mapping_id}-${unmatched.value}`}>
+                        • No value mapping for "{unmatched.value}" in {unmatched.target_field} ({unmatched.count}{" "}
+                        {unmatched.count === 1 ? "record" : "records"})
+                      </p>
+                    ))}
+                    {conversionResult.summary.unmatched_values.length > 5 && (
+                      <p>• ... and {conversionResult.summary.unmatched_values.length - 5} more unmatched values</p>
+                    )}
+                    {conversionResult.summary.row_issues.slice(0, 5).map((issue, index) => (
+                      <p key={index}>
+                        • Row {issue.row}, {issue.field}: {issue.message}
+                      </p>
+                    ))}
+                    {conversionResult.summary.row_issues.length > 5 && (
+                      <p>• ... and {conversionResult.summary.row_issues.length - 5} more row issues</p>
+                    )}
+                  </div>
+                )}
               <Button onClick={downloadFile} className="mt-3" size="sm">
                 <Download className="h-4 w-4 mr-2" />
                 Download Converted File
@@ -222,6 +390,48 @@ export function StepConversion({ documents, mappings, onComplete, onBack }: Step
             </Alert>
           )}
 
+          {/* Row Filters */}
+          {!isConverting && !conversionComplete && (
+            <RowFilterEditor
+              filters={filters}
+              sourceFields={mappings.analysisResults?.sourceFields || []}
+              onChange={setFilters}
+            />
+          )}
+
+          {/* Grouping */}
+          {!isConverting && !conversionComplete && targetFields.length > 0 && (
+            <AggregationEditor aggregation={aggregation} targetFields={targetFields} onChange={setAggregation} />
+          )}
+
+          {/* Spreadsheet Sheets */}
+          {!isConverting && !conversionComplete && outputFormat === "xlsx" && targetFields.length > 0 && (
+            <div className="border rounded-lg p-4 space-y-3">
+              <div className="flex items-center space-x-2">
+                <Sheet className="h-4 w-4 text-gray-600" />
+                <h3 className="font-medium text-gray-900">Excel Sheets</h3>
+              </div>
+              <div className="flex items-center space-x-3 text-sm">
+                <span className="text-gray-600 whitespace-nowrap">Write</span>
+                <div className="w-64">
+                  <Select value={sheetBy || "single"} onValueChange={(value) => setSheetBy(value === "single" ? "" : value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="single">All records on one sheet</SelectItem>
+                      {targetFields.map((field) => (
+                        <SelectItem key={field} value={field}>
+                          One sheet per {field}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Start Conversion Button */}
           {!isConverting && !conversionComplete && !error && (
             <div className="text-center">
@@ -243,7 +453,11 @@ export function StepConversion({ documents, mappings, onComplete, onBack }: Step
           Back to AI Chat
         </Button>
         {conversionComplete && (
-          <Button onClick={onComplete}>
+          <Button onClick={() => onComplete({
+                ...mappings,
+                filterRules: filters,
+                aggregation: aggregation.group_by.length > 0 ? aggregation : undefined,
+              })}>
             Save Configuration
             <ArrowRight className="h-4 w-4 ml-2" />
           </Button>
@@ -9,6 +9,8 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { ArrowLeft, Download, Save, FileText, CheckCircle, AlertTriangle, Database, Target } from "lucide-react"
 import { LoadingDots } from "@/components/loading-dots"
+import { orderColumns, readSpreadsheetColumns, writeXLSX, XLSX_MIME_TYPE } from "@/lib/output-writers"
+import { NDJSON_MIME_TYPE, writeNDJSON } from "@/lib/ndjson"
 
 interface StepCreateOutputProps {
   sourceFile?: File
@@ -38,6 +40,7 @@ export function StepCreateOutput({
   const outputFormats = [
     { value: "csv", label: "CSV (Comma Separated Values)", extension: ".csv" },
     { value: "json", label: "JSON (JavaScript Object Notation)", extension: ".json" },
+    { value: "ndjson", label: "NDJSON (Newline-Delimited JSON)", extension: ".jsonl" },
     { value: "xlsx", label: "Excel Spreadsheet", extension: ".xlsx" },
     { value: "xml", label: "XML (Extensible Markup Language)", extension: ".xml" },
   ]
@@ -186,10 +189,17 @@ export function StepCreateOutput({
       case "json":
         return JSON.stringify(records, null, 2)
 
-      case "xlsx":
-        // For demo purposes, return CSV-like content
-        // In a real implementation, you'd use a library like xlsx
-        return "Excel format would be generated here"
+      case "ndjson":
+        return writeNDJSON(records, [...new Set<string>(records.flatMap((record: any) => Object.keys(record)))])
+
+      case "xlsx": {
+        const columns = [...new Set<string>(records.flatMap((record: any) => Object.keys(record)))]
+        // Mirror the column order of an Excel target sample
+        const targetColumns = /\.xlsx?$/i.test(targetFile?.name || "")
+          ? readSpreadsheetColumns(await targetFile!.arrayBuffer())
+          : undefined
+        return writeXLSX([{ name: "Data", records, columns: orderColumns(columns, targetColumns) }])
+      }
 
       case "xml":
         const xmlContent = `<?xml version="1.0" encoding="UTF-8"?>
@@ -216,7 +226,14 @@ ${Object.entries(record)
     if (!outputResult) return
 
     const blob = new Blob([outputResult.data], {
-      type: outputFormat === "json" ? "application/json" : "text/plain",
+      type:
+        outputFormat === "json"
+          ? "application/json"
+          : outputFormat === "ndjson"
+            ? NDJSON_MIME_TYPE
+            : outputFormat === "xlsx"
+              ? XLSX_MIME_TYPE
+              : "text/plain",
     })
     const url = URL.createObjectURL(blob)
     const a = document.createElement("a")
@@ -9,6 +9,8 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { ArrowLeft, Download, Save, FileText, CheckCircle, AlertTriangle } from "lucide-react"
 import { LoadingDots } from "@/components/loading-dots"
+import { writeXLSX, XLSX_MIME_TYPE } from "@/lib/output-writers"
+import { NDJSON_MIME_TYPE, writeNDJSON } from "@/lib/ndjson"
 
 interface StepOutputProps {
   sourceFiles: File[]
@@ -34,6 +36,7 @@ export function StepOutput({
   const outputFormats = [
     { value: "csv", label: "CSV (Comma Separated Values)", extension: ".csv" },
     { value: "json", label: "JSON (JavaScript Object Notation)", extension: ".json" },
+    { value: "ndjson", label: "NDJSON (Newline-Delimited JSON)", extension: ".jsonl" },
     { value: "xlsx", label: "Excel Spreadsheet", extension: ".xlsx" },
     { value: "xml", label: "XML (Extensible Markup Language)", extension: ".xml" },
   ]
@@ -184,10 +187,18 @@ export function StepOutput({
       case "json":
         return JSON.stringify(allRecords, null, 2)
 
+      case "ndjson":
+        return writeNDJSON(allRecords, [...new Set<string>(allRecords.flatMap((record: any) => Object.keys(record)))])
+
       case "xlsx":
-        // For demo purposes, return CSV-like content
-        // In a real implementation, you'd use a library like xlsx
-        return "Excel format would be generated here"
+        // One sheet per source file
+        return writeXLSX(
+          processedData.map((data) => ({
+            name: data.fileName.replace(/\.[^.]+$/, ""),
+            records: data.records,
+            columns: [...new Set<string>(data.records.flatMap((record: any) => Object.keys(record)))],
+          })),
+        )
 
       case "xml":
         const xmlContent = `<?xml version="1.0" encoding="UTF-8"?>
@@ -214,7 +225,14 @@ ${Object.entries(record)
     if (!outputResult) return
 
     const blob = new Blob([outputResult.data], {
-      type: outputFormat === "json" ? "application/json" : "text/plain",
+      type:
+        outputFormat === "json"
+          ? "application/json"
+          : outputFormat === "ndjson"
+            ? NDJSON_MIME_TYPE
+            : outputFormat === "xlsx"
+              ? XLSX_MIME_TYPE
+              : "text/plain",
     })
     const url = URL.createObjectURL(blob)
     const a = document.createElement("a")
@@ -5,9 +5,22 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { ArrowLeft, ArrowRight, Edit2, Plus, Trash2, Eye, AlertCircle } from "lucide-react"
+import { ArrowLeft, ArrowRight, Edit2, Plus, Trash2, Eye, AlertCircle, BarChart3, Link2, KeyRound } from "lucide-react"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Input } from "@/components/ui/input"
+import { validateExpression, type FieldTypes } from "@/lib/expression-language"
+import type {
+  CandidateKey,
+  ConditionalRules,
+  DataQualityIssue,
+  FormatOptions,
+  FormatSpec,
+  SourceJoin,
+} from "@/lib/mapping-schemas"
+import { tableNameOf } from "@/lib/relationships"
+import type { ColumnProfile } from "@/lib/column-profile"
+import { NUMBER_FORMAT_PRESETS } from "@/lib/locale-format"
+import { ColumnProfileView } from "@/components/column-profile-view"
 
 interface DocumentSet {
   sourceFile: File | null
@@ -23,6 +36,7 @@ interface MappingData {
   finalMappings: any[]
   sourceFields?: string[]
   targetFields?: string[]
+  joins?: SourceJoin[]
 }
 
 interface FieldMapping {
@@ -33,6 +47,14 @@ interface FieldMapping {
   confidence: number
   notes?: string
   valueMappings?: ValueMapping[]
+  sourceFieldList?: string[]
+  targetFieldList?: string[]
+  separator?: string
+  defaultValue?: string
+  caseSensitive?: boolean
+  expression?: string
+  conditionalRules?: ConditionalRules
+  formatOptions?: FormatOptions
 }
 
 interface ValueMapping {
@@ -51,10 +73,27 @@ export function StepReviewMapping({ documents, mappings, onComplete, onBack }: S
   // Initialize state
   const [fieldMappings, setFieldMappings] = useState<FieldMapping[]>([])
   const [editingId, setEditingId] = useState<string | null>(null)
+  const [profileId, setProfileId] = useState<string | null>(null)
   const [sourceFields, setSourceFields] = useState<string[]>([])
   const [targetFields, setTargetFields] = useState<string[]>([])
   const [isLoading, setIsLoading] = useState(true)
 
+  // Keys and joins detected between the source and its related files. Joins that involve the source
+  // add the fields of the related file to its records; they are used unless switched off here.
+  const candidateKeys: CandidateKey[] = mappings.analysisResults?.relationships?.candidateKeys || []
+  const suggestedJoins: SourceJoin[] = mappings.analysisResults?.relationships?.joins || []
+  const sourceTable = documents.sourceFile ? tableNameOf(documents.sourceFile.name) : ""
+  const involvesSource = (join: SourceJoin) => join.file === sourceTable || join.related_file === sourceTable
+  const [selectedJoins, setSelectedJoins] = useState<SourceJoin[]>(
+    () => mappings.joins ?? suggestedJoins.filter(involvesSource),
+  )
+  const joinKey = (join: SourceJoin) => `${join.file}.${join.field}>${join.related_file}.${join.related_field}`
+  const isJoinSelected = (join: SourceJoin) => selectedJoins.some((selected) => joinKey(selected) === joinKey(join))
+  const toggleJoin = (join: SourceJoin) =>
+    setSelectedJoins((prev) =>
+      isJoinSelected(join) ? prev.filter((selected) => joinKey(selected) !== joinKey(join)) : [...prev, join],
+    )
+
   // Extract fields from uploaded files
   useEffect(() => {
     console.log("StepReviewMapping - Component mounted")
@@ -97,6 +136,22 @@ export function StepReviewMapping({ documents, mappings, onComplete, onBack }: S
               transformation: mapping.transformation || mapping.transformation_type || "direct",
               confidence: mapping.confidence * 100 || 75,
               notes: mapping.notes || mapping.reasoning || "",
+              valueMappings:
+                mapping.valueMappings ||
+                mapping.value_mapping?.entries.map((entry: any) => ({
+                  sourceValue: entry.source_value,
+                  targetValue: entry.target_value,
+                })),
+              sourceFieldList: mapping.source_fields,
+              targetFieldList: mapping.target_fields,
+              separator: mapping.separator,
+              defaultValue: mapping.value_mapping?.default_value,
+              caseSensitive: mapping.value_mapping?.case_sensitive,
+              conditionalRules: mapping.conditional_rules,
+              formatOptions: mapping.format_options,
+              expression: mapping.transformation_logic?.trim().startsWith("=")
+                ? mapping.transformation_logic.trim().slice(1)
+                : undefined,
             }))
             setFieldMappings(formattedMappings)
           } else {
@@ -208,9 +263,44 @@ export function StepReviewMapping({ documents, mappings, onComplete, onBack }: S
     { value: "concat", label: "Concatenate" },
     { value: "split", label: "Split Field" },
     { value: "value_mapping", label: "Value Mapping" },
+    { value: "conditional", label: "Conditional" },
     { value: "custom", label: "Custom Transform" },
   ]
 
+  // Types of the analyzed source fields, used to check custom expressions while they are typed
+  const sourceFieldTypes: FieldTypes = Object.fromEntries(
+    (mappings.analysisResults?.sourceDocuments?.[0]?.dataPoints || []).map((dp: any) => [dp.field, dp.type]),
+  )
+
+  const hasFormatOptions = (transformation: string) => transformation === "date_format" || transformation === "currency"
+
+  // Date pattern or number separators detected during analysis, the default source format of a mapping
+  const getDetectedFormat = (field: string): FormatSpec | undefined =>
+    (mappings.analysisResults?.sourceDocuments?.[0]?.dataPoints || []).find((dp: any) => dp.field === field)?.format
+
+  // Profiles of the analyzed fields, shown so a mapping can be judged from the values on both sides
+  const getProfile = (side: "source" | "target", field: string): ColumnProfile | undefined =>
+    (mappings.analysisResults?.[side === "source" ? "sourceDocuments" : "targetDocuments"]?.[0]?.dataPoints || []).find(
+      (dp: any) => dp.field === field,
+    )?.profile
+
+  const getSourceFormat = (mapping: FieldMapping) => mapping.formatOptions?.source ?? getDetectedFormat(mapping.sourceField)
+
+  // Problems found in the source records during analysis, shown here so they can be fixed in the
+  // source or handled by a transformation before converting
+  const qualityIssues: DataQualityIssue[] = mappings.analysisResults?.analysis?.data_quality_issues || []
+
+  const getSeverityColor = (severity: string) => {
+    switch (severity) {
+      case "high":
+        return "text-red-600 bg-red-50 border-red-200"
+      case "medium":
+        return "text-yellow-600 bg-yellow-50 border-yellow-200"
+      default:
+        return "text-gray-600 bg-gray-50 border-gray-200"
+    }
+  }
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 90) return "bg-green-100 text-green-800"
     if (confidence >= 70) return "bg-yellow-100 text-yellow-800"
@@ -221,6 +311,121 @@ export function StepReviewMapping({ documents, mappings, onComplete, onBack }: S
     setFieldMappings((prev) => prev.map((mapping) => (mapping.id === id ? { ...mapping, ...updates } : mapping)))
   }
 
+  // Adds or removes a field of a combination (sources) or split (targets) and keeps the label in sync
+  const toggleFieldInList = (mapping: FieldMapping, side: "source" | "target", field: string) => {
+    if (side === "source") {
+      const current = mapping.sourceFieldList || (mapping.sourceField ? [mapping.sourceField] : [])
+      const list = current.includes(field) ? current.filter((f) => f !== field) : [...current, field]
+      updateMapping(mapping.id, { sourceFieldList: list, sourceField: list.join(" + ") })
+    } else {
+      const current = mapping.targetFieldList || (mapping.targetField ? [mapping.targetField] : [])
+      const list = current.includes(field) ? current.filter((f) => f !== field) : [...current, field]
+      updateMapping(mapping.id, { targetFieldList: list, targetField: list.join(", ") })
+    }
+  }
+
+  const updateConditionalRules = (mapping: FieldMapping, updates: Partial<ConditionalRules>) => {
+    const rules = mapping.conditionalRules || { branches: [] }
+    updateMapping(mapping.id, { conditionalRules: { ...rules, ...updates } })
+  }
+
+  const updateFormatSpec = (mapping: FieldMapping, side: "source" | "target", updates: Partial<FormatSpec>) => {
+    const current = side === "source" ? getSourceFormat(mapping) : mapping.formatOptions?.target
+    updateMapping(mapping.id, {
+      formatOptions: { ...mapping.formatOptions, source: getSourceFormat(mapping), [side]: { ...current, ...updates } },
+    })
+  }
+
+  const renderFormatSpecInputs = (mapping: FieldMapping, side: "source" | "target") => {
+    const spec = (side === "source" ? getSourceFormat(mapping) : mapping.formatOptions?.target) || {}
+
+    if (mapping.transformation === "date_format") {
+      return (
+        <div className="space-y-2">
+          <Input
+            value={spec.date_pattern ?? ""}
+            onChange={(e) => updateFormatSpec(mapping, side, { date_pattern: e.target.value || undefined })}
+            placeholder={side === "source" ? "Detect automatically" : "yyyy-MM-dd"}
+            className="text-sm font-mono"
+          />
+          <Input
+            value={spec.timezone ?? ""}
+            onChange={(e) => updateFormatSpec(mapping, side, { timezone: e.target.value || undefined })}
+            placeholder={side === "source" ? "Timezone, e.g. Europe/Amsterdam" : "Timezone, e.g. UTC or +01:00"}
+            className="text-sm"
+          />
+        </div>
+      )
+    }
+
+    const preset =
+      Object.entries(NUMBER_FORMAT_PRESETS).find(
+        ([, separators]) =>
+          separators.decimal_separator === spec.decimal_separator &&
+          separators.thousands_separator === spec.thousands_separator,
+      )?.[0] ?? "plain"
+
+    return (
+      <div className="space-y-2">
+        <Select
+          value={preset}
+          onValueChange={(value) =>
+            updateFormatSpec(
+              mapping,
+              side,
+              NUMBER_FORMAT_PRESETS[value] ?? { decimal_separator: undefined, thousands_separator: undefined },
+            )
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="plain">{side === "source" ? "Detect (1234.56)" : "Plain number"}</SelectItem>
+            {Object.keys(NUMBER_FORMAT_PRESETS).map((example) => (
+              <SelectItem key={example} value={example}>
+                {example}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex space-x-2">
+          <Input
+            value={spec.currency_symbol ?? ""}
+            onChange={(e) => updateFormatSpec(mapping, side, { currency_symbol: e.target.value || undefined })}
+            placeholder="Currency symbol"
+            className="text-sm"
+          />
+          {side === "target" && (
+            <Input
+              type="number"
+              min={0}
+              value={spec.decimals ?? ""}
+              onChange={(e) =>
+                updateFormatSpec(mapping, side, {
+                  decimals: e.target.value === "" ? undefined : Math.max(0, Number.parseInt(e.target.value, 10) || 0),
+                })
+              }
+              placeholder="Decimals"
+              className="text-sm w-28"
+            />
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  // Errors first, then warnings, for one condition or expression input
+  const renderExpressionCheck = (logic?: string) => {
+    if (!logic?.trim()) return null
+    const check = validateExpression(logic, sourceFieldTypes)
+    const messages = [...check.errors, ...check.warnings]
+    if (messages.length === 0) return null
+    return (
+      <p className={`text-xs mt-1 ${check.errors.length > 0 ? "text-red-600" : "text-yellow-700"}`}>{messages[0]}</p>
+    )
+  }
+
   const addMapping = () => {
     const newMapping: FieldMapping = {
       id: Date.now().toString(),
@@ -251,6 +456,26 @@ export function StepReviewMapping({ documents, mappings, onComplete, onBack }: S
       target_field: mapping.targetField,
       transformation_type: mapping.transformation,
       valueMappings: mapping.valueMappings || [],
+      source_fields: mapping.transformation === "concat" ? mapping.sourceFieldList : undefined,
+      target_fields: mapping.transformation === "split" ? mapping.targetFieldList : undefined,
+      separator: mapping.separator || undefined,
+      value_mapping:
+        mapping.transformation === "value_mapping"
+          ? {
+              entries: (mapping.valueMappings || []).map((vm) => ({
+                source_value: vm.sourceValue,
+                target_value: vm.targetValue,
+              })),
+              default_value: mapping.defaultValue || undefined,
+              case_sensitive: mapping.caseSensitive,
+            }
+          : undefined,
+      conditional_rules: mapping.transformation === "conditional" ? mapping.conditionalRules : undefined,
+      format_options: hasFormatOptions(mapping.transformation)
+        ? { source: getSourceFormat(mapping), target: mapping.formatOptions?.target }
+        : undefined,
+      transformation_logic:
+        mapping.transformation === "custom" && mapping.expression?.trim() ? `=${mapping.expression.trim()}` : undefined,
     }))
 
     const updatedMappings: MappingData = {
@@ -259,6 +484,7 @@ export function StepReviewMapping({ documents, mappings, onComplete, onBack }: S
       finalMappings: formattedMappings,
       sourceFields,
       targetFields,
+      joins: selectedJoins,
     }
     onComplete(updatedMappings)
   }
@@ -412,6 +638,23 @@ export function StepReviewMapping({ documents, mappings, onComplete, onBack }: S
                         </Button>
                       </div>
 
+                      <div className="flex items-center space-x-4 mb-2">
+                        <Input
+                          value={mapping.defaultValue || ""}
+                          onChange={(e) => updateMapping(mapping.id, { defaultValue: e.target.value })}
+                          placeholder="Default for unmatched values (leave empty to keep the original)"
+                          className="text-sm"
+                        />
+                        <label className="flex items-center space-x-2 text-sm text-gray-600 whitespace-nowrap">
+                          <input
+                            type="checkbox"
+                            checked={!!mapping.caseSensitive}
+                            onChange={(e) => updateMapping(mapping.id, { caseSensitive: e.target.checked })}
+                          />
+                          <span>Case sensitive</span>
+                        </label>
+                      </div>
+
                       {mapping.valueMappings && mapping.valueMappings.length > 0 ? (
                         <div className="space-y-2">
                           {mapping.valueMappings.map((vm, vmIndex) => (
@@ -462,6 +705,196 @@ export function StepReviewMapping({ documents, mappings, onComplete, onBack }: S
                     </div>
                   )}
 
+                  {/* Combine / Split Fields Section */}
+                  {editingId === mapping.id && (mapping.transformation === "concat" || mapping.transformation === "split") && (
+                    <div className="col-span-12 mt-2 p-3 bg-gray-50 rounded">
+                      <h4 className="text-sm font-medium mb-2">
+                        {mapping.transformation === "concat" ? "Source fields to combine" : "Target fields to split into"}
+                      </h4>
+                      <div className="flex flex-wrap gap-2 mb-3">
+                        {(mapping.transformation === "concat" ? sourceFields : targetFields).map((field) => {
+                          const side = mapping.transformation === "concat" ? "source" : "target"
+                          const list =
+                            side === "source"
+                              ? mapping.sourceFieldList || (mapping.sourceField ? [mapping.sourceField] : [])
+                              : mapping.targetFieldList || (mapping.targetField ? [mapping.targetField] : [])
+                          const position = list.indexOf(field)
+                          return (
+                            <Badge
+                              key={field}
+                              variant={position >= 0 ? "default" : "outline"}
+                              className="cursor-pointer"
+                              onClick={() => toggleFieldInList(mapping, side, field)}
+                            >
+                              {position >= 0 && `${position + 1}. `}
+                              {field}
+                            </Badge>
+                          )
+                        })}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <span className="text-sm text-gray-600 whitespace-nowrap">Separator</span>
+                        <Input
+                          value={mapping.separator ?? ""}
+                          onChange={(e) => updateMapping(mapping.id, { separator: e.target.value })}
+                          placeholder={mapping.transformation === "concat" ? "Space" : "Whitespace"}
+                          className="text-sm w-32"
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Conditional Rules Section */}
+                  {editingId === mapping.id && mapping.transformation === "conditional" && (
+                    <div className="col-span-12 mt-2 p-3 bg-gray-50 rounded">
+                      <div className="flex justify-between items-center mb-2">
+                        <h4 className="text-sm font-medium">Conditional Rules</h4>
+                        <Button
+                          size="sm"
+                          onClick={() =>
+                            updateConditionalRules(mapping, {
+                              branches: [...(mapping.conditionalRules?.branches || []), { condition: "", expression: "" }],
+                            })
+                          }
+                        >
+                          <Plus className="h-3 w-3 mr-1" />
+                          Add Branch
+                        </Button>
+                      </div>
+
+                      <div className="space-y-2">
+                        {(mapping.conditionalRules?.branches || []).map((branch, branchIndex) => {
+                          const branches = mapping.conditionalRules?.branches || []
+                          const updateBranch = (updates: Partial<typeof branch>) =>
+                            updateConditionalRules(mapping, {
+                              branches: branches.map((b, i) => (i === branchIndex ? { ...b, ...updates } : b)),
+                            })
+
+                          return (
+                            <div key={branchIndex} className="flex items-start space-x-2">
+                              <span className="text-sm text-gray-600 pt-2 w-12">{branchIndex === 0 ? "If" : "Else if"}</span>
+                              <div className="flex-1">
+                                <Input
+                                  value={branch.condition}
+                                  onChange={(e) => updateBranch({ condition: e.target.value })}
+                                  placeholder='country = "NL"'
+                                  className="text-sm font-mono"
+                                />
+                                {renderExpressionCheck(branch.condition)}
+                              </div>
+                              <span className="text-sm text-gray-600 pt-2">then</span>
+                              <div className="flex-1">
+                                <Input
+                                  value={branch.expression}
+                                  onChange={(e) => updateBranch({ expression: e.target.value })}
+                                  placeholder="postcode_nl"
+                                  className="text-sm font-mono"
+                                />
+                                {renderExpressionCheck(branch.expression)}
+                              </div>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() =>
+                                  updateConditionalRules(mapping, {
+                                    branches: branches.filter((_, i) => i !== branchIndex),
+                                  })
+                                }
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          )
+                        })}
+
+                        <div className="flex items-start space-x-2">
+                          <span className="text-sm text-gray-600 pt-2 w-12">Else</span>
+                          <div className="flex-1">
+                            <Input
+                              value={mapping.conditionalRules?.else_expression || ""}
+                              onChange={(e) => updateConditionalRules(mapping, { else_expression: e.target.value })}
+                              placeholder="postcode_intl (leave empty for no value)"
+                              className="text-sm font-mono"
+                            />
+                            {renderExpressionCheck(mapping.conditionalRules?.else_expression)}
+                          </div>
+                        </div>
+                      </div>
+
+                      <p className="text-xs text-gray-500 mt-2">
+                        Branches are checked from top to bottom. Conditions and values can use any source field and the
+                        same functions as custom expressions; put text values in quotes.
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Format Options Section */}
+                  {editingId === mapping.id && hasFormatOptions(mapping.transformation) && (
+                    <div className="col-span-12 mt-2 p-3 bg-gray-50 rounded">
+                      <h4 className="text-sm font-medium mb-2">
+                        {mapping.transformation === "date_format" ? "Date Formats" : "Number Formats"}
+                      </h4>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <p className="text-xs text-gray-600 mb-1">Source</p>
+                          {renderFormatSpecInputs(mapping, "source")}
+                        </div>
+                        <div>
+                          <p className="text-xs text-gray-600 mb-1">Target</p>
+                          {renderFormatSpecInputs(mapping, "target")}
+                        </div>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-2">
+                        {mapping.transformation === "date_format"
+                          ? "Patterns use yyyy, MM, dd, HH, mm and ss. Without a target pattern dates are written as yyyy-MM-dd."
+                          : "Values that cannot be read in the source format are reported per row in the conversion results."}
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Custom Expression Section */}
+                  {editingId === mapping.id && mapping.transformation === "custom" && (
+                    <div className="col-span-12 mt-2 p-3 bg-gray-50 rounded">
+                      <h4 className="text-sm font-medium mb-2">Expression</h4>
+                      <Input
+                        value={mapping.expression || ""}
+                        onChange={(e) => updateMapping(mapping.id, { expression: e.target.value })}
+                        placeholder={`upper(trim(${mapping.sourceField || "first_name"})) & " " & last_name`}
+                        className="text-sm font-mono"
+                      />
+                      {mapping.expression?.trim() ? (
+                        (() => {
+                          const check = validateExpression(mapping.expression, sourceFieldTypes)
+                          return (
+                            <div className="mt-2 space-y-1 text-xs">
+                              {check.errors.map((error, i) => (
+                                <p key={`error-${i}`} className="text-red-600">
+                                  {error}
+                                </p>
+                              ))}
+                              {check.warnings.map((warning, i) => (
+                                <p key={`warning-${i}`} className="text-yellow-700">
+                                  {warning}
+                                </p>
+                              ))}
+                              {check.errors.length === 0 && (
+                                <p className="text-green-700">
+                                  Valid expression returning {check.type}
+                                  {check.fields.length > 0 && ` (uses ${check.fields.join(", ")})`}
+                                </p>
+                              )}
+                            </div>
+                          )
+                        })()
+                      ) : (
+                        <p className="text-xs text-gray-500 mt-2">
+                          Use field names, quotes for text, backticks for field names with spaces, and functions such as
+                          upper, trim, concat, substring, round, date, format_date, if and coalesce.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   {/* Confidence */}
                   <div className="col-span-2">
                     <Badge className={getConfidenceColor(mapping.confidence)}>{mapping.confidence}%</Badge>
@@ -478,10 +911,40 @@ export function StepReviewMapping({ documents, mappings, onComplete, onBack }: S
                         <Edit2 className="h-3 w-3" />
                       </Button>
                     )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setProfileId(profileId === mapping.id ? null : mapping.id)}
+                    >
+                      <BarChart3 className="h-3 w-3" />
+                    </Button>
                     <Button size="sm" variant="ghost" onClick={() => removeMapping(mapping.id)}>
                       <Trash2 className="h-3 w-3" />
                     </Button>
                   </div>
+
+                  {/* Value Profiles */}
+                  {profileId === mapping.id && (
+                    <div className="col-span-12 grid grid-cols-2 gap-4 p-3 bg-gray-50 rounded">
+                      {(["source", "target"] as const).map((side) => {
+                        const field = side === "source" ? mapping.sourceField : mapping.targetField
+                        const profile = getProfile(side, field)
+                        return (
+                          <div key={side}>
+                            <h4 className="text-sm font-medium mb-2">
+                              {side === "source" ? "Source" : "Target"} values of{" "}
+                              <span className="font-mono">{field || "—"}</span>
+                            </h4>
+                            {profile ? (
+                              <ColumnProfileView profile={profile} />
+                            ) : (
+                              <p className="text-xs text-gray-500">No values were analyzed for this field.</p>
+                            )}
+                          </div>
+                        )
+                      })}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -514,6 +977,104 @@ export function StepReviewMapping({ documents, mappings, onComplete, onBack }: S
         </CardContent>
       </Card>
 
+      {/* Source Relationships */}
+      {(candidateKeys.length > 0 || suggestedJoins.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Link2 className="h-5 w-5" />
+              <span>Source Relationships</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {candidateKeys.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium mb-2">Candidate Keys</h4>
+                <div className="flex flex-wrap gap-2">
+                  {candidateKeys.map((key) => (
+                    <Badge key={`${key.file}.${key.field}`} variant="outline" className="font-mono">
+                      <KeyRound className="h-3 w-3 mr-1" />
+                      {key.file}.{key.field}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Filled and unique in every record of the file</p>
+              </div>
+            )}
+
+            {suggestedJoins.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium mb-2">Suggested Joins</h4>
+                <div className="space-y-2">
+                  {suggestedJoins.map((join) => (
+                    <label key={joinKey(join)} className="flex items-center space-x-3 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={isJoinSelected(join)}
+                        disabled={!involvesSource(join)}
+                        onChange={() => toggleJoin(join)}
+                      />
+                      <span className="font-mono">
+                        {join.file}.{join.field} → {join.related_file}.{join.related_field}
+                      </span>
+                      <Badge variant="secondary">{join.cardinality.replace(/_/g, " ")}</Badge>
+                      <span className="text-xs text-gray-500">
+                        {Math.round(join.coverage * 100)}% of the values found
+                      </span>
+                      <Badge className={getConfidenceColor(Math.round(join.confidence * 100))}>
+                        {Math.round(join.confidence * 100)}%
+                      </Badge>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Joins with the source file add the fields of the related file to every record, mapped as File!Column.
+                  A record that several related rows point at gets a list of their values.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Data Quality Issues */}
+      {qualityIssues.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <AlertCircle className="h-5 w-5" />
+              <span>Data Quality Issues</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {qualityIssues.map((issue, index) => (
+                <div key={index} className={`p-3 border rounded-lg ${getSeverityColor(issue.severity)}`}>
+                  <div className="flex items-center space-x-2 mb-1">
+                    <Badge variant="outline" className="font-mono">
+                      {issue.field}
+                    </Badge>
+                    <Badge variant="secondary">{issue.issue_type.replace(/_/g, " ")}</Badge>
+                    <Badge className={getSeverityColor(issue.severity)}>{issue.severity}</Badge>
+                  </div>
+                  <p className="text-sm">{issue.description}</p>
+                  <p className="text-sm font-medium mt-1">Suggested Fix: {issue.suggested_fix}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Affects {issue.affected_records} records
+                    {issue.rows && issue.rows.length > 0 && (
+                      <>
+                        : rows {issue.rows.join(", ")}
+                        {issue.affected_records > issue.rows.length && " …"}
+                      </>
+                    )}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Navigation */}
       <div className="flex justify-between">
         <Button variant="outline" onClick={onBack}>
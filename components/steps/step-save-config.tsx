@@ -8,12 +8,17 @@ import { Textarea } from "@/components/ui/textarea"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { ArrowLeft, Save, RefreshCw, CheckCircle } from "lucide-react"
+import { toValueMappingTable } from "@/lib/value-mapping"
+import type { AggregationConfig, RowFilterConfig, SourceJoin } from "@/lib/mapping-schemas"
+import type { SourceOptions } from "@/lib/document-processor"
 
 interface DocumentSet {
   sourceFile: File | null
   sourceSpecs: File[]
   targetFile: File | null
   targetSpecs: File[]
+  sourceOptions?: SourceOptions
+  targetOptions?: SourceOptions
 }
 
 interface MappingData {
@@ -21,6 +26,9 @@ interface MappingData {
   analysisResults: any
   chatHistory: any[]
   finalMappings: any[]
+  filterRules?: RowFilterConfig
+  aggregation?: AggregationConfig
+  joins?: SourceJoin[]
 }
 
 interface StepSaveConfigProps {
@@ -31,6 +39,17 @@ interface StepSaveConfigProps {
   onStartNew: () => void
 }
 
+// Fills the CSV settings, encoding and schema entry the user left to detection with what the analysis
+// detected or chose
+function withDetectedDialect(options: SourceOptions | undefined, analyzed: any): SourceOptions | undefined {
+  const detected = analyzed?.metadata?.csv_dialect
+  const encoding = options?.encoding ?? analyzed?.metadata?.encoding
+  const schemaEntry = options?.schemaEntry ?? analyzed?.metadata?.schema_entry
+  const withEncoding = encoding || schemaEntry ? { ...options, encoding, schemaEntry } : options
+  if (!detected) return withEncoding
+  return { ...withEncoding, csv: { ...detected, ...options?.csv } }
+}
+
 export function StepSaveConfig({ documents, mappings, onComplete, onBack, onStartNew }: StepSaveConfigProps) {
   const [configName, setConfigName] = useState("")
   const [description, setDescription] = useState("")
@@ -54,7 +73,18 @@ export function StepSaveConfig({ documents, mappings, onComplete, onBack, onStar
         created: new Date().toISOString(),
         sourceFormat: documents.sourceFile?.name.split(".").pop(),
         targetFormat: documents.targetFile?.name.split(".").pop(),
-        mappings: mappings.finalMappings,
+        // The CSV dialect the analysis settled on is stored in full, so reruns parse the same way
+        sourceOptions: withDetectedDialect(documents.sourceOptions, mappings.analysisResults?.sourceDocuments?.[0]),
+        targetOptions: withDetectedDialect(documents.targetOptions, mappings.analysisResults?.targetDocuments?.[0]),
+        // Store lookup tables in their typed form so they can be applied when the configuration is reused
+        mappings: mappings.finalMappings.map((mapping) => ({
+          ...mapping,
+          value_mapping: toValueMappingTable(mapping),
+        })),
+        filterRules: mappings.filterRules,
+        aggregation: mappings.aggregation,
+        // The related files must be uploaded again with the source for the joins to add their fields
+        joins: mappings.joins,
         metadata: {
           totalMappings: mappings.finalMappings.length,
           highConfidenceMappings: mappings.finalMappings.filter((m) => m.confidence >= 90).length,
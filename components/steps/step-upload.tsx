@@ -2,18 +2,29 @@
 
 import type React from "react"
 
-import { useState, useCallback, useRef } from "react"
+import { useState, useCallback, useRef, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Upload, FileText, X, CheckCircle, AlertCircle, Settings } from "lucide-react"
+import type { SourceOptions } from "@/lib/document-processor"
+import { readSheetNames } from "@/lib/sheet-references"
+import type { CsvDialect, FixedWidthLayout } from "@/lib/mapping-schemas"
+import { FixedWidthLayoutInput } from "@/components/fixed-width-layout-input"
+import { CsvDialectInput } from "@/components/csv-dialect-input"
+import { EncodingSelect } from "@/components/encoding-select"
+import { SchemaEntrySelect } from "@/components/schema-entry-select"
 
 interface DocumentSet {
   sourceFile: File | null
   sourceSpecs: File[]
+  relatedSources: File[]
   targetFile: File | null
   targetSpecs: File[]
+  sourceOptions?: SourceOptions
+  targetOptions?: SourceOptions
 }
 
 interface StepUploadProps {
@@ -22,22 +33,63 @@ interface StepUploadProps {
   onLoadConfiguration: (config: any) => void
 }
 
-const ACCEPTED_DATA_FORMATS = [".txt", ".json", ".xml", ".xlsx", ".csv"]
-const ACCEPTED_SPEC_FORMATS = [".docx", ".xlsx", ".txt", ".pdf"]
+const ACCEPTED_DATA_FORMATS = [".txt", ".json", ".xml", ".xlsx", ".csv", ".dat", ".jsonl", ".ndjson", ".edi", ".x12", ".edifact", ".hl7"]
+// A target can also be given by its schema: an XSD, a SQL DDL script, an OpenAPI document, a GraphQL
+// schema or a JSON Schema (.json)
+const ACCEPTED_SCHEMA_FORMATS = [".xsd", ".sql", ".ddl", ".yaml", ".yml", ".graphql", ".gql", ".graphqls"]
+const API_SCHEMA_EXTENSIONS = /\.(json|yaml|yml|graphql|gql|graphqls)$/i
+// Extensions of files that may be fixed-width extracts and can be read with a layout
+const FIXED_WIDTH_EXTENSIONS = /\.(txt|dat)$/i
+const CSV_EXTENSIONS = /\.csv$/i
+// Every data format except Excel is text and can be read with a different encoding
+const TEXT_EXTENSIONS = /\.(txt|json|xml|csv|dat|jsonl|ndjson|edi|x12|edifact|hl7|xsd|sql|ddl|yaml|yml|graphql|gql|graphqls)$/i
+const ACCEPTED_SPEC_FORMATS = [".docx", ".xlsx", ".csv", ".txt", ".pdf"]
 const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
 
 export function StepUpload({ documents, onComplete, onLoadConfiguration }: StepUploadProps) {
   const [dragOver, setDragOver] = useState<string | null>(null)
   const [errors, setErrors] = useState<string[]>([])
   const [localDocuments, setLocalDocuments] = useState<DocumentSet>(documents)
+  const [sourceSheets, setSourceSheets] = useState<string[]>([])
+
+  // A workbook source can hold its records on any sheet, so the user picks one
+  useEffect(() => {
+    const file = localDocuments.sourceFile
+    setSourceSheets([])
+    if (!file || !/\.xlsx$/i.test(file.name)) return
+
+    let cancelled = false
+    file
+      .arrayBuffer()
+      .then((buffer) => {
+        if (cancelled) return
+        const sheets = readSheetNames(buffer)
+        setSourceSheets(sheets)
+        setLocalDocuments((prev) =>
+          prev.sourceOptions?.sheet && !sheets.includes(prev.sourceOptions.sheet)
+            ? { ...prev, sourceOptions: { ...prev.sourceOptions, sheet: undefined } }
+            : prev,
+        )
+      })
+      .catch((error) => console.warn("Could not read the sheets of the source workbook:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [localDocuments.sourceFile])
 
-  const validateFile = (file: File, type: "data" | "spec"): string | null => {
+  const validateFile = (file: File, type: "data" | "target" | "spec"): string | null => {
     if (file.size > MAX_FILE_SIZE) {
       return `File "${file.name}" is too large (max 10MB)`
     }
 
     const extension = "." + file.name.split(".").pop()?.toLowerCase()
-    const acceptedFormats = type === "data" ? ACCEPTED_DATA_FORMATS : ACCEPTED_SPEC_FORMATS
+    const acceptedFormats =
+      type === "spec"
+        ? ACCEPTED_SPEC_FORMATS
+        : type === "target"
+          ? [...ACCEPTED_DATA_FORMATS, ...ACCEPTED_SCHEMA_FORMATS]
+          : ACCEPTED_DATA_FORMATS
 
     if (!acceptedFormats.includes(extension)) {
       return `File "${file.name}" has unsupported format. Expected: ${acceptedFormats.join(", ")}`
@@ -55,7 +107,7 @@ export function StepUpload({ documents, onComplete, onLoadConfiguration }: StepU
 
     files.forEach((file) => {
       if (section.includes("File")) {
-        const error = validateFile(file, "data")
+        const error = validateFile(file, section === "targetFile" ? "target" : "data")
         if (error) {
           newErrors.push(error)
           return
@@ -66,7 +118,7 @@ export function StepUpload({ documents, onComplete, onLoadConfiguration }: StepU
           [section]: file,
         }))
       } else {
-        const error = validateFile(file, "spec")
+        const error = validateFile(file, section === "relatedSources" ? "data" : "spec")
         if (error) {
           newErrors.push(error)
           return
@@ -88,7 +140,7 @@ export function StepUpload({ documents, onComplete, onLoadConfiguration }: StepU
 
     files.forEach((file) => {
       if (section.includes("File")) {
-        const error = validateFile(file, "data")
+        const error = validateFile(file, section === "targetFile" ? "target" : "data")
         if (error) {
           newErrors.push(error)
           return
@@ -99,7 +151,7 @@ export function StepUpload({ documents, onComplete, onLoadConfiguration }: StepU
           [section]: file,
         }))
       } else {
-        const error = validateFile(file, "spec")
+        const error = validateFile(file, section === "relatedSources" ? "data" : "spec")
         if (error) {
           newErrors.push(error)
           return
@@ -145,6 +197,22 @@ export function StepUpload({ documents, onComplete, onLoadConfiguration }: StepU
     reader.readAsText(file)
   }
 
+  const setLayout = (side: "sourceOptions" | "targetOptions", layout: FixedWidthLayout | undefined) => {
+    setLocalDocuments((prev) => ({ ...prev, [side]: { ...prev[side], layout } }))
+  }
+
+  const setCsvDialect = (side: "sourceOptions" | "targetOptions", csv: CsvDialect) => {
+    setLocalDocuments((prev) => ({ ...prev, [side]: { ...prev[side], csv } }))
+  }
+
+  const setEncoding = (side: "sourceOptions" | "targetOptions", encoding: string | undefined) => {
+    setLocalDocuments((prev) => ({ ...prev, [side]: { ...prev[side], encoding } }))
+  }
+
+  const setSchemaEntry = (schemaEntry: string | undefined) => {
+    setLocalDocuments((prev) => ({ ...prev, targetOptions: { ...prev.targetOptions, schemaEntry } }))
+  }
+
   const canProceed = localDocuments.sourceFile && localDocuments.targetFile
 
   const DropZone = ({
@@ -262,8 +330,8 @@ export function StepUpload({ documents, onComplete, onLoadConfiguration }: StepU
           <DropZone
             section="sourceFile"
             title="Source Data File"
-            description="Upload your source data file (TXT, JSON, XML, Excel, CSV)"
-            accept=".txt,.json,.xml,.xlsx,.csv"
+            description="Upload your source data file (TXT, JSON, NDJSON, XML, Excel, CSV, EDI, HL7, fixed-width)"
+            accept=".txt,.json,.xml,.xlsx,.csv,.dat,.jsonl,.ndjson,.edi,.x12,.edifact,.hl7"
           />
           {localDocuments.sourceFile && (
             <div className="flex items-center justify-between bg-green-50 p-3 rounded">
@@ -276,12 +344,74 @@ export function StepUpload({ documents, onComplete, onLoadConfiguration }: StepU
               </Button>
             </div>
           )}
+          {localDocuments.sourceFile && FIXED_WIDTH_EXTENSIONS.test(localDocuments.sourceFile.name) && (
+            <FixedWidthLayoutInput
+              layout={localDocuments.sourceOptions?.layout}
+              onChange={(layout) => setLayout("sourceOptions", layout)}
+            />
+          )}
+          {localDocuments.sourceFile && CSV_EXTENSIONS.test(localDocuments.sourceFile.name) && (
+            <CsvDialectInput
+              file={localDocuments.sourceFile}
+              dialect={localDocuments.sourceOptions?.csv}
+              encoding={localDocuments.sourceOptions?.encoding}
+              onChange={(csv) => setCsvDialect("sourceOptions", csv)}
+            />
+          )}
+          {localDocuments.sourceFile && TEXT_EXTENSIONS.test(localDocuments.sourceFile.name) && (
+            <EncodingSelect
+              file={localDocuments.sourceFile}
+              encoding={localDocuments.sourceOptions?.encoding}
+              onChange={(encoding) => setEncoding("sourceOptions", encoding)}
+            />
+          )}
+          {sourceSheets.length > 1 && (
+            <div className="flex items-center space-x-3">
+              <span className="text-sm text-gray-600 whitespace-nowrap">Records are on sheet</span>
+              <div className="w-64">
+                <Select
+                  value={localDocuments.sourceOptions?.sheet || sourceSheets[0]}
+                  onValueChange={(sheet) =>
+                    setLocalDocuments((prev) => ({ ...prev, sourceOptions: { ...prev.sourceOptions, sheet } }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sourceSheets.map((sheet) => (
+                      <SelectItem key={sheet} value={sheet}>
+                        {sheet}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-xs text-gray-500">Fields of the other sheets can be mapped as Sheet!Column</p>
+            </div>
+          )}
+
+          <DropZone
+            section="relatedSources"
+            title="Related Source Files (Optional)"
+            description="Upload files whose records link to the source, such as customers next to orders (CSV, Excel, JSON, NDJSON)"
+            accept=".csv,.xlsx,.json,.jsonl,.ndjson,.xml,.txt,.dat"
+            multiple
+          />
+          {localDocuments.relatedSources.length > 0 && (
+            <>
+              <FileList files={localDocuments.relatedSources} section="relatedSources" />
+              <p className="text-xs text-gray-500">
+                Keys and joins are detected during analysis; fields of a linked file can be mapped as File!Column
+              </p>
+            </>
+          )}
 
           <DropZone
             section="sourceSpecs"
             title="Source Specifications (Optional)"
-            description="Upload documentation files (DOCX, XLSX, TXT, PDF)"
-            accept=".docx,.xlsx,.txt,.pdf"
+            description="Upload documentation files (DOCX, XLSX, CSV, TXT, PDF)"
+            accept=".docx,.xlsx,.csv,.txt,.pdf"
             multiple
           />
           {localDocuments.sourceSpecs.length > 0 && (
@@ -299,8 +429,8 @@ export function StepUpload({ documents, onComplete, onLoadConfiguration }: StepU
           <DropZone
             section="targetFile"
             title="Target Data File"
-            description="Upload your target data file (TXT, JSON, XML, Excel, CSV)"
-            accept=".txt,.json,.xml,.xlsx,.csv"
+            description="Upload your target data file (TXT, JSON, NDJSON, XML, Excel, CSV, EDI, HL7, fixed-width) or its schema (JSON Schema, XSD, SQL DDL, OpenAPI, GraphQL)"
+            accept=".txt,.json,.xml,.xlsx,.csv,.dat,.jsonl,.ndjson,.edi,.x12,.edifact,.hl7,.xsd,.sql,.ddl,.yaml,.yml,.graphql,.gql,.graphqls"
           />
           {localDocuments.targetFile && (
             <div className="flex items-center justify-between bg-green-50 p-3 rounded">
@@ -313,12 +443,40 @@ export function StepUpload({ documents, onComplete, onLoadConfiguration }: StepU
               </Button>
             </div>
           )}
+          {localDocuments.targetFile && FIXED_WIDTH_EXTENSIONS.test(localDocuments.targetFile.name) && (
+            <FixedWidthLayoutInput
+              layout={localDocuments.targetOptions?.layout}
+              onChange={(layout) => setLayout("targetOptions", layout)}
+            />
+          )}
+          {localDocuments.targetFile && CSV_EXTENSIONS.test(localDocuments.targetFile.name) && (
+            <CsvDialectInput
+              file={localDocuments.targetFile}
+              dialect={localDocuments.targetOptions?.csv}
+              encoding={localDocuments.targetOptions?.encoding}
+              onChange={(csv) => setCsvDialect("targetOptions", csv)}
+            />
+          )}
+          {localDocuments.targetFile && TEXT_EXTENSIONS.test(localDocuments.targetFile.name) && (
+            <EncodingSelect
+              file={localDocuments.targetFile}
+              encoding={localDocuments.targetOptions?.encoding}
+              onChange={(encoding) => setEncoding("targetOptions", encoding)}
+            />
+          )}
+          {localDocuments.targetFile && API_SCHEMA_EXTENSIONS.test(localDocuments.targetFile.name) && (
+            <SchemaEntrySelect
+              file={localDocuments.targetFile}
+              entry={localDocuments.targetOptions?.schemaEntry}
+              onChange={setSchemaEntry}
+            />
+          )}
 
           <DropZone
             section="targetSpecs"
             title="Target Specifications (Optional)"
-            description="Upload documentation files (DOCX, XLSX, TXT, PDF)"
-            accept=".docx,.xlsx,.txt,.pdf"
+            description="Upload documentation files (DOCX, XLSX, CSV, TXT, PDF)"
+            accept=".docx,.xlsx,.csv,.txt,.pdf"
             multiple
           />
           {localDocuments.targetSpecs.length > 0 && (
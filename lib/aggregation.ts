@@ -0,0 +1,123 @@
+import type { AggregateFunction, AggregationConfig } from "@/lib/mapping-schemas"
+import type { SourceRecord } from "@/lib/document-processor"
+
+export interface AggregatedRecords {
+  records: SourceRecord[]
+  warnings: string[]
+}
+
+export const AGGREGATE_FUNCTION_LABELS: Record<AggregateFunction, string> = {
+  sum: "Sum",
+  count: "Count",
+  min: "Minimum",
+  max: "Maximum",
+  first: "First value",
+  last: "Last value",
+  concat: "Join values",
+}
+
+const isEmpty = (value: any) => value === null || value === undefined || String(value).trim() === ""
+
+const toNumber = (value: any) => (typeof value === "number" ? value : Number(String(value).trim()))
+
+function reduceValues(
+  values: any[],
+  aggregate: AggregateFunction,
+  separator: string,
+): { value: any; nonNumeric: number } {
+  const present = values.filter((value) => !isEmpty(value))
+
+  switch (aggregate) {
+    case "count":
+      return { value: present.length, nonNumeric: 0 }
+    case "first":
+      return { value: present[0] ?? null, nonNumeric: 0 }
+    case "last":
+      return { value: present[present.length - 1] ?? null, nonNumeric: 0 }
+    case "concat":
+      // Repeated values such as the same customer name on every order line are joined once
+      return { value: [...new Set(present.map((value) => String(value).trim()))].join(separator), nonNumeric: 0 }
+    case "sum": {
+      const numbers = present.map(toNumber)
+      const valid = numbers.filter((number) => !isNaN(number))
+      // Round away floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+      const total = valid.reduce((sum, number) => sum + number, 0)
+      return { value: Math.round(total * 1e9) / 1e9, nonNumeric: numbers.length - valid.length }
+    }
+    case "min":
+    case "max": {
+      if (present.length === 0) return { value: null, nonNumeric: 0 }
+      const numbers = present.map(toNumber)
+      // Compare as numbers when every value is numeric, otherwise as text (ISO dates sort correctly as text).
+      // Reduced rather than spread into Math.min, which overflows the stack on large groups
+      if (numbers.every((number) => !isNaN(number))) {
+        const pick = aggregate === "min" ? Math.min : Math.max
+        return { value: numbers.reduce((best, number) => pick(best, number)), nonNumeric: 0 }
+      }
+      const sorted = present.map(String).sort((a, b) => a.localeCompare(b))
+      return { value: aggregate === "min" ? sorted[0] : sorted[sorted.length - 1], nonNumeric: 0 }
+    }
+  }
+}
+
+// Without a mapped key every record would fall into one group, which is never the intended output
+export function groupByError(config: AggregationConfig, columns: string[]): string | undefined {
+  if (config.group_by.some((key) => columns.includes(key))) return undefined
+  return `No group-by field is mapped: map ${config.group_by.map((key) => `"${key}"`).join(", ")} to a target field or remove the grouping`
+}
+
+// Groups records on the group_by columns (in order of first appearance) and reduces every other column.
+// Throws when none of the group_by columns is mapped.
+export function aggregateRecords(
+  records: SourceRecord[],
+  columns: string[],
+  config: AggregationConfig,
+  resolveAggregate: (column: string) => AggregateFunction,
+): AggregatedRecords {
+  const warnings: string[] = []
+  const missingKeys = config.group_by.filter((key) => !columns.includes(key))
+  if (missingKeys.length > 0) {
+    warnings.push(`Group-by fields ${missingKeys.map((key) => `"${key}"`).join(", ")} are not mapped and were ignored`)
+  }
+
+  const error = groupByError(config, columns)
+  if (error) throw new Error(error)
+  const keys = config.group_by.filter((key) => columns.includes(key))
+  const groups = new Map<string, SourceRecord[]>()
+  records.forEach((record) => {
+    const groupKey = JSON.stringify(keys.map((key) => (isEmpty(record[key]) ? "" : String(record[key]).trim())))
+    const group = groups.get(groupKey)
+    if (group) {
+      group.push(record)
+    } else {
+      groups.set(groupKey, [record])
+    }
+  })
+
+  const nonNumericCounts = new Map<string, number>()
+  const aggregated = [...groups.values()].map((group) => {
+    const output: SourceRecord = {}
+    columns.forEach((column) => {
+      if (keys.includes(column)) {
+        output[column] = group[0][column]
+        return
+      }
+      const result = reduceValues(
+        group.map((record) => record[column]),
+        resolveAggregate(column),
+        config.concat_separator ?? ", ",
+      )
+      output[column] = result.value
+      if (result.nonNumeric > 0) {
+        nonNumericCounts.set(column, (nonNumericCounts.get(column) ?? 0) + result.nonNumeric)
+      }
+    })
+    return output
+  })
+
+  nonNumericCounts.forEach((count, column) => {
+    warnings.push(`Sum of "${column}" ignored ${count} non-numeric ${count === 1 ? "value" : "values"}`)
+  })
+
+  return { records: aggregated, warnings }
+}
@@ -0,0 +1,130 @@
+import type { FormatSpec } from "@/lib/mapping-schemas"
+import { parseDate, parseDateAuto, toISODateString } from "@/lib/date-format"
+import { parseLocaleNumber } from "@/lib/locale-format"
+
+export interface ValueCount {
+  value: string
+  count: number
+}
+
+// A histogram bin covers from up to to; the last bin includes to. Dates have ISO strings as bounds.
+export interface HistogramBin {
+  from: number | string
+  to: number | string
+  count: number
+}
+
+export interface ColumnProfile {
+  // Values that are not empty
+  count: number
+  // Smallest and largest number or date (as an ISO string), and the mean of the numbers
+  min?: number | string
+  max?: number | string
+  mean?: number
+  lengths: {
+    min: number
+    max: number
+    mean: number
+    // The most common text lengths, ordered by length
+    distribution: Array<{ length: number; count: number }>
+  }
+  top_values: ValueCount[]
+  histogram?: HistogramBin[]
+  // Pattern the dates are written in, e.g. "dd-MM-yyyy"
+  date_format?: string
+}
+
+const TOP_VALUES = 5
+const HISTOGRAM_BINS = 8
+const LENGTH_BUCKETS = 10
+
+const round = (value: number) => Number(value.toPrecision(6))
+
+function histogram(numbers: number[], min: number, max: number): Array<{ from: number; to: number; count: number }> {
+  if (min === max) return [{ from: min, to: max, count: numbers.length }]
+
+  const width = (max - min) / HISTOGRAM_BINS
+  const counts = Array<number>(HISTOGRAM_BINS).fill(0)
+  numbers.forEach((number) => counts[Math.min(Math.floor((number - min) / width), HISTOGRAM_BINS - 1)]++)
+  return counts.map((count, bin) => ({
+    from: min + bin * width,
+    to: bin === HISTOGRAM_BINS - 1 ? max : min + (bin + 1) * width,
+    count,
+  }))
+}
+
+// Smallest and largest without spreading into Math.min, which overflows the stack on large columns
+function extremes(numbers: number[]): { min: number; max: number } {
+  return numbers.reduce((range, number) => ({ min: Math.min(range.min, number), max: Math.max(range.max, number) }), {
+    min: Infinity,
+    max: -Infinity,
+  })
+}
+
+// Statistics of the values of one field, read with the detected number or date format
+export function profileColumn(values: any[], type: string, format?: FormatSpec): ColumnProfile {
+  const present = values.filter((value) => value !== null && value !== undefined && String(value).trim() !== "")
+  const texts = present.map((value) => (value instanceof Date ? toISODateString(value) : String(value)))
+
+  const frequencies = new Map<string, number>()
+  texts.forEach((text) => frequencies.set(text, (frequencies.get(text) || 0) + 1))
+  const top_values = [...frequencies.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, TOP_VALUES)
+    .map(([value, count]) => ({ value, count }))
+
+  const lengthCounts = new Map<number, number>()
+  texts.forEach((text) => lengthCounts.set(text.length, (lengthCounts.get(text.length) || 0) + 1))
+  const lengthRange = extremes([...lengthCounts.keys()])
+  const totalLength = texts.reduce((total, text) => total + text.length, 0)
+
+  const profile: ColumnProfile = {
+    count: present.length,
+    lengths: {
+      min: texts.length > 0 ? lengthRange.min : 0,
+      max: texts.length > 0 ? lengthRange.max : 0,
+      mean: texts.length > 0 ? round(totalLength / texts.length) : 0,
+      distribution: [...lengthCounts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, LENGTH_BUCKETS)
+        .sort((a, b) => a[0] - b[0])
+        .map(([length, count]) => ({ length, count })),
+    },
+    top_values,
+  }
+
+  if (type === "number") {
+    const numbers = present
+      .map((value) => parseLocaleNumber(value, format))
+      .filter((number): number is number => number !== null)
+    if (numbers.length > 0) {
+      const { min, max } = extremes(numbers)
+      profile.min = min
+      profile.max = max
+      profile.mean = round(numbers.reduce((total, number) => total + number, 0) / numbers.length)
+      profile.histogram = histogram(numbers, min, max).map((bin) => ({
+        ...bin,
+        from: round(bin.from),
+        to: round(bin.to),
+      }))
+    }
+  }
+
+  if (type === "date") {
+    const pattern = format?.date_pattern
+    const times = present
+      .map((value) => (pattern && typeof value === "string" ? parseDate(value, pattern) : parseDateAuto(value)))
+      .filter((date): date is Date => date !== null)
+      .map((date) => date.getTime())
+    if (times.length > 0) {
+      const { min, max } = extremes(times)
+      const iso = (time: number) => toISODateString(new Date(time))
+      profile.min = iso(min)
+      profile.max = iso(max)
+      profile.histogram = histogram(times, min, max).map((bin) => ({ ...bin, from: iso(bin.from), to: iso(bin.to) }))
+    }
+    if (pattern) profile.date_format = pattern
+  }
+
+  return profile
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest"
+import { ConversionEngine, normalizeMappings } from "@/lib/conversion-engine"
+import { DocumentProcessor } from "@/lib/document-processor"
+
+// Reads a CSV the way the convert route does, with the field types and formats found by the analysis
+async function convertCSV(csv: string, mappings: any[]) {
+  const processor = new DocumentProcessor()
+  const file = new File([csv], "orders.csv", { type: "text/csv" })
+  const { dataPoints } = await processor.processDocument(file)
+  const engine = new ConversionEngine(normalizeMappings(mappings), {
+    fieldTypes: Object.fromEntries(dataPoints.map((dp) => [dp.field, dp.type])),
+    fieldFormats: Object.fromEntries(dataPoints.filter((dp) => dp.format).map((dp) => [dp.field, dp.format!])),
+  })
+  return engine.convert(await processor.readRecords(file))
+}
+
+describe("expressions on CSV sources", () => {
+  it("adds numbers with + instead of joining their text", async () => {
+    const result = await convertCSV("order_id,quantity\n1,5\n2,7\n3,12\n", [
+      { source_field: "quantity", target_field: "amount", transformation_logic: "=quantity + 1" },
+    ])
+
+    expect(result.records.map((record) => record.amount)).toEqual([6, 8, 13])
+    expect(result.summary.row_issues).toEqual([])
+  })
+
+  it("reads number fields with their detected comma decimals", async () => {
+    const result = await convertCSV('id;bedrag\n1;"1.234,56"\n2;"10,50"\n3;"2.000,00"\n', [
+      { source_field: "bedrag", target_field: "total", transformation_logic: "=bedrag + 1" },
+    ])
+
+    expect(result.records.map((record) => record.total)).toEqual([1235.56, 11.5, 2001])
+  })
+
+  it("joins text with & only", async () => {
+    const result = await convertCSV("first_name,last_name\nAda,Lovelace\nAlan,Turing\n", [
+      { source_field: "first_name", target_field: "full_name", transformation_logic: '=first_name & " " & last_name' },
+      { source_field: "first_name", target_field: "broken", transformation_logic: '=first_name + " " + last_name' },
+    ])
+
+    expect(result.records.map((record) => record.full_name)).toEqual(["Ada Lovelace", "Alan Turing"])
+    expect(result.summary.skipped_mappings.map((skipped) => skipped.target_field)).toEqual(["broken"])
+  })
+})
+
+describe("number conversion", () => {
+  it("reads numbers in the format detected for the source field", async () => {
+    const result = await convertCSV('id;bedrag\n1;"1.234,56"\n2;"12,50"\n3;"2.000,00"\n', [
+      {
+        source_field: "bedrag",
+        target_field: "amount",
+        transformation_type: "data_type_conversion",
+        target_type: "number",
+      },
+    ])
+
+    expect(result.records.map((record) => record.amount)).toEqual([1234.56, 12.5, 2000])
+  })
+
+  it("reports values that do not fit the number format instead of guessing", async () => {
+    const result = await convertCSV('id,amount\n1,12.50\n2,3.25\n3,"7,5"\n', [
+      {
+        source_field: "amount",
+        target_field: "amount",
+        transformation_type: "data_type_conversion",
+        target_type: "number",
+      },
+    ])
+
+    expect(result.records.map((record) => record.amount)).toEqual([12.5, 3.25, "7,5"])
+    expect(result.summary.row_issues.map((issue) => issue.message)).toEqual(['Cannot convert "7,5" to a number'])
+  })
+})
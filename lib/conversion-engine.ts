@@ -0,0 +1,583 @@
+import {
+  TransformationTypeSchema,
+  type DataType,
+  type FieldDictionaryEntry,
+  type FormatSpec,
+  type TransformationType,
+} from "@/lib/mapping-schemas"
+import type { DynamicMapping } from "@/lib/mapping-store"
+import type { SourceRecord, SourceRecordSet } from "@/lib/document-processor"
+import { getFieldValue } from "@/lib/field-paths"
+import { getSourceFields, getTargetFields } from "@/lib/mapping-fields"
+import { applyRowFilters, recordExclusion, type RowExclusion } from "@/lib/row-filters"
+import { aggregateRecords, groupByError } from "@/lib/aggregation"
+import type { AggregateFunction, AggregationConfig, RowFilterConfig } from "@/lib/mapping-schemas"
+import { formatDate, parseDateAuto, toISODateString } from "@/lib/date-format"
+import { createValueLookup, toValueMappingTable, type ValueLookupResult } from "@/lib/value-mapping"
+import {
+  convertDateValue,
+  convertNumberValue,
+  inferFormatKind,
+  parseLocaleNumber,
+  type FormattedValue,
+} from "@/lib/locale-format"
+import { checkTargetValue, constraintsByColumn, unmappedMandatoryFields } from "@/lib/target-constraints"
+import {
+  checkExpression,
+  evaluateCondition,
+  evaluateExpression,
+  isExpression,
+  parseExpression,
+  type ExpressionNode,
+  type FieldTypes,
+} from "@/lib/expression-language"
+
+export interface RowIssue {
+  row: number
+  field: string
+  value: any
+  message: string
+}
+
+export interface SkippedMapping {
+  mapping_id: string
+  target_field: string
+  reason: string
+}
+
+export interface UnmatchedValue {
+  mapping_id: string
+  target_field: string
+  value: string
+  count: number
+}
+
+export interface ConversionSummary {
+  input_records: number
+  output_records: number
+  applied_mappings: number
+  skipped_mappings: SkippedMapping[]
+  row_issues: RowIssue[]
+  excluded_records: RowExclusion[]
+  unmatched_values: UnmatchedValue[]
+  grouped_by?: string[]
+  warnings: string[]
+}
+
+export interface ConversionOptions {
+  // Types of the analyzed source fields, used to type-check expressions
+  fieldTypes?: FieldTypes
+  // Formats detected per source field; number fields are read with them, e.g. comma decimals
+  fieldFormats?: Record<string, FormatSpec>
+  filters?: RowFilterConfig
+  aggregation?: AggregationConfig
+  // Field definitions of the target, e.g. from its schema file; output values that break them are row issues
+  targetConstraints?: FieldDictionaryEntry[]
+}
+
+export interface ConversionResult {
+  records: SourceRecord[]
+  columns: string[]
+  summary: ConversionSummary
+}
+
+interface MappingOutcome {
+  values: Record<string, any>
+  issues: Array<{ field: string; value: any; message: string }>
+  excludeReason?: string
+  unmatched?: any
+}
+
+interface CompiledRules {
+  branches: Array<{ condition: ExpressionNode; expression: ExpressionNode }>
+  otherwise?: ExpressionNode
+}
+
+const MAX_ROW_ISSUES = 500
+
+// Labels used by the review and chat steps before mappings are stored as DynamicMapping
+const TRANSFORMATION_ALIASES: Record<string, TransformationType> = {
+  direct: "direct_mapping",
+  "direct copy": "direct_mapping",
+  custom: "direct_mapping",
+  uppercase: "value_normalization",
+  lowercase: "value_normalization",
+  date_format: "format_standardization",
+  currency: "data_type_conversion",
+  concat: "field_combination",
+  split: "field_splitting",
+  value_mapping: "lookup_transformation",
+  "value mapping": "lookup_transformation",
+  conditional: "conditional_mapping",
+}
+
+export function resolveTransformationType(label?: string): TransformationType {
+  if (!label) return "direct_mapping"
+
+  const normalized = label.trim().toLowerCase()
+  const alias = TRANSFORMATION_ALIASES[normalized]
+  if (alias) return alias
+
+  const parsed = TransformationTypeSchema.safeParse(normalized.replace(/\s+/g, "_"))
+  return parsed.success ? parsed.data : "direct_mapping"
+}
+
+// Accepts mappings in any of the shapes used across the workflow steps (camelCase UI rows,
+// analysis suggestions or stored DynamicMappings) and returns DynamicMappings
+export function normalizeMappings(rawMappings: any[]): DynamicMapping[] {
+  const now = new Date().toISOString()
+
+  return rawMappings.filter(Boolean).map((mapping, index) => {
+    // The chat step edits the UI label, so it wins over a stale transformation_type
+    const label: string | undefined = mapping.transformation || mapping.transformation_type
+    const confidence = typeof mapping.confidence === "number" ? mapping.confidence : 0.75
+    const normalizedLabel = label?.trim().toLowerCase()
+    const sourceFields: string[] | undefined = mapping.source_fields ?? mapping.sourceFields
+    const targetFields: string[] | undefined = mapping.target_fields ?? mapping.targetFields
+
+    return {
+      id: mapping.id || `mapping-${index}`,
+      source_field: mapping.source_field ?? mapping.sourceField ?? sourceFields?.join(" + ") ?? "",
+      target_field: mapping.target_field ?? mapping.targetField ?? targetFields?.join(", ") ?? "",
+      source_fields: sourceFields?.length ? sourceFields : undefined,
+      target_fields: targetFields?.length ? targetFields : undefined,
+      separator: mapping.separator,
+      transformation_type: resolveTransformationType(label),
+      confidence: confidence > 1 ? confidence / 100 : confidence,
+      reasoning: mapping.reasoning ?? mapping.notes ?? "",
+      transformation_logic:
+        mapping.transformation_logic ??
+        (normalizedLabel === "uppercase" || normalizedLabel === "lowercase" ? normalizedLabel : ""),
+      target_type: mapping.target_type ?? (normalizedLabel === "currency" ? "number" : undefined),
+      value_mapping: toValueMappingTable(mapping),
+      conditional_rules: mapping.conditional_rules,
+      aggregate_function: mapping.aggregate_function,
+      format_options: mapping.format_options,
+      potential_issues: mapping.potential_issues ?? [],
+      sample_transformation: mapping.sample_transformation,
+      status: mapping.status ?? "active",
+      created_at: mapping.created_at ?? now,
+      updated_at: mapping.updated_at ?? now,
+      user_modified: mapping.user_modified ?? false,
+    }
+  })
+}
+
+const isEmpty = (value: any) => value === null || value === undefined || String(value).trim() === ""
+
+export class ConversionEngine {
+  private readonly mappings: DynamicMapping[]
+  private readonly expressions = new Map<string, ExpressionNode>()
+  private readonly conditionals = new Map<string, CompiledRules>()
+  private readonly expressionErrors = new Map<string, string>()
+  private readonly expressionWarnings: string[] = []
+  private readonly lookups = new Map<string, (value: any) => ValueLookupResult>()
+
+  private readonly fieldTypes: FieldTypes
+  private readonly fieldFormats: Record<string, FormatSpec>
+  private readonly filters?: RowFilterConfig
+  private readonly aggregation?: AggregationConfig
+  private readonly targetConstraints: FieldDictionaryEntry[]
+
+  constructor(mappings: DynamicMapping[], options: ConversionOptions = {}) {
+    this.fieldTypes = options.fieldTypes ?? {}
+    this.fieldFormats = options.fieldFormats ?? {}
+    this.filters = options.filters
+    this.targetConstraints = options.targetConstraints ?? []
+    this.aggregation = options.aggregation?.group_by.length ? options.aggregation : undefined
+    this.mappings = mappings.filter((mapping) => mapping.status === "active" && getTargetFields(mapping).length > 0)
+
+    this.mappings.forEach((mapping) => {
+      if (mapping.value_mapping) {
+        this.lookups.set(mapping.id, createValueLookup(mapping.value_mapping))
+      }
+
+      const compile = (logic: string, label: string) => {
+        try {
+          const node = parseExpression(logic)
+          const check = checkExpression(node, this.fieldTypes)
+          // Operands of an impossible type fail for every record, so they invalidate the mapping
+          if (check.errors.length > 0) throw new Error(check.errors[0])
+          check.warnings.forEach((warning) =>
+            this.expressionWarnings.push(`${label} for "${mapping.target_field}": ${warning}`),
+          )
+          return node
+        } catch (error) {
+          throw new Error(`${label}: ${error instanceof Error ? error.message : String(error)}`)
+        }
+      }
+
+      try {
+        if (isExpression(mapping.transformation_logic)) {
+          this.expressions.set(mapping.id, compile(mapping.transformation_logic!, "Expression"))
+        }
+
+        const rules = mapping.conditional_rules
+        if (mapping.transformation_type === "conditional_mapping" && rules) {
+          this.conditionals.set(mapping.id, {
+            branches: rules.branches.map((branch, index) => ({
+              condition: compile(branch.condition, `Condition ${index + 1}`),
+              expression: compile(branch.expression, `Branch ${index + 1}`),
+            })),
+            otherwise: rules.else_expression?.trim() ? compile(rules.else_expression, "Else branch") : undefined,
+          })
+        }
+      } catch (error) {
+        this.expressionErrors.set(mapping.id, error instanceof Error ? error.message : String(error))
+      }
+    })
+  }
+
+  // Grouping needs a group-by field that one of the mappings writes; describes the mistake when none does
+  groupingError(): string | undefined {
+    return this.aggregation ? groupByError(this.aggregation, this.getOutputColumns(this.selectRunnable([]))) : undefined
+  }
+
+  convert(source: SourceRecordSet): ConversionResult {
+    const warnings = new Set<string>([...this.expressionWarnings, ...(source.warnings ?? [])])
+    const rowIssues: RowIssue[] = []
+    const skippedMappings: SkippedMapping[] = []
+    const runnable = this.selectRunnable(skippedMappings)
+
+    const columns = this.getOutputColumns(runnable)
+    const constraints = constraintsByColumn(this.targetConstraints, columns)
+    const missing = unmappedMandatoryFields(this.targetConstraints, columns)
+    if (missing.length > 0) {
+      const listed = missing.slice(0, 10).join(", ")
+      warnings.add(`Mandatory target fields without a mapping: ${listed}${missing.length > 10 ? ", …" : ""}`)
+    }
+
+    const records: SourceRecord[] = []
+    const unmatched = new Map<string, UnmatchedValue>()
+    const read = (record: SourceRecord, field: string) => getFieldValue(record, field, source.recordPath)
+
+    // Filters run before any mapping so excluded rows never produce row issues
+    const filtered = applyRowFilters(source.records, source.columns, this.filters, read)
+    const exclusions = new Map(filtered.exclusions.map((exclusion) => [exclusion.reason, exclusion]))
+    filtered.warnings.forEach((warning) => warnings.add(warning))
+
+    filtered.records.forEach(({ record, row }) => {
+      const output: SourceRecord = {}
+      let excluded = false
+
+      for (const mapping of runnable) {
+        const outcome = this.applyMapping(mapping, record, source.recordPath, warnings)
+
+        outcome.issues.forEach((issue) => {
+          if (rowIssues.length < MAX_ROW_ISSUES) {
+            rowIssues.push({ row, ...issue })
+          }
+        })
+
+        if (outcome.unmatched !== undefined) {
+          const value = String(outcome.unmatched)
+          const key = `${mapping.id}\u0000${value}`
+          const entry = unmatched.get(key)
+          if (entry) {
+            entry.count++
+          } else {
+            unmatched.set(key, { mapping_id: mapping.id, target_field: mapping.target_field, value, count: 1 })
+          }
+        }
+
+        if (outcome.excludeReason) {
+          recordExclusion(exclusions, outcome.excludeReason, row)
+          excluded = true
+          break
+        }
+
+        Object.assign(output, outcome.values)
+      }
+
+      if (excluded) return
+
+      // Checked per source row, before grouping, so an issue points at the row it came from
+      constraints.forEach((entry, column) => {
+        checkTargetValue(entry, output[column]).forEach(({ value, message }) => {
+          if (rowIssues.length < MAX_ROW_ISSUES) rowIssues.push({ row, field: column, value, message })
+        })
+      })
+      records.push(output)
+    })
+
+    let outputRecords = records
+    if (this.aggregation) {
+      const aggregated = aggregateRecords(records, columns, this.aggregation, (column) =>
+        this.resolveAggregate(runnable, column),
+      )
+      outputRecords = aggregated.records
+      aggregated.warnings.forEach((warning) => warnings.add(warning))
+    }
+
+    if (rowIssues.length >= MAX_ROW_ISSUES) {
+      warnings.add(`Only the first ${MAX_ROW_ISSUES} row issues are reported`)
+    }
+
+    return {
+      records: outputRecords,
+      columns,
+      summary: {
+        input_records: source.records.length,
+        output_records: outputRecords.length,
+        applied_mappings: runnable.length,
+        skipped_mappings: skippedMappings,
+        row_issues: rowIssues,
+        excluded_records: [...exclusions.values()],
+        unmatched_values: [...unmatched.values()].sort((a, b) => b.count - a.count),
+        grouped_by: this.aggregation?.group_by,
+        warnings: [...warnings],
+      },
+    }
+  }
+
+  private applyMapping(
+    mapping: DynamicMapping,
+    record: SourceRecord,
+    recordPath: string | undefined,
+    warnings: Set<string>,
+  ): MappingOutcome {
+    const read = (field: string) => getFieldValue(record, field, recordPath)
+    // Expressions see number fields as numbers, read with the format detected for them
+    const readTyped = (field: string) => {
+      const value = read(field)
+      if (this.fieldTypes[field] !== "number" || typeof value !== "string") return value
+      return parseLocaleNumber(value, this.fieldFormats[field]) ?? value
+    }
+    const target = mapping.target_field
+    const expression = this.expressions.get(mapping.id)
+    const rules = this.conditionals.get(mapping.id)
+    let value: any
+
+    // Conditional rules and expressions compute the value instead of reading the source field;
+    // the transformation type still applies to the result
+    if (rules || expression) {
+      try {
+        const result = rules ? evaluateRules(rules, readTyped) : evaluateExpression(expression!, readTyped)
+        value = result instanceof Date ? toISODateString(result) : result
+      } catch (error) {
+        return {
+          values: { [target]: null },
+          issues: [
+            {
+              field: mapping.source_field || target,
+              value: null,
+              message: `${rules ? "Conditional rules" : "Expression"} failed: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        }
+      }
+    } else {
+      value = read(mapping.source_field)
+    }
+
+    switch (mapping.transformation_type) {
+      case "direct_mapping":
+        return { values: { [target]: value }, issues: [] }
+
+      case "data_type_conversion": {
+        // A value read straight from the source is in the format detected for its field
+        const sourceFormat = rules || expression ? undefined : this.fieldFormats[mapping.source_field]
+        const converted = convertFormatted(value, mapping) ?? convertValue(value, mapping.target_type, sourceFormat)
+        return {
+          values: { [target]: converted.value },
+          issues: converted.error ? [{ field: mapping.source_field, value, message: converted.error }] : [],
+        }
+      }
+
+      case "format_standardization": {
+        const converted = convertFormatted(value, mapping)
+        if (!converted) return { values: { [target]: standardizeFormat(value) }, issues: [] }
+        return {
+          values: { [target]: converted.value },
+          issues: converted.error ? [{ field: mapping.source_field, value, message: converted.error }] : [],
+        }
+      }
+
+      case "value_normalization":
+        return { values: { [target]: normalizeValue(value, mapping.transformation_logic) }, issues: [] }
+
+      case "field_combination": {
+        if (expression) return { values: { [target]: value }, issues: [] }
+        const parts = getSourceFields(mapping)
+          .map(read)
+          .filter((part) => !isEmpty(part))
+          .map((part) => String(part).trim())
+        return { values: { [target]: parts.join(mapping.separator ?? " ") }, issues: [] }
+      }
+
+      case "field_splitting": {
+        const targets = getTargetFields(mapping)
+        const separator = mapping.separator
+        const text = isEmpty(value) ? "" : String(value).trim()
+        const parts = text === "" ? [] : separator ? text.split(separator).map((part) => part.trim()) : text.split(/\s+/)
+        const values: Record<string, any> = {}
+        targets.forEach((field, index) => {
+          // The last target receives whatever is left so no source data is dropped
+          values[field] =
+            index === targets.length - 1 ? parts.slice(index).join(separator ?? " ") : (parts[index] ?? "")
+        })
+        return { values, issues: [] }
+      }
+
+      case "filtering":
+        return isEmpty(value)
+          ? { values: {}, issues: [], excludeReason: `Empty value in "${mapping.source_field || target}"` }
+          : { values: { [target]: value }, issues: [] }
+
+      case "lookup_transformation": {
+        const lookup = this.lookups.get(mapping.id)
+        if (!lookup) {
+          warnings.add(`lookup transformation for "${target}" has no value mappings configured; values were copied unchanged`)
+          return { values: { [target]: value }, issues: [] }
+        }
+        const result = lookup(value)
+        return { values: { [target]: result.value }, issues: [], unmatched: result.matched ? undefined : value }
+      }
+
+      case "conditional_mapping":
+        if (rules) return { values: { [target]: value }, issues: [] }
+        warnings.add(`conditional mapping for "${target}" has no rules configured; values were copied unchanged`)
+        return { values: { [target]: value }, issues: [] }
+
+      case "aggregation":
+        // The value is reduced per group after all records are mapped
+        if (!this.aggregation) {
+          warnings.add(`aggregation for "${target}" only applies when records are grouped; values were copied unchanged`)
+        }
+        return { values: { [target]: value }, issues: [] }
+
+      default:
+        return { values: { [target]: value }, issues: [] }
+    }
+  }
+
+  // Mappings with an invalid expression or nothing to read are skipped and reported
+  private selectRunnable(skippedMappings: SkippedMapping[]): DynamicMapping[] {
+    return this.mappings.filter((mapping) => {
+      const expressionError = this.expressionErrors.get(mapping.id)
+      if (expressionError) {
+        skippedMappings.push({
+          mapping_id: mapping.id,
+          target_field: mapping.target_field,
+          reason: `Invalid expression: ${expressionError}`,
+        })
+        return false
+      }
+      // Expressions and conditional rules read their own fields, so they do not need a source field
+      if (getSourceFields(mapping).length > 0 || this.expressions.has(mapping.id) || this.conditionals.has(mapping.id)) {
+        return true
+      }
+      skippedMappings.push({
+        mapping_id: mapping.id,
+        target_field: mapping.target_field,
+        reason: "No source field configured",
+      })
+      return false
+    })
+  }
+
+  private resolveAggregate(mappings: DynamicMapping[], column: string): AggregateFunction {
+    const configured = this.aggregation?.aggregates?.[column]
+    if (configured) return configured
+
+    const mapping = mappings.find((candidate) => getTargetFields(candidate).includes(column))
+    if (mapping?.aggregate_function) return mapping.aggregate_function
+    return mapping?.transformation_type === "aggregation" ? "sum" : "first"
+  }
+
+  private getOutputColumns(mappings: DynamicMapping[]): string[] {
+    const columns: string[] = []
+
+    mappings.forEach((mapping) => {
+      getTargetFields(mapping).forEach((target) => {
+        if (!columns.includes(target)) columns.push(target)
+      })
+    })
+
+    return columns
+  }
+}
+
+// The first branch whose condition holds decides the value; without a match the else branch is used
+function evaluateRules(rules: CompiledRules, read: (field: string) => any): any {
+  const branch = rules.branches.find((candidate) => evaluateCondition(candidate.condition, read))
+  const chosen = branch ? branch.expression : rules.otherwise
+  return chosen ? evaluateExpression(chosen, read) : null
+}
+
+// Applies the mapping's declared source and target formats; undefined when it declares none that apply
+function convertFormatted(value: any, mapping: DynamicMapping): FormattedValue | undefined {
+  const options = mapping.format_options
+  if (!options) return undefined
+
+  const kind =
+    mapping.target_type === "date" || mapping.target_type === "number" ? mapping.target_type : inferFormatKind(options)
+  if (!kind) return undefined
+  if (isEmpty(value)) return { value: null }
+
+  return kind === "date" ? convertDateValue(value, options) : convertNumberValue(value, options)
+}
+
+function convertValue(value: any, targetType?: DataType, sourceFormat?: FormatSpec): { value: any; error?: string } {
+  if (isEmpty(value)) return { value: null }
+
+  const text = String(value).trim()
+
+  switch (targetType) {
+    case "number": {
+      // Separators that do not fit the format, such as "12,50" in a point-decimal field, are reported, not guessed
+      const number = parseLocaleNumber(value, sourceFormat)
+      return number === null ? { value, error: `Cannot convert "${text}" to a number` } : { value: number }
+    }
+    case "boolean": {
+      if (/^(true|yes|y|1)$/i.test(text)) return { value: true }
+      if (/^(false|no|n|0)$/i.test(text)) return { value: false }
+      return { value, error: `Cannot convert "${text}" to a boolean` }
+    }
+    case "date": {
+      const date = toISODate(value)
+      return date ? { value: date } : { value, error: `Cannot convert "${text}" to a date` }
+    }
+    case "string":
+      return { value: text }
+    default:
+      // Without a target type, convert values that are unambiguously numeric or boolean
+      if (text !== "" && !isNaN(Number(text))) return { value: Number(text) }
+      if (/^(true|false)$/i.test(text)) return { value: text.toLowerCase() === "true" }
+      return { value }
+  }
+}
+
+function toISODate(value: any): string | null {
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value.trim())) return value.trim().slice(0, 10)
+
+  const date = parseDateAuto(value)
+  return date ? formatDate(date, "yyyy-MM-dd") : null
+}
+
+function standardizeFormat(value: any): any {
+  if (value instanceof Date) return toISODate(value)
+  if (typeof value !== "string") return value
+
+  const text = value.trim().replace(/\s+/g, " ")
+  // Only reformat values that look like dates; plain numbers are also accepted by Date.parse
+  if (/\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}/.test(text)) {
+    return toISODate(text) ?? text
+  }
+
+  return text
+}
+
+function normalizeValue(value: any, logic?: string): any {
+  if (typeof value !== "string") return value
+
+  const text = value.trim().replace(/\s+/g, " ")
+  switch (logic?.trim().toLowerCase()) {
+    case "uppercase":
+      return text.toUpperCase()
+    case "lowercase":
+      return text.toLowerCase()
+    default:
+      return text
+  }
+}
@@ -0,0 +1,177 @@
+import type { CsvDialect } from "@/lib/mapping-schemas"
+
+export interface ResolvedCsvDialect {
+  delimiter: string
+  quote: string
+  header_row: number | null
+}
+
+export const CSV_DELIMITERS = [
+  { value: ",", label: "Comma" },
+  { value: ";", label: "Semicolon" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe" },
+]
+
+// Enough lines to judge the dialect without scanning a large export
+const SNIFF_SAMPLE_SIZE = 64 * 1024
+const SNIFF_ROWS = 50
+
+// Splits delimited text into rows of cells. Quoted cells may contain the delimiter, line breaks and
+// doubled quote characters.
+export function parseDelimited(text: string, delimiter: string, quote = '"'): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === quote && text[i + 1] === quote) {
+        cell += quote
+        i++
+      } else if (char === quote) {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === quote && cell.trim() === "") {
+      quoted = true
+      cell = ""
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""))
+}
+
+const mostCommon = (counts: number[]): { value: number; share: number } => {
+  const tally = new Map<number, number>()
+  counts.forEach((count) => tally.set(count, (tally.get(count) || 0) + 1))
+  const [value, frequency] = [...tally.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0] || [0, 0]
+  return { value, share: counts.length > 0 ? frequency / counts.length : 0 }
+}
+
+const isNumeric = (value: string) => /^[-+]?[\d\s.,]*\d[\d\s.,]*%?$/.test(value.trim())
+const looksLikeData = (value: string) =>
+  isNumeric(value) || /^\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}/.test(value.trim()) || /^(true|false)$/i.test(value.trim())
+
+// The delimiter that splits the sample into the most rows with the same number of fields
+function detectDelimiter(sample: string, quote: string): string {
+  let best = { delimiter: ",", score: 0 }
+
+  CSV_DELIMITERS.forEach(({ value: delimiter }) => {
+    const counts = parseDelimited(sample, delimiter, quote)
+      .slice(0, SNIFF_ROWS)
+      .map((row) => row.length)
+    const { value, share } = mostCommon(counts)
+    if (value < 2) return
+    // Consistency first; among equally consistent candidates more fields is the better split
+    const score = share * 1000 + Math.min(value, 999)
+    if (score > best.score) best = { delimiter, score }
+  })
+
+  return best.delimiter
+}
+
+function detectQuote(sample: string, delimiter: string): string {
+  const escaped = delimiter.replace(/[|\\]/g, "\\$&")
+  const quotedWith = (quote: string) =>
+    (sample.match(new RegExp(`(^|${escaped})${quote}[^${quote}\\n]*${quote}(?=${escaped}|\\r?$)`, "gm")) || []).length
+  return quotedWith("'") > quotedWith('"') ? "'" : '"'
+}
+
+// The header is the first row with the usual number of fields (title lines before it are skipped),
+// unless it looks like data itself: numbers where the column below holds text, or values that repeat
+function detectHeaderRow(rows: string[][]): number | null {
+  const { value: width } = mostCommon(rows.map((row) => row.length))
+  const candidate = rows.slice(0, 10).findIndex((row) => row.length === width)
+  if (candidate < 0) return null
+
+  const header = rows[candidate]
+  const data = rows.slice(candidate + 1, candidate + 1 + SNIFF_ROWS)
+  if (header.some((cell) => cell.trim() !== "" && looksLikeData(cell))) return null
+  if (data.length === 0) return candidate
+
+  const typedColumn = header.some((_, column) => {
+    const values = data.map((row) => row[column] ?? "").filter((value) => value.trim() !== "")
+    return values.length > 0 && values.filter(looksLikeData).length / values.length >= 0.8
+  })
+  if (typedColumn) return candidate
+
+  const repeated = header.some((cell, column) => cell.trim() !== "" && data.some((row) => row[column] === cell))
+  const unique = new Set(header.map((cell) => cell.trim().toLowerCase())).size === header.length
+  return unique && !repeated ? candidate : null
+}
+
+// Detects the settings that were not given; given settings are kept as they are
+export function sniffCSVDialect(text: string, overrides: CsvDialect = {}): ResolvedCsvDialect {
+  let sample = text.slice(0, SNIFF_SAMPLE_SIZE)
+  if (text.length > SNIFF_SAMPLE_SIZE && sample.includes("\n")) sample = sample.slice(0, sample.lastIndexOf("\n"))
+
+  const delimiter = overrides.delimiter ?? detectDelimiter(sample, overrides.quote ?? '"')
+  const quote = overrides.quote ?? detectQuote(sample, delimiter)
+  const header_row =
+    overrides.header_row !== undefined ? overrides.header_row : detectHeaderRow(parseDelimited(sample, delimiter, quote))
+
+  return { delimiter, quote, header_row }
+}
+
+// Column names from the header row: blank names are numbered and repeated names get a suffix
+function toColumnNames(header: string[]): string[] {
+  const seen = new Map<string, number>()
+  return header.map((cell, index) => {
+    const name = cell.trim() || `column_${index + 1}`
+    const count = (seen.get(name) || 0) + 1
+    seen.set(name, count)
+    return count > 1 ? `${name}_${count}` : name
+  })
+}
+
+export function parseCSV(
+  text: string,
+  dialect: ResolvedCsvDialect,
+): { records: Record<string, any>[]; columns: string[] } {
+  const rows = parseDelimited(text, dialect.delimiter, dialect.quote)
+  const start = dialect.header_row ?? 0
+  const width = rows.slice(start).reduce((max, row) => Math.max(max, row.length), 0)
+
+  const columns =
+    dialect.header_row !== null && rows[start]
+      ? toColumnNames([...rows[start], ...Array(Math.max(0, width - rows[start].length)).fill("")])
+      : Array.from({ length: width }, (_, index) => `column_${index + 1}`)
+  const data = rows.slice(dialect.header_row !== null ? start + 1 : start)
+
+  const records = data.map((row) => {
+    const record: Record<string, any> = {}
+    columns.forEach((column, index) => {
+      record[column] = row[index] ?? null
+    })
+    return record
+  })
+
+  return { records, columns }
+}
+
+export function describeDialect(dialect: ResolvedCsvDialect): string {
+  const delimiter = CSV_DELIMITERS.find((option) => option.value === dialect.delimiter)?.label ?? `"${dialect.delimiter}"`
+  const header = dialect.header_row === null ? "no header row" : `header on row ${dialect.header_row + 1}`
+  return `${delimiter}-separated, ${header}`
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest"
+import { detectDataQualityIssues } from "@/lib/data-quality"
+import { DocumentProcessor } from "@/lib/document-processor"
+
+// Checks a CSV the way the analysis does, on the records it read and the fields it found
+async function issuesOf(csv: string) {
+  const processor = new DocumentProcessor()
+  const file = new File([csv], "customers.csv", { type: "text/csv" })
+  const { dataPoints } = await processor.processDocument(file)
+  return detectDataQualityIssues(await processor.readRecords(file), dataPoints)
+}
+
+describe("inconsistent formats", () => {
+  it("does not read e-mail addresses as codes", async () => {
+    const rows = Array.from({ length: 10 }, (_, index) => `${index + 1},u${index + 1}@x.com`)
+    const issues = await issuesOf(["id,email", ...rows].join("\n"))
+
+    expect(issues.filter((issue) => issue.field === "email" && issue.issue_type === "inconsistent_format")).toEqual([])
+  })
+
+  it("reports codes written in another shape than most", async () => {
+    const rows = Array.from({ length: 10 }, (_, index) => `${index + 1},${index === 3 ? "1234 AB" : "1234AB"}`)
+    const issues = await issuesOf(["id,postcode", ...rows].join("\n"))
+    const inconsistent = issues.filter((issue) => issue.issue_type === "inconsistent_format")
+
+    expect(inconsistent.map((issue) => [issue.field, issue.affected_records])).toEqual([["postcode", 1]])
+  })
+})
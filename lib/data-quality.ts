@@ -0,0 +1,297 @@
+import type { DataQualityIssue, FormatSpec } from "@/lib/mapping-schemas"
+import type { DataPoint, SourceRecordSet } from "@/lib/document-processor"
+import { getFieldValue } from "@/lib/field-paths"
+import { KEY_FIELD_NAME } from "@/lib/relationships"
+import { parseDate, parseDateAuto } from "@/lib/date-format"
+import {
+  DATE_PATTERN_CANDIDATES,
+  NUMBER_FORMAT_PRESETS,
+  detectNumberFormat,
+  parseLocaleNumber,
+} from "@/lib/locale-format"
+
+type ValueKind = "number" | "date" | "boolean" | "text"
+
+interface FieldValue {
+  row: number
+  value: any
+  kind: ValueKind
+}
+
+// Record numbers listed per issue; affected_records still counts all of them
+const MAX_ROW_REFERENCES = 20
+// Share of the values that must agree on a type or format before the others count as deviations
+const DOMINANT_SHARE = 0.8
+// Fewer values than this cannot tell a rule from an exception
+const MIN_VALUES = 5
+const MIN_OUTLIER_VALUES = 10
+// Distance from the quartiles, in interquartile ranges, beyond which a number is an outlier
+const OUTLIER_FENCE = 3
+
+const KIND_LABELS: Record<ValueKind, string> = {
+  number: "numbers",
+  date: "dates",
+  boolean: "true or false",
+  text: "text",
+}
+
+const isEmpty = (value: any) =>
+  value === null || value === undefined || (typeof value === "string" && value.trim() === "")
+
+const severityOf = (share: number): DataQualityIssue["severity"] =>
+  share >= 0.2 ? "high" : share >= 0.05 ? "medium" : "low"
+
+// "AB-1234" -> "AA-9999", the format of a code, postcode or phone number
+const shapeOf = (text: string) =>
+  text
+    .trim()
+    .replace(/[A-Za-z]/g, "A")
+    .replace(/\d/g, "9")
+
+function mostCommon<T>(items: T[]): { item: T; count: number } | null {
+  const counts = new Map<T, number>()
+  items.forEach((item) => counts.set(item, (counts.get(item) || 0) + 1))
+  let best: { item: T; count: number } | null = null
+  counts.forEach((count, item) => {
+    if (!best || count > best.count) best = { item, count }
+  })
+  return best
+}
+
+// The number format most values fit, which may be undefined for plain numbers; the format found
+// during analysis only exists when every value fits it
+function numberFormatOf(texts: string[], detected?: FormatSpec): FormatSpec | undefined {
+  if (detected?.decimal_separator) return detected
+  const candidates = texts.filter((text) =>
+    Object.values(NUMBER_FORMAT_PRESETS).some((spec) => parseLocaleNumber(text, spec) !== null),
+  )
+  return detectNumberFormat(candidates)
+}
+
+// The date pattern most values are written in
+function datePatternOf(texts: string[]): string | undefined {
+  const matches = DATE_PATTERN_CANDIDATES.map((pattern) => ({
+    pattern,
+    count: texts.filter((text) => parseDate(text, pattern)).length,
+  }))
+  const best = matches.reduce((top, match) => (match.count > top.count ? match : top), matches[0])
+  return best.count > 0 ? best.pattern : undefined
+}
+
+function kindOf(value: any, numberFormat?: FormatSpec, datePattern?: string): ValueKind {
+  if (typeof value === "boolean" || /^(true|false)$/i.test(String(value).trim())) return "boolean"
+  if (parseLocaleNumber(value, numberFormat) !== null) return "number"
+  if (value instanceof Date || (datePattern && parseDate(String(value).trim(), datePattern)) || parseDateAuto(value)) {
+    return "date"
+  }
+  return "text"
+}
+
+function issue(
+  field: string,
+  issue_type: DataQualityIssue["issue_type"],
+  severity: DataQualityIssue["severity"],
+  description: string,
+  suggested_fix: string,
+  rows: number[],
+): DataQualityIssue {
+  return {
+    field,
+    issue_type,
+    severity,
+    description,
+    suggested_fix,
+    affected_records: rows.length,
+    rows: rows.slice(0, MAX_ROW_REFERENCES),
+  }
+}
+
+function checkField(
+  field: string,
+  values: Array<{ row: number; value: any }>,
+  dataPoint: DataPoint,
+): DataQualityIssue[] {
+  const issues: DataQualityIssue[] = []
+  const total = values.length
+
+  const missing = values.filter(({ value }) => isEmpty(value)).map(({ row }) => row)
+  if (missing.length > 0) {
+    issues.push(
+      issue(
+        field,
+        "missing_values",
+        severityOf(missing.length / total),
+        `${missing.length} of ${total} records have no value for ${field}`,
+        "Fill the values in the source, or give the mapping a default value or a conditional transformation",
+        missing,
+      ),
+    )
+  }
+
+  const filled = values.filter(({ value }) => !isEmpty(value))
+  if (filled.length < MIN_VALUES) return issues
+
+  const strings = filled.map(({ value }) => String(value).trim())
+  const numberFormat = numberFormatOf(strings, dataPoint.format)
+  const datePattern = dataPoint.format?.date_pattern ?? datePatternOf(strings)
+  const present: FieldValue[] = filled.map(({ row, value }) => ({
+    row,
+    value,
+    kind: kindOf(value, numberFormat, datePattern),
+  }))
+
+  // A field that is almost entirely numbers, dates or booleans holds a few values of another type
+  const dominant = mostCommon(present.map(({ kind }) => kind))!
+  const share = dominant.count / present.length
+  if (dominant.item !== "text" && share >= DOMINANT_SHARE && share < 1) {
+    const mismatched = present.filter(({ kind }) => kind !== dominant.item)
+    issues.push(
+      issue(
+        field,
+        "data_type_mismatch",
+        severityOf(mismatched.length / present.length),
+        `${mismatched.length} values of ${field} are not ${KIND_LABELS[dominant.item]}, unlike the other ${dominant.count}, e.g. "${mismatched[0].value}"`,
+        "Correct the values in the source, or convert them with a custom transformation",
+        mismatched.map(({ row }) => row),
+      ),
+    )
+  }
+
+  const inconsistent = checkFormat(field, present, dominant.item, datePattern)
+  if (inconsistent) issues.push(inconsistent)
+
+  const duplicates = checkDuplicates(field, present, dominant.item)
+  if (duplicates) issues.push(duplicates)
+
+  if (dominant.item === "number") {
+    const outliers = checkOutliers(field, present, numberFormat)
+    if (outliers) issues.push(outliers)
+  }
+
+  return issues
+}
+
+// Dates written in another pattern than most, or codes in another shape than most ("1234 AB" among
+// "1234AB")
+function checkFormat(
+  field: string,
+  present: FieldValue[],
+  dominantKind: ValueKind,
+  datePattern?: string,
+): DataQualityIssue | null {
+  if (dominantKind === "date" && datePattern) {
+    const dates = present.filter(({ kind, value }) => kind === "date" && !(value instanceof Date))
+    const deviating = dates.filter(({ value }) => !parseDate(String(value).trim(), datePattern))
+    if (deviating.length === 0 || deviating.length === dates.length) return null
+    return issue(
+      field,
+      "inconsistent_format",
+      severityOf(deviating.length / present.length),
+      `${deviating.length} dates of ${field} are not written as ${datePattern} like the other ${dates.length - deviating.length}, e.g. "${deviating[0].value}"`,
+      "Standardize the dates in the source, or read them with a date format transformation",
+      deviating.map(({ row }) => row),
+    )
+  }
+
+  if (dominantKind === "text") {
+    const texts = present.filter(({ kind }) => kind === "text")
+    const shapes = texts.map(({ value }) => shapeOf(String(value)))
+    const common = mostCommon(shapes)
+    // Free text has no format; only codes with digits in a fixed place do
+    if (!common || !common.item.includes("9") || common.count / texts.length < DOMINANT_SHARE) return null
+    // E-mail addresses and sentences can contain digits too, but their length varies freely around separators
+    if (/[@\s]/.test(common.item)) return null
+    const deviating = texts.filter((_, index) => shapes[index] !== common.item)
+    if (deviating.length === 0) return null
+    return issue(
+      field,
+      "inconsistent_format",
+      severityOf(deviating.length / present.length),
+      `${deviating.length} values of ${field} do not follow the format ${common.item} of the other ${common.count}, e.g. "${deviating[0].value}"`,
+      "Standardize the values in the source, or normalize them with a custom transformation",
+      deviating.map(({ row }) => row),
+    )
+  }
+
+  return null
+}
+
+// Repeated values in a field that identifies records: one named like a key, or text that is
+// otherwise unique
+function checkDuplicates(field: string, present: FieldValue[], dominantKind: ValueKind): DataQualityIssue | null {
+  if (dominantKind === "boolean" || dominantKind === "date") return null
+
+  const seen = new Set<string>()
+  const repeated = present.filter(({ value }) => {
+    const key = String(value).trim()
+    if (seen.has(key)) return true
+    seen.add(key)
+    return false
+  })
+  if (repeated.length === 0) return null
+
+  const unique = seen.size / present.length
+  const isKey = (KEY_FIELD_NAME.test(field) && unique >= 0.5) || (dominantKind === "text" && unique >= 0.95)
+  if (!isKey) return null
+
+  return issue(
+    field,
+    "duplicate_values",
+    "medium",
+    `${repeated.length} records repeat a value of ${field}, which should identify each record, e.g. "${repeated[0].value}"`,
+    "Remove or merge the repeated records in the source, or check whether the field really identifies a record",
+    repeated.map(({ row }) => row),
+  )
+}
+
+// Numbers far outside the interquartile range of the field
+function checkOutliers(field: string, present: FieldValue[], numberFormat?: FormatSpec): DataQualityIssue | null {
+  const numbers = present
+    .filter(({ kind }) => kind === "number")
+    .map(({ row, value }) => ({ row, number: parseLocaleNumber(value, numberFormat)! }))
+  if (numbers.length < MIN_OUTLIER_VALUES) return null
+
+  const sorted = numbers.map(({ number }) => number).sort((a, b) => a - b)
+  const quartile = (q: number) => sorted[Math.floor((sorted.length - 1) * q)]
+  const q1 = quartile(0.25)
+  const q3 = quartile(0.75)
+  const range = q3 - q1
+  if (range === 0) return null
+
+  const low = q1 - OUTLIER_FENCE * range
+  const high = q3 + OUTLIER_FENCE * range
+  const outliers = numbers.filter(({ number }) => number < low || number > high)
+  if (outliers.length === 0) return null
+
+  return issue(
+    field,
+    "outliers",
+    "low",
+    `${outliers.length} values of ${field} lie far outside the usual range of ${q1} to ${q3}, e.g. ${outliers[0].number}`,
+    "Check these values in the source and correct them if they were entered wrongly",
+    outliers.map(({ row }) => row),
+  )
+}
+
+// Data quality issues of the parsed source records. Rows are record numbers counting from 1, so the
+// first data row of a file with a header is row 1.
+export function detectDataQualityIssues(recordSet: SourceRecordSet, dataPoints: DataPoint[]): DataQualityIssue[] {
+  const { records, recordPath } = recordSet
+  if (records.length === 0) return []
+
+  return dataPoints
+    .filter((dataPoint) => dataPoint.type !== "array" && dataPoint.type !== "object")
+    .flatMap((dataPoint) => {
+      const values = records.map((record, index) => ({
+        row: index + 1,
+        value: getFieldValue(record, dataPoint.field, recordPath),
+      }))
+      // Fields of other sheets or segments are not part of these records
+      if (values.every(({ value }) => value === undefined)) return []
+      // Nested lists hold several values per record, which this check does not take apart
+      if (values.some(({ value }) => typeof value === "object" && value !== null && !(value instanceof Date))) {
+        return []
+      }
+      return checkField(dataPoint.field, values, dataPoint)
+    })
+}
@@ -0,0 +1,163 @@
+// Date patterns use the familiar tokens yyyy, yy, MM, M, dd, d, HH, H, mm and ss.
+// Text in single quotes is matched literally, e.g. "yyyy-MM-dd'T'HH:mm:ss".
+// Dates are handled in UTC so a value never shifts a day because of the server's timezone.
+
+const TOKENS = ["yyyy", "yy", "MM", "M", "dd", "d", "HH", "H", "mm", "ss"] as const
+type DateToken = (typeof TOKENS)[number]
+
+type PatternPart = { token: DateToken } | { literal: string }
+
+const TOKEN_REGEX: Record<DateToken, string> = {
+  yyyy: "(\\d{4})",
+  yy: "(\\d{2})",
+  MM: "(\\d{2})",
+  M: "(\\d{1,2})",
+  dd: "(\\d{2})",
+  d: "(\\d{1,2})",
+  HH: "(\\d{2})",
+  H: "(\\d{1,2})",
+  mm: "(\\d{2})",
+  ss: "(\\d{2})",
+}
+
+function tokenizePattern(pattern: string): PatternPart[] {
+  const parts: PatternPart[] = []
+  let index = 0
+
+  while (index < pattern.length) {
+    if (pattern[index] === "'") {
+      const end = pattern.indexOf("'", index + 1)
+      const literal = end === -1 ? pattern.slice(index + 1) : pattern.slice(index + 1, end)
+      parts.push({ literal })
+      index = end === -1 ? pattern.length : end + 1
+      continue
+    }
+
+    const token = TOKENS.find((candidate) => pattern.startsWith(candidate, index))
+    if (token) {
+      parts.push({ token })
+      index += token.length
+    } else {
+      parts.push({ literal: pattern[index] })
+      index += 1
+    }
+  }
+
+  return parts
+}
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+export function parseDate(text: string, pattern: string): Date | null {
+  const parts = tokenizePattern(pattern)
+  const regex = new RegExp(
+    `^${parts.map((part) => ("token" in part ? TOKEN_REGEX[part.token] : escapeRegex(part.literal))).join("")}$`,
+  )
+  const match = text.trim().match(regex)
+  if (!match) return null
+
+  const values = { year: 1970, month: 1, day: 1, hour: 0, minute: 0, second: 0 }
+  let group = 1
+  parts.forEach((part) => {
+    if (!("token" in part)) return
+    const number = Number(match[group++])
+    switch (part.token) {
+      case "yyyy":
+        values.year = number
+        break
+      case "yy":
+        values.year = number < 70 ? 2000 + number : 1900 + number
+        break
+      case "MM":
+      case "M":
+        values.month = number
+        break
+      case "dd":
+      case "d":
+        values.day = number
+        break
+      case "HH":
+      case "H":
+        values.hour = number
+        break
+      case "mm":
+        values.minute = number
+        break
+      case "ss":
+        values.second = number
+        break
+    }
+  })
+
+  const date = new Date(Date.UTC(values.year, values.month - 1, values.day, values.hour, values.minute, values.second))
+
+  // Reject values such as 31-02-2024 that Date.UTC would silently roll over
+  if (date.getUTCMonth() !== values.month - 1 || date.getUTCDate() !== values.day) return null
+  return date
+}
+
+export function formatDate(date: Date, pattern: string): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0")
+
+  return tokenizePattern(pattern)
+    .map((part) => {
+      if (!("token" in part)) return part.literal
+      switch (part.token) {
+        case "yyyy":
+          return pad(date.getUTCFullYear(), 4)
+        case "yy":
+          return pad(date.getUTCFullYear() % 100)
+        case "MM":
+          return pad(date.getUTCMonth() + 1)
+        case "M":
+          return String(date.getUTCMonth() + 1)
+        case "dd":
+          return pad(date.getUTCDate())
+        case "d":
+          return String(date.getUTCDate())
+        case "HH":
+          return pad(date.getUTCHours())
+        case "H":
+          return String(date.getUTCHours())
+        case "mm":
+          return pad(date.getUTCMinutes())
+        case "ss":
+          return pad(date.getUTCSeconds())
+      }
+    })
+    .join("")
+}
+
+// ISO dates first, then whatever Date.parse understands, read back as a UTC calendar date
+export function parseDateAuto(value: any): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value
+  if (value === null || value === undefined) return null
+
+  const text = String(value).trim()
+  const iso =
+    parseDate(text, "yyyy-MM-dd") ??
+    parseDate(text, "yyyy-MM-dd'T'HH:mm:ss") ??
+    parseDate(text, "yyyy-MM-dd HH:mm:ss")
+  if (iso) return iso
+
+  if (!/\d/.test(text) || !isNaN(Number(text))) return null
+  const timestamp = Date.parse(text)
+  if (isNaN(timestamp)) return null
+
+  const local = new Date(timestamp)
+  return new Date(
+    Date.UTC(
+      local.getFullYear(),
+      local.getMonth(),
+      local.getDate(),
+      local.getHours(),
+      local.getMinutes(),
+      local.getSeconds(),
+    ),
+  )
+}
+
+export function toISODateString(date: Date): string {
+  const hasTime = date.getUTCHours() !== 0 || date.getUTCMinutes() !== 0 || date.getUTCSeconds() !== 0
+  return formatDate(date, hasTime ? "yyyy-MM-dd'T'HH:mm:ss" : "yyyy-MM-dd")
+}
@@ -2,7 +2,29 @@ import pdf from "pdf-parse"
 import mammoth from "mammoth"
 import * as XLSX from "xlsx"
 import { parseString } from "xml2js"
-import Papa from "papaparse"
+import type { CsvDialect, FieldDictionaryEntry, FixedWidthLayout, FormatSpec } from "@/lib/mapping-schemas"
+import { parseDateAuto } from "@/lib/date-format"
+import { detectDatePattern, detectNumberFormat } from "@/lib/locale-format"
+import { attachSheetFields, qualifySheetField, type SheetRows } from "@/lib/sheet-references"
+import { readFixedWidth } from "@/lib/fixed-width"
+import { collectKeys, flattenRecord, parseNDJSON, sampleRecords } from "@/lib/ndjson"
+import { isEDI, readEDIRecords } from "@/lib/edi-parser"
+import { getFieldDataType, isHL7, readHL7Records } from "@/lib/hl7-parser"
+import { parseCSV, parseDelimited, sniffCSVDialect, type ResolvedCsvDialect } from "@/lib/csv-dialect"
+import { BINARY_FORMATS, readFileText } from "@/lib/encoding"
+import { readDictionaryRows, rowsFromText } from "@/lib/field-dictionary"
+import { detectSchemaKind, readSchemaFields, type SchemaKind } from "@/lib/schema-import"
+import { profileColumn, type ColumnProfile } from "@/lib/column-profile"
+import {
+  largestTable,
+  lineText,
+  linesFromPdfItems,
+  tableToRecords,
+  tablesFromHTML,
+  tablesFromPdfLines,
+  type ExtractedTable,
+  type TextLine,
+} from "@/lib/table-extraction"
 
 export interface ProcessedDocument {
   id: string
@@ -13,6 +35,9 @@ export interface ProcessedDocument {
   structure: DocumentStructure
   metadata: DocumentMetadata
   dataPoints: DataPoint[]
+  // The records the analysis read, the same readRecords gives, so checks over every record need not
+  // read the file again. Workbooks are analyzed without their dates parsed, so they have none.
+  records?: SourceRecordSet
 }
 
 export interface DocumentStructure {
@@ -25,10 +50,31 @@ export interface DocumentStructure {
 
 export interface DocumentMetadata {
   size: number
+  // Character encoding a text file was decoded with
   encoding?: string
   created?: Date
   pages?: number
   sheets?: string[]
+  // Sheet whose rows are the records; fields of the other sheets are named "Sheet!Column"
+  record_sheet?: string
+  sheet_profiles?: SheetProfile[]
+  // Delimiter, quote and header row a CSV file was read with, detected or as given
+  csv_dialect?: ResolvedCsvDialect
+  // Tables found in a PDF or Word document
+  table_count?: number
+  // Kind of schema file and the fields it defines with their types and constraints
+  schema_kind?: SchemaKind
+  field_definitions?: FieldDictionaryEntry[]
+  schema_warnings?: string[]
+  // Operations of an OpenAPI document or input types of a GraphQL schema, and the one that was read
+  schema_entries?: string[]
+  schema_entry?: string
+}
+
+export interface SheetProfile {
+  name: string
+  rows: number
+  columns: string[]
 }
 
 export interface DataPoint {
@@ -38,47 +84,126 @@ export interface DataPoint {
   null_count: number
   unique_count: number
   pattern?: string
+  // Set on fields of a workbook sheet other than the record sheet
+  sheet?: string
+  // Detected date pattern or number separators, used as the default source format of a mapping
+  format?: FormatSpec
+  // Description of a field defined in a specification table
+  description?: string
+  // Statistics of the values, so a mapping can be judged from the data
+  profile?: ColumnProfile
+}
+
+export type DocumentFormat =
+  | "csv"
+  | "txt"
+  | "json"
+  | "xml"
+  | "xlsx"
+  | "pdf"
+  | "docx"
+  | "fixed"
+  | "ndjson"
+  | "edi"
+  | "hl7"
+  | "schema"
+
+export type SourceRecord = Record<string, any>
+
+export interface SourceRecordSet {
+  records: SourceRecord[]
+  columns: string[]
+  // Path of the element that holds the records inside a hierarchical document, e.g. "orders.order"
+  recordPath?: string
+  // Workbook sheet the records were read from
+  sheet?: string
+  warnings?: string[]
 }
 
-export type DocumentFormat = "csv" | "txt" | "json" | "xml" | "xlsx" | "pdf" | "docx"
+// How to read a data file that cannot be fully understood from its content
+export interface SourceOptions {
+  // Record sheet of a workbook; the first sheet when not set
+  sheet?: string
+  // Column layout of a fixed-width file; any file read with a layout is treated as fixed-width
+  layout?: FixedWidthLayout
+  // Delimiter, quote and header row of a CSV file; what is not set is detected
+  csv?: CsvDialect
+  // Character encoding of a text file; detected from the BOM and the bytes when not set
+  encoding?: string
+  // Operation of an OpenAPI document ("POST /orders") or input type of a GraphQL schema whose fields
+  // a target has; the first when not set
+  schemaEntry?: string
+}
+
+// Elements of a JSON array that are profiled; larger arrays are sampled from the start
+const MAX_PROFILED_ELEMENTS = 1000
+
+// Parsers report no warnings as an empty list, record sets leave them out
+const withWarnings = (read: { records: SourceRecord[]; columns: string[]; warnings: string[] }): SourceRecordSet => ({
+  records: read.records,
+  columns: read.columns,
+  warnings: read.warnings.length > 0 ? read.warnings : undefined,
+})
 
 export class DocumentProcessor {
-  async processDocument(file: File): Promise<ProcessedDocument> {
+  async processDocument(file: File, options: SourceOptions = {}): Promise<ProcessedDocument> {
     try {
-      const format = this.detectFormat(file)
+      const source = await this.decodeTextFile(file, options)
+      const format = await this.resolveFormat(source.file, options)
       const id = Math.random().toString(36).substr(2, 9)
 
       let content = ""
       let structure: DocumentStructure = { type: "text" }
       let dataPoints: DataPoint[] = []
       let metadata: DocumentMetadata = { size: file.size, created: new Date(file.lastModified) }
+      let records: SourceRecordSet | undefined
 
       switch (format) {
-        case "csv":
-          ;({ content, structure, dataPoints } = await this.processCSV(file))
+        case "csv": {
+          let csvDialect: ResolvedCsvDialect
+          ;({ content, structure, dataPoints, records, csvDialect } = await this.processCSV(source.file, options.csv))
+          metadata.csv_dialect = csvDialect
           break
+        }
         case "txt":
-          ;({ content, structure, dataPoints } = await this.processTXT(file))
+          ;({ content, structure, dataPoints, records } = await this.processTXT(source.file))
           break
         case "json":
-          ;({ content, structure, dataPoints } = await this.processJSON(file))
+          ;({ content, structure, dataPoints, records } = await this.processJSON(source.file))
+          break
+        case "ndjson":
+          ;({ content, structure, dataPoints, records } = await this.processNDJSON(source.file))
           break
         case "xml":
-          ;({ content, structure, dataPoints } = await this.processXML(file))
+          ;({ content, structure, dataPoints, records } = await this.processXML(source.file))
           break
         case "xlsx":
-          ;({ content, structure, dataPoints, metadata } = await this.processXLSX(file))
+          ;({ content, structure, dataPoints, metadata } = await this.processXLSX(source.file, options.sheet))
           break
         case "pdf":
-          ;({ content, structure, dataPoints, metadata } = await this.processPDF(file))
+          ;({ content, structure, dataPoints, records, metadata } = await this.processPDF(source.file))
           break
         case "docx":
-          ;({ content, structure, dataPoints } = await this.processDOCX(file))
+          ;({ content, structure, dataPoints, records, metadata } = await this.processDOCX(source.file))
+          break
+        case "fixed":
+          ;({ content, structure, dataPoints, records } = await this.processFixedWidth(source.file, options.layout!))
+          break
+        case "edi":
+          ;({ content, structure, dataPoints, records } = await this.processEDI(source.file))
+          break
+        case "hl7":
+          ;({ content, structure, dataPoints, records } = await this.processHL7(source.file))
+          break
+        case "schema":
+          ;({ content, structure, dataPoints, metadata } = await this.processSchema(source.file, options.schemaEntry))
           break
         default:
           throw new Error(`Unsupported format: ${format}`)
       }
 
+      if (source.encoding) metadata.encoding = source.encoding
+
       return {
         id,
         name: file.name,
@@ -88,6 +213,7 @@ export class DocumentProcessor {
         structure,
         metadata,
         dataPoints,
+        records,
       }
     } catch (error) {
       console.error(`Error processing file ${file.name}:`, error)
@@ -95,10 +221,116 @@ export class DocumentProcessor {
     }
   }
 
+  async readRecords(original: File, options: SourceOptions = {}): Promise<SourceRecordSet> {
+    const { file } = await this.decodeTextFile(original, options)
+    const format = await this.resolveFormat(file, options)
+
+    try {
+      switch (format) {
+        case "csv":
+          return await this.readCSVRecords(file, options.csv)
+        case "json":
+          return await this.readJSONRecords(file)
+        case "ndjson":
+          return withWarnings(parseNDJSON(await file.text()))
+        case "xml":
+          return await this.readXMLRecords(file)
+        case "xlsx":
+          return await this.readXLSXRecords(file, options.sheet)
+        case "txt":
+          return await this.readTXTRecords(file)
+        case "fixed":
+          return readFixedWidth(await file.text(), options.layout!)
+        case "edi":
+          return withWarnings(readEDIRecords(await file.text()))
+        case "hl7":
+          return withWarnings(readHL7Records(await file.text()))
+        case "pdf":
+        case "docx":
+          return await this.readDocumentTableRecords(file, format)
+        case "schema":
+          throw new Error("A schema file defines the fields of a target but holds no records")
+        default:
+          throw new Error(`Unsupported format: ${format}`)
+      }
+    } catch (error) {
+      console.error(`Error reading records from ${file.name}:`, error)
+      throw new Error(
+        `Failed to read records from ${file.name}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+
+  // Field definitions from a specification document: the field tables on the sheets of a workbook,
+  // in a delimited file or in a PDF or Word document, whose text is tried when no table is found
+  async readFieldDictionary(file: File): Promise<FieldDictionaryEntry[]> {
+    const format = this.detectFormat(file)
+
+    try {
+      if (format === "xlsx") {
+        const workbook = XLSX.read(await file.arrayBuffer(), { type: "array" })
+        return workbook.SheetNames.flatMap((name) => {
+          const rows = XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[name], { header: 1, blankrows: false, raw: false })
+          return readDictionaryRows(rows.map((row) => Array.from(row, (cell) => String(cell ?? ""))), file.name)
+        })
+      }
+      if (format === "pdf" || format === "docx") {
+        const { text, tables } = format === "pdf" ? await this.extractPDF(file) : await this.extractDOCX(file)
+        const entries = readDictionaryRows(
+          tables.flatMap((table) => table.rows),
+          file.name,
+        )
+        return entries.length > 0 ? entries : readDictionaryRows(rowsFromText(text), file.name)
+      }
+
+      const { text } = await readFileText(file)
+      if (format === "csv") {
+        const dialect = sniffCSVDialect(text, { header_row: null })
+        return readDictionaryRows(parseDelimited(text, dialect.delimiter, dialect.quote), file.name)
+      }
+      return readDictionaryRows(rowsFromText(text), file.name)
+    } catch (error) {
+      throw new Error(
+        `Failed to read the field definitions in ${file.name}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+
+  // Text formats are decoded once, with the given or detected encoding, and passed on as UTF-8 so
+  // every reader can use file.text()
+  private async decodeTextFile(file: File, options: SourceOptions): Promise<{ file: File; encoding?: string }> {
+    if (!options.layout && BINARY_FORMATS.includes(this.detectFormat(file))) return { file }
+    const { text, encoding } = await readFileText(file, options.encoding)
+    return { file: new File([text], file.name, { type: file.type, lastModified: file.lastModified }), encoding }
+  }
+
+  private async resolveFormat(file: File, options: SourceOptions): Promise<DocumentFormat> {
+    if (options.layout) return "fixed"
+    const format = this.detectFormat(file)
+    // EDI interchanges and HL7 messages are often exchanged as plain .txt files, so text files are
+    // checked for an envelope or message header
+    if (format === "txt") {
+      const start = await file.slice(0, 512).text()
+      if (isEDI(start)) return "edi"
+      if (isHL7(start)) return "hl7"
+    }
+    // A JSON Schema or OpenAPI document describes the documents of a target instead of holding data
+    if (format === "json" && detectSchemaKind(file.name, await file.text())) return "schema"
+    return format
+  }
+
   private detectFormat(file: File): DocumentFormat {
     const extension = file.name.split(".").pop()?.toLowerCase()
     const mimeType = file.type.toLowerCase()
 
+    // Checked first: .jsonl files are often sent as text/plain, and the JSON check would match application/x-ndjson
+    if (extension === "jsonl" || extension === "ndjson" || mimeType.includes("ndjson") || mimeType.includes("jsonl")) {
+      return "ndjson"
+    }
+    if (extension === "edi" || extension === "x12" || extension === "edifact" || mimeType.includes("edi-")) return "edi"
+    if (extension === "hl7" || mimeType.includes("hl7")) return "hl7"
+    // Checked before XML: .xsd files are sent as application/xml
+    if (["xsd", "sql", "ddl", "yaml", "yml", "graphql", "gql", "graphqls"].includes(extension ?? "")) return "schema"
     if (extension === "csv" || mimeType.includes("csv")) return "csv"
     if (extension === "txt" || mimeType.includes("text/plain")) return "txt"
     if (extension === "json" || mimeType.includes("json")) return "json"
@@ -111,6 +343,7 @@ export class DocumentProcessor {
     if (extension === "csv") return "csv"
     if (extension === "txt") return "txt"
     if (extension === "json") return "json"
+    if (extension === "jsonl" || extension === "ndjson") return "ndjson"
     if (extension === "xml") return "xml"
     if (extension === "xlsx" || extension === "xls") return "xlsx"
     if (extension === "pdf") return "pdf"
@@ -119,33 +352,28 @@ export class DocumentProcessor {
     throw new Error(`Unsupported file format: ${file.name}`)
   }
 
-  private async processCSV(file: File) {
+  private async processCSV(file: File, overrides?: CsvDialect) {
     try {
       const text = await file.text()
-      const parsed = Papa.parse(text, {
-        header: true,
-        skipEmptyLines: true,
-        error: (error) => {
-          throw new Error(`CSV parsing error: ${error.message}`)
-        },
-      })
-
-      const columns = parsed.meta.fields || []
-      const rows = parsed.data.length
-      const dataPoints = this.analyzeTabularData(parsed.data, columns)
+      const dialect = sniffCSVDialect(text, overrides)
+      const parsed = parseCSV(text, dialect)
+      const { records, columns } = parsed
+      const dataPoints = this.analyzeTabularData(records, columns)
 
       return {
         content: text,
         structure: {
           type: "tabular" as const,
           columns,
-          rows,
+          rows: records.length,
         },
         dataPoints,
+        records: parsed,
+        csvDialect: dialect,
       }
     } catch (error) {
       console.error("CSV processing error:", error)
-      throw new Error(`CSV processing error: ${error.message}`)
+      throw new Error(`CSV processing error: ${error instanceof Error ? error.message : String(error)}`)
     }
   }
 
@@ -166,6 +394,7 @@ export class DocumentProcessor {
           sections: this.extractSections(content),
         },
         dataPoints,
+        records: this.textRecords(content),
       }
     } catch (error) {
       console.error("TXT processing error:", error)
@@ -192,6 +421,7 @@ export class DocumentProcessor {
           nested_levels: this.calculateNestingLevel(data),
         },
         dataPoints,
+        records: this.jsonRecords(data),
       }
     } catch (error) {
       console.error("JSON processing error:", error)
@@ -199,11 +429,108 @@ export class DocumentProcessor {
     }
   }
 
+  private async processNDJSON(file: File) {
+    try {
+      const content = await file.text()
+      const parsed = parseNDJSON(content)
+      const { records } = parsed
+
+      // Profile records from across the whole file, so fields that only appear in later events count
+      const sample = sampleRecords(records, 1000).map((record) => flattenRecord(record))
+      const columns = collectKeys(sample)
+
+      return {
+        content,
+        structure: {
+          type: "tabular" as const,
+          columns,
+          rows: records.length,
+        },
+        dataPoints: this.analyzeTabularData(sample, columns),
+        records: withWarnings(parsed),
+      }
+    } catch (error) {
+      console.error("NDJSON processing error:", error)
+      throw new Error(`NDJSON processing error: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  private async processEDI(file: File) {
+    try {
+      const content = await file.text()
+      const read = readEDIRecords(content)
+      const { records, columns } = read
+
+      // Repeated segments give arrays, whose type is that of their values
+      const dataPoints = this.analyzeTabularData(records, columns).map((dataPoint) => {
+        if (dataPoint.type !== "object") return dataPoint
+        const type = this.inferDataType(records.flatMap((record) => record[dataPoint.field] ?? []))
+        return type !== "object" ? { ...dataPoint, type, format: undefined } : dataPoint
+      })
+
+      return {
+        content,
+        structure: {
+          type: "hierarchical" as const,
+          // Interchange, message, segment and element
+          nested_levels: 4,
+          // Segment paths such as "N1[BY]", in the order they first appear
+          sections: [...new Set(columns.map((column) => column.split(".")[0]))],
+          rows: records.length,
+        },
+        dataPoints,
+        records: withWarnings(read),
+      }
+    } catch (error) {
+      console.error("EDI processing error:", error)
+      throw new Error(`EDI processing error: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  private async processHL7(file: File) {
+    try {
+      const content = await file.text()
+      const read = readHL7Records(content)
+      const { records, columns } = read
+
+      // Types from the standard segment definitions win over what the values look like, so that
+      // e.g. a patient identifier of digits stays text and PID-7 is a date
+      const dataPoints = this.analyzeTabularData(records, columns).map((dataPoint) => {
+        // Repeated segments give arrays, whose type is that of their values
+        const values = records.flatMap((record) => record[dataPoint.field] ?? [])
+        const type =
+          getFieldDataType(dataPoint.field) ?? (dataPoint.type === "object" ? this.inferDataType(values) : undefined)
+        return type && type !== dataPoint.type ? { ...dataPoint, type, format: undefined } : dataPoint
+      })
+
+      return {
+        content,
+        structure: {
+          type: "hierarchical" as const,
+          // Message, segment, field, component and subcomponent
+          nested_levels: 5,
+          sections: [...new Set(columns.map((column) => column.split("-")[0]))],
+          rows: records.length,
+        },
+        dataPoints,
+        records: withWarnings(read),
+      }
+    } catch (error) {
+      console.error("HL7 processing error:", error)
+      throw new Error(`HL7 processing error: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
   private async processXML(file: File) {
     try {
       const text = await file.text()
 
-      return new Promise<{ content: string; structure: DocumentStructure; dataPoints: DataPoint[] }>(
+      return new Promise<{
+        content: string
+        structure: DocumentStructure
+        dataPoints: DataPoint[]
+        records: SourceRecordSet
+      }>(
         (resolve, reject) => {
           parseString(text, (err, result) => {
             if (err) {
@@ -221,6 +548,7 @@ export class DocumentProcessor {
                   nested_levels: this.calculateNestingLevel(result),
                 },
                 dataPoints,
+                records: this.xmlRecords(result),
               })
             } catch (error) {
               reject(new Error(`XML analysis error: ${error.message}`))
@@ -234,10 +562,32 @@ export class DocumentProcessor {
     }
   }
 
-  private async processXLSX(file: File) {
+  private async processFixedWidth(file: File, layout: FixedWidthLayout) {
+    try {
+      const content = await file.text()
+      const read = readFixedWidth(content, layout)
+      const { records, columns } = read
+
+      return {
+        content,
+        structure: {
+          type: "tabular" as const,
+          columns,
+          rows: records.length,
+        },
+        dataPoints: this.analyzeTabularData(records, columns),
+        records: read,
+      }
+    } catch (error) {
+      console.error("Fixed-width processing error:", error)
+      throw new Error(`Fixed-width processing error: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  private async processXLSX(file: File, sheet?: string) {
     try {
       const buffer = await file.arrayBuffer()
-      let workbook
+      let workbook: XLSX.WorkBook
 
       try {
         workbook = XLSX.read(buffer, { type: "array" })
@@ -250,52 +600,37 @@ export class DocumentProcessor {
         throw new Error("XLSX file contains no sheets")
       }
 
-      const firstSheet = workbook.Sheets[sheetNames[0]]
-      const jsonData = XLSX.utils.sheet_to_json(firstSheet, { header: 1 })
-
-      if (jsonData.length === 0) {
-        return {
-          content: "",
-          structure: {
-            type: "tabular" as const,
-            columns: [],
-            rows: 0,
-          },
-          dataPoints: [],
-          metadata: {
-            size: file.size,
-            sheets: sheetNames,
-          },
-        }
-      }
-
-      const headers = jsonData[0] as string[]
-      const dataRows = jsonData.slice(1)
-      const dataPoints = this.analyzeTabularData(
-        dataRows.map((row) => {
-          const obj: any = {}
-          headers.forEach((header, index) => {
-            if (header) {
-              // Skip empty headers
-              obj[header] = row[index]
-            }
-          })
-          return obj
-        }),
-        headers.filter(Boolean), // Filter out empty headers
-      )
+      const recordSheet = this.resolveSheetName(sheetNames, sheet)
+      const sheets = sheetNames.map((name) => this.readSheetRows(workbook, name))
+      const records = sheets.find((candidate) => candidate.name === recordSheet)!
+
+      // Every sheet is profiled; fields of the other sheets get sheet-qualified names
+      const dataPoints = [
+        ...this.analyzeTabularData(records.rows, records.columns),
+        ...sheets
+          .filter((other) => other !== records)
+          .flatMap((other) =>
+            this.analyzeTabularData(other.rows, other.columns).map((dataPoint) => ({
+              ...dataPoint,
+              field: qualifySheetField(other.name, dataPoint.field),
+              sheet: other.name,
+            })),
+          ),
+      ]
 
       return {
-        content: XLSX.utils.sheet_to_csv(firstSheet),
+        content: XLSX.utils.sheet_to_csv(workbook.Sheets[recordSheet]),
         structure: {
           type: "tabular" as const,
-          columns: headers.filter(Boolean),
-          rows: dataRows.length,
+          columns: records.columns,
+          rows: records.rows.length,
         },
         dataPoints,
         metadata: {
           size: file.size,
           sheets: sheetNames,
+          record_sheet: recordSheet,
+          sheet_profiles: sheets.map(({ name, rows, columns }) => ({ name, rows: rows.length, columns })),
         },
       }
     } catch (error) {
@@ -304,29 +639,37 @@ export class DocumentProcessor {
     }
   }
 
-  private async processPDF(file: File) {
-    try {
-      const buffer = await file.arrayBuffer()
-      let data
+  private resolveSheetName(sheetNames: string[], sheet?: string): string {
+    if (!sheet) return sheetNames[0]
+    if (!sheetNames.includes(sheet)) {
+      throw new Error(`Sheet "${sheet}" does not exist; the workbook has ${sheetNames.join(", ")}`)
+    }
+    return sheet
+  }
 
-      try {
-        data = await pdf(Buffer.from(buffer))
-      } catch (pdfError) {
-        throw new Error(`PDF parsing error: ${pdfError.message}`)
-      }
+  private readSheetRows(workbook: XLSX.WorkBook, name: string): SheetRows {
+    const sheet = workbook.Sheets[name]
+    const rows = XLSX.utils.sheet_to_json<SourceRecord>(sheet, { defval: null })
+    // The header row also gives the columns of a sheet without data rows; columns without a header are skipped
+    const [header = []] = XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1, blankrows: false })
+    const columns = [...new Set(header.filter((cell) => cell !== null && cell !== undefined && String(cell).trim() !== "").map(String))]
+    return { name, rows, columns }
+  }
 
-      const dataPoints = this.analyzeTextData(data.text)
+  private async processPDF(file: File) {
+    try {
+      const { text, tables, pages } = await this.extractPDF(file)
+      const { structure, dataPoints } = this.analyzeDocumentTables(tables, text, file.name)
 
       return {
-        content: data.text,
-        structure: {
-          type: "text" as const,
-          sections: this.extractSections(data.text),
-        },
+        content: text,
+        structure,
         dataPoints,
+        records: this.tableRecords(tables) ?? undefined,
         metadata: {
           size: file.size,
-          pages: data.numpages,
+          pages,
+          table_count: tables.length,
         },
       }
     } catch (error) {
@@ -337,31 +680,312 @@ export class DocumentProcessor {
 
   private async processDOCX(file: File) {
     try {
-      const buffer = await file.arrayBuffer()
-      let result
+      const { text, tables } = await this.extractDOCX(file)
+      const { structure, dataPoints } = this.analyzeDocumentTables(tables, text, file.name)
 
-      try {
-        result = await mammoth.extractRawText({ buffer })
-      } catch (docxError) {
-        throw new Error(`DOCX parsing error: ${docxError.message}`)
+      return {
+        content: text,
+        structure,
+        dataPoints,
+        records: this.tableRecords(tables) ?? undefined,
+        metadata: {
+          size: file.size,
+          table_count: tables.length,
+        },
       }
+    } catch (error) {
+      console.error("DOCX processing error:", error)
+      throw new Error(`DOCX processing error: ${error.message}`)
+    }
+  }
+
+  // The pages are rendered from their positioned text items instead of the plain text, so the cells
+  // of a table stay apart in the text and the tables can be found from the layout
+  private async extractPDF(file: File): Promise<{ text: string; tables: ExtractedTable[]; pages: number }> {
+    const pages: TextLine[][] = []
+    let data
+
+    try {
+      data = await pdf(Buffer.from(await file.arrayBuffer()), {
+        pagerender: async (pageData: any) => {
+          const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false })
+          const lines = linesFromPdfItems(
+            content.items.map((item: any) => ({
+              text: item.str,
+              x: item.transform[4],
+              y: item.transform[5],
+              width: item.width,
+              height: item.height,
+            })),
+          )
+          pages.push(lines)
+          return lines.map(lineText).join("\n")
+        },
+      })
+    } catch (pdfError) {
+      throw new Error(`PDF parsing error: ${pdfError instanceof Error ? pdfError.message : String(pdfError)}`)
+    }
+
+    return {
+      text: data.text,
+      tables: pages.flatMap((lines, index) => tablesFromPdfLines(lines, index + 1)),
+      pages: data.numpages,
+    }
+  }
 
-      const dataPoints = this.analyzeTextData(result.value)
+  // The raw text keeps the paragraphs; the HTML conversion keeps the rows and cells of the tables
+  private async extractDOCX(file: File): Promise<{ text: string; tables: ExtractedTable[] }> {
+    const buffer = Buffer.from(await file.arrayBuffer())
+
+    try {
+      const [raw, html] = await Promise.all([mammoth.extractRawText({ buffer }), mammoth.convertToHtml({ buffer })])
+      return { text: raw.value, tables: tablesFromHTML(html.value) }
+    } catch (docxError) {
+      throw new Error(`DOCX parsing error: ${docxError instanceof Error ? docxError.message : String(docxError)}`)
+    }
+  }
+
+  // A specification table gives the fields it defines; otherwise the largest table is profiled as
+  // data. Without tables only the patterns in the text are left.
+  private analyzeDocumentTables(
+    tables: ExtractedTable[],
+    text: string,
+    name: string,
+  ): { structure: DocumentStructure; dataPoints: DataPoint[] } {
+    const sections = this.extractSections(text)
+    if (tables.length === 0) {
+      return { structure: { type: "text", sections }, dataPoints: this.analyzeTextData(text) }
+    }
+
+    const dictionary = readDictionaryRows(
+      tables.flatMap((table) => table.rows),
+      name,
+    )
+    if (dictionary.length > 0) {
+      return {
+        structure: { type: "mixed", sections, columns: dictionary.map((entry) => entry.name), rows: dictionary.length },
+        dataPoints: this.definitionDataPoints(dictionary),
+      }
+    }
+
+    const { records, columns } = tableToRecords(largestTable(tables)!)
+    return {
+      structure: { type: "mixed", sections, columns, rows: records.length },
+      dataPoints: this.analyzeTabularData(records, columns),
+    }
+  }
+
+  // A defined field stands in for a data field: its allowed values are the samples
+  private definitionDataPoints(entries: FieldDictionaryEntry[]): DataPoint[] {
+    return entries.map((entry) => ({
+      field: entry.name,
+      type: entry.type ?? "string",
+      sample_values: entry.allowed_values ?? [],
+      null_count: 0,
+      unique_count: entry.allowed_values?.length ?? 0,
+      ...(entry.pattern && { pattern: entry.pattern }),
+      ...(entry.description && { description: entry.description }),
+    }))
+  }
+
+  // A JSON Schema, XSD, SQL DDL script, OpenAPI document or GraphQL schema gives the fields of a
+  // target with their exact types and constraints; it holds no records
+  private async processSchema(file: File, schemaEntry?: string) {
+    const text = await file.text()
+
+    try {
+      const kind = detectSchemaKind(file.name, text)
+      if (!kind) throw new Error("The file is not a JSON Schema, XSD, SQL DDL, OpenAPI or GraphQL schema")
+      const { fields, warnings, entries, entry } = await readSchemaFields(kind, text, file.name, schemaEntry)
+      const nested = fields.filter((field) => field.name.includes(".")).length
 
       return {
-        content: result.value,
+        content: text,
         structure: {
-          type: "text" as const,
-          sections: this.extractSections(result.value),
+          type: nested > 0 ? ("hierarchical" as const) : ("tabular" as const),
+          columns: fields.map((field) => field.name),
+          nested_levels: Math.max(0, ...fields.map((field) => field.name.split(".").length - 1)),
+        },
+        dataPoints: this.definitionDataPoints(fields),
+        metadata: {
+          size: file.size,
+          schema_kind: kind,
+          field_definitions: fields,
+          ...(warnings.length > 0 && { schema_warnings: warnings }),
+          ...(entries && { schema_entries: entries, schema_entry: entry }),
         },
-        dataPoints,
       }
     } catch (error) {
-      console.error("DOCX processing error:", error)
-      throw new Error(`DOCX processing error: ${error.message}`)
+      throw new Error(`Schema processing error: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  private async readDocumentTableRecords(file: File, format: DocumentFormat): Promise<SourceRecordSet> {
+    const { tables } = format === "pdf" ? await this.extractPDF(file) : await this.extractDOCX(file)
+    const records = this.tableRecords(tables)
+    if (!records) throw new Error("The document contains no table to read records from")
+    return records
+  }
+
+  // Records of the largest table of a PDF or Word document
+  private tableRecords(tables: ExtractedTable[]): SourceRecordSet | null {
+    const table = largestTable(tables)
+    if (!table) return null
+
+    const { records, columns } = tableToRecords(table)
+    return {
+      records,
+      columns,
+      warnings: tables.length > 1 ? [`Records were read from the largest of the ${tables.length} tables`] : undefined,
+    }
+  }
+
+  private async readCSVRecords(file: File, overrides?: CsvDialect): Promise<SourceRecordSet> {
+    const text = await file.text()
+    return parseCSV(text, sniffCSVDialect(text, overrides))
+  }
+
+  private async readJSONRecords(file: File): Promise<SourceRecordSet> {
+    const text = await file.text()
+    let data
+    try {
+      data = JSON.parse(text)
+    } catch (parseError) {
+      throw new Error(`Invalid JSON format: ${parseError instanceof Error ? parseError.message : parseError}`)
+    }
+    return this.jsonRecords(data)
+  }
+
+  private jsonRecords(data: any): SourceRecordSet {
+    const toRecord = (item: any): SourceRecord =>
+      typeof item === "object" && item !== null && !Array.isArray(item) ? item : { value: item }
+
+    if (Array.isArray(data)) {
+      const records = data.map(toRecord)
+      return { records, columns: this.collectColumns(records) }
+    }
+
+    const recordPath = this.findRecordPath(data)
+    if (recordPath) {
+      const records = (this.resolvePath(data, recordPath) as any[]).map(toRecord)
+      return { records, columns: this.collectColumns(records), recordPath }
+    }
+
+    return { records: [toRecord(data)], columns: this.collectColumns([toRecord(data)]) }
+  }
+
+  private async readXMLRecords(file: File): Promise<SourceRecordSet> {
+    const text = await file.text()
+
+    const parsed = await new Promise<any>((resolve, reject) => {
+      parseString(text, (err: Error | null, result: any) => {
+        if (err) {
+          reject(new Error(`XML parsing error: ${err.message}`))
+          return
+        }
+        resolve(result)
+      })
+    })
+
+    return this.xmlRecords(parsed)
+  }
+
+  private xmlRecords(parsed: any): SourceRecordSet {
+    const recordPath = this.findRecordPath(parsed)
+    const records: SourceRecord[] = recordPath ? this.resolvePath(parsed, recordPath) : [parsed]
+
+    return { records, columns: this.collectColumns(records), recordPath: recordPath || undefined }
+  }
+
+  private async readXLSXRecords(file: File, sheet?: string): Promise<SourceRecordSet> {
+    const buffer = await file.arrayBuffer()
+    const workbook = XLSX.read(buffer, { type: "array", cellDates: true })
+
+    if (workbook.SheetNames.length === 0) {
+      throw new Error("XLSX file contains no sheets")
+    }
+
+    const recordSheet = this.resolveSheetName(workbook.SheetNames, sheet)
+    const records = this.readSheetRows(workbook, recordSheet)
+    const others = workbook.SheetNames.filter((name) => name !== recordSheet).map((name) =>
+      this.readSheetRows(workbook, name),
+    )
+
+    const linked = attachSheetFields(records, others)
+    return {
+      records: linked.records,
+      columns: linked.columns,
+      sheet: recordSheet,
+      warnings: linked.warnings.length > 0 ? linked.warnings : undefined,
+    }
+  }
+
+  private async readTXTRecords(file: File): Promise<SourceRecordSet> {
+    return this.textRecords(await file.text())
+  }
+
+  private textRecords(content: string): SourceRecordSet {
+    const lines = content.split("\n").filter((line) => line.trim())
+    const keyValuePattern = /^([^:]+):\s*(.+)$/
+    const keyValueLines = lines.filter((line) => keyValuePattern.test(line))
+
+    // Mostly "Key: value" lines describe a single record, anything else is one record per line
+    if (keyValueLines.length > 0 && keyValueLines.length / lines.length > 0.5) {
+      const record: SourceRecord = {}
+      keyValueLines.forEach((line) => {
+        const [, key, value] = line.match(keyValuePattern) as RegExpMatchArray
+        record[key.trim()] = value.trim()
+      })
+      return { records: [record], columns: Object.keys(record) }
+    }
+
+    return {
+      records: lines.map((line) => ({ text_content: line.trim() })),
+      columns: ["text_content"],
     }
   }
 
+  // Finds the first array of objects in a parsed document, preferring arrays with several entries
+  private findRecordPath(data: any): string | null {
+    let fallback: string | null = null
+    const queue: Array<{ value: any; path: string }> = [{ value: data, path: "" }]
+
+    while (queue.length > 0) {
+      const { value, path } = queue.shift()!
+      if (typeof value !== "object" || value === null || Array.isArray(value)) continue
+
+      for (const [key, child] of Object.entries(value)) {
+        if (key === "$") continue
+        const childPath = path ? `${path}.${key}` : key
+
+        if (Array.isArray(child)) {
+          if (child.length > 0 && child.every((item) => typeof item === "object" && item !== null)) {
+            if (child.length > 1) return childPath
+            fallback = fallback ?? childPath
+            queue.push({ value: child[0], path: childPath })
+          }
+        } else if (typeof child === "object" && child !== null) {
+          queue.push({ value: child, path: childPath })
+        }
+      }
+    }
+
+    return fallback
+  }
+
+  private resolvePath(data: any, path: string): any {
+    return path.split(".").reduce((current, key) => {
+      const container = Array.isArray(current) ? current[0] : current
+      return container?.[key]
+    }, data)
+  }
+
+  private collectColumns(records: SourceRecord[]): string[] {
+    const columns = new Set<string>()
+    records.slice(0, 100).forEach((record) => Object.keys(record).forEach((key) => columns.add(key)))
+    return [...columns]
+  }
+
   private analyzeTabularData(data: any[], columns: string[]): DataPoint[] {
     try {
       return columns
@@ -370,14 +994,18 @@ export class DocumentProcessor {
 
           const values = data.map((row) => row[column]).filter((val) => val != null)
           const uniqueValues = [...new Set(values)]
+          const type = this.inferDataType(values)
+          const format = this.detectValueFormat(values, type)
 
           return {
             field: column,
-            type: this.inferDataType(values),
+            type,
             sample_values: uniqueValues.slice(0, 5),
             null_count: data.length - values.length,
             unique_count: uniqueValues.length,
             pattern: this.detectPattern(values),
+            format,
+            profile: profileColumn(values, type, format),
           }
         })
         .filter(Boolean) // Remove null entries
@@ -387,26 +1015,23 @@ export class DocumentProcessor {
     }
   }
 
+  // Every element of an array is visited under the path of the first ("orders[0].id"), so the values of
+  // a field are profiled across all records
   private analyzeJSONData(data: any, prefix = ""): DataPoint[] {
     try {
-      const dataPoints: DataPoint[] = []
+      const nodes = new Map<string, { array?: any[]; values: any[] }>()
 
       const traverse = (obj: any, path: string) => {
         if (!obj) return
 
         if (Array.isArray(obj)) {
           if (obj.length > 0) {
-            dataPoints.push({
-              field: path || "root",
-              type: "array",
-              sample_values: obj.slice(0, 3),
-              null_count: 0,
-              unique_count: obj.length,
-            })
+            const field = path || "root"
+            if (!nodes.has(field)) nodes.set(field, { array: obj, values: [] })
 
             // Analyze array elements if they're objects
             if (typeof obj[0] === "object" && obj[0] !== null) {
-              traverse(obj[0], `${path}[0]`)
+              obj.slice(0, MAX_PROFILED_ELEMENTS).forEach((element) => traverse(element, `${path}[0]`))
             }
           }
         } else if (typeof obj === "object" && obj !== null) {
@@ -417,21 +1042,38 @@ export class DocumentProcessor {
             if (Array.isArray(value) || (typeof value === "object" && value !== null)) {
               traverse(value, newPath)
             } else {
-              dataPoints.push({
-                field: newPath,
-                type: this.inferDataType([value]),
-                sample_values: [value],
-                null_count: value == null ? 1 : 0,
-                unique_count: 1,
-                pattern: this.detectPattern([value]),
-              })
+              if (!nodes.has(newPath)) nodes.set(newPath, { values: [] })
+              nodes.get(newPath)!.values.push(value)
             }
           })
         }
       }
 
       traverse(data, prefix)
-      return dataPoints
+      return [...nodes.entries()].map(([field, { array, values }]) => {
+        if (array) {
+          return {
+            field,
+            type: "array" as const,
+            sample_values: array.slice(0, 3),
+            null_count: 0,
+            unique_count: array.length,
+          }
+        }
+
+        const present = values.filter((value) => value != null)
+        const uniqueValues = [...new Set(present)]
+        const type = this.inferDataType(present)
+        return {
+          field,
+          type,
+          sample_values: uniqueValues.slice(0, 5),
+          null_count: values.length - present.length,
+          unique_count: uniqueValues.length,
+          pattern: this.detectPattern(present),
+          profile: profileColumn(present, type, this.detectValueFormat(present, type)),
+        }
+      })
     } catch (error) {
       console.error("Error analyzing JSON data:", error)
       return [] // Return empty array on error
@@ -483,8 +1125,10 @@ export class DocumentProcessor {
       const sample = values.filter((v) => v != null)
       if (sample.length === 0) return "string"
 
-      // Check if all values are numbers
-      if (sample.every((v) => !isNaN(Number(v)) && isFinite(Number(v)))) {
+      // Check if all values are numbers, including locale formats such as 1.234,56 or € 12,50
+      // Number(true) is 1, so booleans are excluded before the numeric check
+      const isNumeric = (v: any) => typeof v !== "boolean" && !isNaN(Number(v)) && isFinite(Number(v))
+      if (sample.every(isNumeric) || detectNumberFormat(sample)) {
         return "number"
       }
 
@@ -493,8 +1137,8 @@ export class DocumentProcessor {
         return "boolean"
       }
 
-      // Check if all values are dates
-      if (sample.every((v) => !isNaN(Date.parse(String(v))))) {
+      // Check if all values are dates; Date.parse alone misreads day-first dates such as 15-01-2024
+      if (detectDatePattern(sample) || sample.every((v) => parseDateAuto(v))) {
         return "date"
       }
 
@@ -510,6 +1154,19 @@ export class DocumentProcessor {
     }
   }
 
+  private detectValueFormat(values: any[], type: DataPoint["type"]): FormatSpec | undefined {
+    try {
+      if (type === "date") {
+        const datePattern = detectDatePattern(values)
+        return datePattern ? { date_pattern: datePattern } : undefined
+      }
+      return type === "number" ? detectNumberFormat(values) : undefined
+    } catch (error) {
+      console.error("Error detecting value format:", error)
+      return undefined
+    }
+  }
+
   private detectPattern(values: any[]): string | undefined {
     try {
       if (values.length === 0) return undefined
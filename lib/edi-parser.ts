@@ -0,0 +1,246 @@
+export type EdiStandard = "X12" | "EDIFACT"
+
+export interface EdiSegment {
+  tag: string
+  // Elements split into their components; a simple element has one component
+  elements: string[][]
+}
+
+export interface EdiMessage {
+  // Transaction set or message type, e.g. "850" or "ORDERS"
+  type: string
+  control: string
+  // Interchange and group headers the message was sent in
+  envelope: EdiSegment[]
+  segments: EdiSegment[]
+}
+
+export interface EdiInterchange {
+  standard: EdiStandard
+  messages: EdiMessage[]
+  warnings: string[]
+}
+
+interface Separators {
+  segment: string
+  element: string
+  component: string
+  release?: string
+}
+
+// Segments whose first element says what the segment is about ("N1*BY" is the buyer, "DTM+137"
+// the document date). Their paths carry that qualifier, so repeats can be mapped one by one.
+const QUALIFIED_SEGMENTS: Record<EdiStandard, string[]> = {
+  X12: ["N1", "NM1", "N9", "REF", "DTM", "PER", "AMT", "QTY", "CUR", "TXI"],
+  EDIFACT: ["NAD", "RFF", "DTM", "MOA", "QTY", "PRI", "LOC", "FTX", "CTA", "CUX", "TAX", "ALC", "PCD"],
+}
+
+const HEADER_SEGMENTS = ["ISA", "GS", "UNB", "UNG"]
+const TRAILER_SEGMENTS = ["SE", "GE", "IEA", "UNT", "UNE", "UNZ"]
+
+export function isEDI(text: string): boolean {
+  return /^\s*(ISA.|UNA.{6}|UNB\+)/.test(text)
+}
+
+function readSeparators(text: string): { standard: EdiStandard; separators: Separators; body: string } {
+  const body = text.replace(/^\s+/, "")
+
+  if (body.startsWith("ISA")) {
+    // The ISA segment has a fixed length: the element separator follows "ISA", the component
+    // separator is its last element and the segment terminator comes right after it
+    if (body.length < 106) throw new Error("The ISA segment is incomplete")
+    return {
+      standard: "X12",
+      separators: { element: body[3], component: body[104], segment: body[105] },
+      body,
+    }
+  }
+
+  if (body.startsWith("UNA")) {
+    return {
+      standard: "EDIFACT",
+      separators: { component: body[3], element: body[4], release: body[6], segment: body[8] },
+      body: body.slice(9),
+    }
+  }
+
+  if (body.startsWith("UNB")) {
+    return { standard: "EDIFACT", separators: { component: ":", element: "+", release: "?", segment: "'" }, body }
+  }
+
+  throw new Error("The document does not start with an ISA, UNA or UNB segment")
+}
+
+// Splits on a separator unless it is escaped with the release character
+function split(text: string, separator: string, release?: string): string[] {
+  const parts: string[] = []
+  let part = ""
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (release && char === release && i + 1 < text.length) {
+      part += char + text[++i]
+    } else if (char === separator) {
+      parts.push(part)
+      part = ""
+    } else {
+      part += char
+    }
+  }
+
+  parts.push(part)
+  return parts
+}
+
+const unescape = (value: string, release?: string) =>
+  release ? value.replace(new RegExp(`\\${release}(.)`, "g"), "$1") : value
+
+function parseSegments(body: string, separators: Separators, standard: EdiStandard): EdiSegment[] {
+  return split(body, separators.segment, separators.release)
+    .map((segment) => segment.replace(/^[\r\n\s]+|[\r\n]+$/g, ""))
+    .filter(Boolean)
+    .map((segment) => {
+      const [tag, ...elements] = split(segment, separators.element, separators.release)
+      return {
+        tag: tag.trim(),
+        elements: elements.map((element) =>
+          // ISA16 is the component separator itself and must not be split
+          tag === "ISA" && standard === "X12"
+            ? [element]
+            : split(element, separators.component, separators.release).map((c) => unescape(c, separators.release)),
+        ),
+      }
+    })
+}
+
+// Groups the segments into messages: ST..SE for X12 and UNH..UNT for EDIFACT
+export function parseEDI(text: string): EdiInterchange {
+  const { standard, separators, body } = readSeparators(text)
+  const segments = parseSegments(body, separators, standard)
+  const [start, end] = standard === "X12" ? ["ST", "SE"] : ["UNH", "UNT"]
+
+  const messages: EdiMessage[] = []
+  const warnings: string[] = []
+  const envelope = new Map<string, EdiSegment>()
+  let current: EdiMessage | null = null
+
+  segments.forEach((segment) => {
+    if (HEADER_SEGMENTS.includes(segment.tag)) {
+      envelope.set(segment.tag, segment)
+    } else if (segment.tag === start) {
+      current = {
+        // UNH+1+ORDERS:D:96A:UN: the message type is the first component of the second element
+        type: standard === "X12" ? segment.elements[0]?.[0] || "" : segment.elements[1]?.[0] || "",
+        control: standard === "X12" ? segment.elements[1]?.[0] || "" : segment.elements[0]?.[0] || "",
+        envelope: [...envelope.values()],
+        segments: [segment],
+      }
+    } else if (segment.tag === end && current) {
+      // The trailer counts the segments of the message including header and trailer
+      const counted = Number(segment.elements[0]?.[0])
+      const actual = current.segments.length + 1
+      if (counted && counted !== actual) {
+        warnings.push(`Message ${current.control} declares ${counted} segments but has ${actual}`)
+      }
+      messages.push(current)
+      current = null
+    } else if (current) {
+      current.segments.push(segment)
+    } else if (!TRAILER_SEGMENTS.includes(segment.tag)) {
+      warnings.push(`Segment ${segment.tag} outside a message was skipped`)
+    }
+  })
+
+  if (current) {
+    warnings.push(`Message ${(current as EdiMessage).control} has no ${end} trailer`)
+    messages.push(current)
+  }
+
+  return { standard, messages, warnings }
+}
+
+const position = (index: number) => String(index + 1).padStart(2, "0")
+
+// Path of a segment within its message: "N1[BY]" for qualified segments, the tag otherwise
+function segmentPath(segment: EdiSegment, standard: EdiStandard): string {
+  const qualifier = segment.elements[0]?.[0]?.trim()
+  return QUALIFIED_SEGMENTS[standard].includes(segment.tag) && qualifier ? `${segment.tag}[${qualifier}]` : segment.tag
+}
+
+// Segment paths that occur more than once in a message of the interchange, such as PO1 lines
+function repeatingSegmentPaths(messages: EdiMessage[], standard: EdiStandard): Set<string> {
+  const repeating = new Set<string>()
+  messages.forEach((message) => {
+    const seen = new Set<string>()
+    ;[...message.envelope, ...message.segments].forEach((segment) => {
+      const path = segmentPath(segment, standard)
+      if (seen.has(path)) repeating.add(path)
+      seen.add(path)
+    })
+  })
+  return repeating
+}
+
+// One flat record per message, keyed by paths such as "N1[BY].N102" or "RFF[ON].RFF01-02" (the
+// second component of a composite element). A repeating segment gives a list in every record, even
+// where it occurs once, with one entry per segment and null where it lacks the element, so lines
+// stay aligned; other segments give single values.
+export function messageToRecord(
+  message: EdiMessage,
+  standard: EdiStandard,
+  repeating = repeatingSegmentPaths([message], standard),
+): Record<string, any> {
+  const occurrences = new Map<string, Map<string, string>[]>()
+
+  ;[...message.envelope, ...message.segments].forEach((segment) => {
+    const path = segmentPath(segment, standard)
+    const values = new Map<string, string>()
+    segment.elements.forEach((components, elementIndex) => {
+      const element = `${path}.${segment.tag}${position(elementIndex)}`
+      // Fixed-length elements such as ISA02 are padded with spaces, so blank values count as empty
+      if (components.length === 1) {
+        if (components[0].trim() !== "") values.set(element, components[0].trim())
+      } else {
+        components.forEach((component, componentIndex) => {
+          if (component.trim() !== "") values.set(`${element}-${position(componentIndex)}`, component.trim())
+        })
+      }
+    })
+    const segments = occurrences.get(path)
+    if (segments) {
+      segments.push(values)
+    } else {
+      occurrences.set(path, [values])
+    }
+  })
+
+  const record: Record<string, any> = {}
+  occurrences.forEach((segments, segment) => {
+    const paths = new Set(segments.flatMap((values) => [...values.keys()]))
+    paths.forEach((path) => {
+      const perSegment = segments.map((values) => values.get(path) ?? null)
+      record[path] = repeating.has(segment) ? perSegment : perSegment[0]
+    })
+  })
+  return record
+}
+
+export function readEDIRecords(text: string): {
+  records: Record<string, any>[]
+  columns: string[]
+  warnings: string[]
+  standard: EdiStandard
+} {
+  const interchange = parseEDI(text)
+  if (interchange.messages.length === 0) {
+    throw new Error(`The ${interchange.standard} interchange contains no messages`)
+  }
+
+  // A segment that repeats in one message is a list in all of them, so each path has one shape
+  const repeating = repeatingSegmentPaths(interchange.messages, interchange.standard)
+  const records = interchange.messages.map((message) => messageToRecord(message, interchange.standard, repeating))
+  const columns = new Set<string>()
+  records.forEach((record) => Object.keys(record).forEach((key) => columns.add(key)))
+
+  return { records, columns: [...columns], warnings: interchange.warnings, standard: interchange.standard }
+}
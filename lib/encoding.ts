@@ -0,0 +1,78 @@
+export const TEXT_ENCODINGS = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "windows-1252", label: "Windows-1252 (Western European)" },
+  { value: "iso-8859-1", label: "ISO-8859-1 (Latin-1)" },
+  { value: "iso-8859-15", label: "ISO-8859-15 (Latin-9)" },
+  { value: "utf-16le", label: "UTF-16 LE" },
+  { value: "utf-16be", label: "UTF-16 BE" },
+]
+
+export interface DetectedEncoding {
+  encoding: string
+  // Whether the file starts with a byte order mark, which is dropped when decoding
+  bom: boolean
+}
+
+// Binary formats are read as bytes and never decoded as text
+export const BINARY_FORMATS = ["xlsx", "pdf", "docx"]
+
+export function isSupportedEncoding(encoding: string): boolean {
+  try {
+    new TextDecoder(encoding)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function detectBOM(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8"
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le"
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be"
+  return null
+}
+
+// Text in UTF-16 without a BOM has a zero byte next to nearly every ASCII character
+function detectUTF16(bytes: Uint8Array): string | null {
+  const sample = bytes.subarray(0, 4096)
+  let evenZeros = 0
+  let oddZeros = 0
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) i % 2 === 0 ? evenZeros++ : oddZeros++
+  }
+
+  const pairs = Math.floor(sample.length / 2)
+  if (pairs === 0) return null
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return "utf-16le"
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return "utf-16be"
+  return null
+}
+
+// BOM first, then UTF-16 and UTF-8 by their byte patterns. Anything that is not valid UTF-8 is
+// taken as Windows-1252, the usual encoding of exports from older Windows systems.
+export function detectEncoding(bytes: Uint8Array): DetectedEncoding {
+  const bom = detectBOM(bytes)
+  if (bom) return { encoding: bom, bom: true }
+
+  const utf16 = detectUTF16(bytes)
+  if (utf16) return { encoding: utf16, bom: false }
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes)
+    return { encoding: "utf-8", bom: false }
+  } catch {
+    return { encoding: "windows-1252", bom: false }
+  }
+}
+
+// Decodes with the given encoding or the detected one; a BOM is never part of the text
+export function decodeText(data: ArrayBuffer | Uint8Array, encoding?: string): { text: string; encoding: string } {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+  const resolved = encoding || detectEncoding(bytes).encoding
+  const text = new TextDecoder(resolved).decode(bytes)
+  return { text: text.replace(/^\uFEFF/, ""), encoding: resolved }
+}
+
+export async function readFileText(file: Blob, encoding?: string): Promise<{ text: string; encoding: string }> {
+  return decodeText(await file.arrayBuffer(), encoding)
+}
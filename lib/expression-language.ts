@@ -0,0 +1,705 @@
+import { formatDate, parseDate, parseDateAuto } from "@/lib/date-format"
+import type { DataPoint } from "@/lib/document-processor"
+
+// Expressions are stored in transformation_logic with a leading "=", e.g.
+//   =upper(trim(first_name)) & " " & last_name
+//   =if(country = "NL", postcode, "")
+//   =format_date(date(birth_date, "dd-MM-yyyy"), "yyyy-MM-dd")
+// Field names that are not plain identifiers can be quoted with backticks: `Order Date`.
+// Only the functions registered below can be called, so stored configurations cannot run arbitrary code.
+
+export type ExpressionType = "string" | "number" | "boolean" | "date" | "null" | "any"
+
+export type BinaryOperator = "+" | "-" | "*" | "/" | "%" | "&" | "=" | "!=" | "<" | ">" | "<=" | ">=" | "and" | "or"
+
+export type ExpressionNode =
+  | { kind: "literal"; value: string | number | boolean | null }
+  | { kind: "field"; name: string }
+  | { kind: "unary"; operator: "-" | "not"; operand: ExpressionNode }
+  | { kind: "binary"; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: "call"; name: string; args: ExpressionNode[] }
+
+export interface ExpressionCheckResult {
+  type: ExpressionType
+  fields: string[]
+  errors: string[]
+  warnings: string[]
+}
+
+export type FieldTypes = Record<string, DataPoint["type"]>
+
+type FieldResolver = (field: string) => any
+
+interface Token {
+  type: "number" | "string" | "identifier" | "field" | "operator" | "(" | ")" | "," | "eof"
+  value: string
+  position: number
+}
+
+interface FunctionDefinition {
+  params: ExpressionType[]
+  optional?: number
+  variadic?: ExpressionType
+  returns: ExpressionType | ((argTypes: ExpressionType[]) => ExpressionType)
+  evaluate: (...args: any[]) => any
+}
+
+export function isExpression(logic?: string): boolean {
+  return typeof logic === "string" && logic.trim().startsWith("=")
+}
+
+// ---------------------------------------------------------------------------
+// Runtime helpers
+// ---------------------------------------------------------------------------
+
+const isBlank = (value: any) => value === null || value === undefined || String(value).trim() === ""
+
+const toText = (value: any): string => {
+  if (value === null || value === undefined) return ""
+  if (value instanceof Date) return formatDate(value, "yyyy-MM-dd")
+  return String(value)
+}
+
+const toNumber = (value: any): number => {
+  if (typeof value === "number") return value
+  if (typeof value === "boolean") return value ? 1 : 0
+  const number = isBlank(value) ? NaN : Number(String(value).trim())
+  if (isNaN(number)) throw new Error(`"${toText(value)}" is not a number`)
+  return number
+}
+
+const toDate = (value: any, pattern?: string): Date => {
+  const date = pattern ? parseDate(toText(value), pattern) : parseDateAuto(value)
+  if (!date) throw new Error(`"${toText(value)}" is not a valid date${pattern ? ` for pattern ${pattern}` : ""}`)
+  return date
+}
+
+const toBoolean = (value: any): boolean => {
+  if (typeof value === "boolean") return value
+  if (typeof value === "number") return value !== 0
+  return /^(true|yes|y|1)$/i.test(toText(value).trim())
+}
+
+// Dates compare as dates. When either side is a number both sides compare as numbers, so a text value
+// that is not a number cannot be compared with one. Everything else compares as text, exactly and
+// case-sensitively: "007" != "7" and "NL" != "nl". Use number(), date() or lower() to compare text
+// values as numbers, dates or regardless of case.
+const compareValues = (left: any, right: any): number => {
+  if (left instanceof Date || right instanceof Date) {
+    return toDate(left).getTime() - toDate(right).getTime()
+  }
+  if (typeof left === "number" || typeof right === "number") {
+    return toNumber(left) - toNumber(right)
+  }
+  const leftText = toText(left)
+  const rightText = toText(right)
+  return leftText < rightText ? -1 : leftText > rightText ? 1 : 0
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const FUNCTIONS: Record<string, FunctionDefinition> = {
+  // Strings
+  upper: { params: ["string"], returns: "string", evaluate: (s) => toText(s).toUpperCase() },
+  lower: { params: ["string"], returns: "string", evaluate: (s) => toText(s).toLowerCase() },
+  title: {
+    params: ["string"],
+    returns: "string",
+    evaluate: (s) => toText(s).toLowerCase().replace(/\b\p{L}/gu, (c) => c.toUpperCase()),
+  },
+  trim: { params: ["string"], returns: "string", evaluate: (s) => toText(s).trim().replace(/\s+/g, " ") },
+  concat: { params: [], variadic: "string", returns: "string", evaluate: (...parts) => parts.map(toText).join("") },
+  length: { params: ["string"], returns: "number", evaluate: (s) => toText(s).length },
+  substring: {
+    params: ["string", "number", "number"],
+    optional: 1,
+    returns: "string",
+    // Positions are 1-based like in spreadsheets and SQL
+    evaluate: (s, start, length) =>
+      toText(s).substr(Math.max(toNumber(start) - 1, 0), length === undefined ? undefined : toNumber(length)),
+  },
+  left: { params: ["string", "number"], returns: "string", evaluate: (s, n) => toText(s).slice(0, toNumber(n)) },
+  right: {
+    params: ["string", "number"],
+    returns: "string",
+    evaluate: (s, n) => (toNumber(n) <= 0 ? "" : toText(s).slice(-toNumber(n))),
+  },
+  replace: {
+    params: ["string", "string", "string"],
+    returns: "string",
+    evaluate: (s, find, replacement) => toText(s).split(toText(find)).join(toText(replacement)),
+  },
+  pad_left: {
+    params: ["string", "number", "string"],
+    optional: 1,
+    returns: "string",
+    evaluate: (s, n, fill = " ") => toText(s).padStart(toNumber(n), toText(fill) || " "),
+  },
+  pad_right: {
+    params: ["string", "number", "string"],
+    optional: 1,
+    returns: "string",
+    evaluate: (s, n, fill = " ") => toText(s).padEnd(toNumber(n), toText(fill) || " "),
+  },
+  split_part: {
+    params: ["string", "string", "number"],
+    returns: "string",
+    evaluate: (s, separator, index) => toText(s).split(toText(separator))[toNumber(index) - 1] ?? "",
+  },
+  contains: {
+    params: ["string", "string"],
+    returns: "boolean",
+    evaluate: (s, search) => toText(s).includes(toText(search)),
+  },
+  starts_with: {
+    params: ["string", "string"],
+    returns: "boolean",
+    evaluate: (s, search) => toText(s).startsWith(toText(search)),
+  },
+  ends_with: {
+    params: ["string", "string"],
+    returns: "boolean",
+    evaluate: (s, search) => toText(s).endsWith(toText(search)),
+  },
+  text: { params: ["any"], returns: "string", evaluate: (value) => toText(value) },
+
+  // Numbers
+  number: { params: ["any"], returns: "number", evaluate: (value) => (isBlank(value) ? null : toNumber(value)) },
+  round: {
+    params: ["number", "number"],
+    optional: 1,
+    returns: "number",
+    evaluate: (n, digits = 0) => {
+      const factor = Math.pow(10, toNumber(digits))
+      return Math.round(toNumber(n) * factor) / factor
+    },
+  },
+  floor: { params: ["number"], returns: "number", evaluate: (n) => Math.floor(toNumber(n)) },
+  ceil: { params: ["number"], returns: "number", evaluate: (n) => Math.ceil(toNumber(n)) },
+  abs: { params: ["number"], returns: "number", evaluate: (n) => Math.abs(toNumber(n)) },
+  min: { params: ["number"], variadic: "number", returns: "number", evaluate: (...n) => Math.min(...n.map(toNumber)) },
+  max: { params: ["number"], variadic: "number", returns: "number", evaluate: (...n) => Math.max(...n.map(toNumber)) },
+
+  // Dates
+  date: {
+    params: ["any", "string"],
+    optional: 1,
+    returns: "date",
+    evaluate: (value, pattern) => (isBlank(value) ? null : toDate(value, pattern === undefined ? undefined : toText(pattern))),
+  },
+  format_date: {
+    params: ["date", "string"],
+    returns: "string",
+    evaluate: (value, pattern) => (isBlank(value) ? "" : formatDate(toDate(value), toText(pattern))),
+  },
+  today: {
+    params: [],
+    returns: "date",
+    evaluate: () => {
+      const now = new Date()
+      return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()))
+    },
+  },
+  year: { params: ["date"], returns: "number", evaluate: (d) => toDate(d).getUTCFullYear() },
+  month: { params: ["date"], returns: "number", evaluate: (d) => toDate(d).getUTCMonth() + 1 },
+  day: { params: ["date"], returns: "number", evaluate: (d) => toDate(d).getUTCDate() },
+  add_days: {
+    params: ["date", "number"],
+    returns: "date",
+    evaluate: (d, days) => new Date(toDate(d).getTime() + toNumber(days) * DAY_MS),
+  },
+  days_between: {
+    params: ["date", "date"],
+    returns: "number",
+    evaluate: (from, to) => Math.round((toDate(to).getTime() - toDate(from).getTime()) / DAY_MS),
+  },
+
+  // Conditionals
+  if: {
+    params: ["boolean", "any", "any"],
+    optional: 1,
+    returns: (types) => (types[1] === types[2] || types.length < 3 ? types[1] : "any"),
+    // Evaluated lazily by evaluateNode so only the chosen branch runs
+    evaluate: () => null,
+  },
+  coalesce: {
+    params: ["any"],
+    variadic: "any",
+    returns: (types) => (types.every((type) => type === types[0]) ? types[0] : "any"),
+    evaluate: (...values) => values.find((value) => !isBlank(value)) ?? null,
+  },
+  is_empty: { params: ["any"], returns: "boolean", evaluate: (value) => isBlank(value) },
+}
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS)
+
+// Names come from user input, so "constructor" or "__proto__" must not resolve to Object.prototype
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key)
+
+const functionNamed = (name: string): FunctionDefinition | undefined =>
+  hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+const OPERATORS = ["<=", ">=", "!=", "<>", "==", "+", "-", "*", "/", "%", "&", "=", "<", ">"]
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let index = 0
+
+  while (index < source.length) {
+    const char = source[index]
+
+    if (/\s/.test(char)) {
+      index++
+      continue
+    }
+
+    if (/\d/.test(char) || (char === "." && /\d/.test(source[index + 1] ?? ""))) {
+      const match = source.slice(index).match(/^\d*\.?\d+(?:[eE][-+]?\d+)?/)!
+      tokens.push({ type: "number", value: match[0], position: index })
+      index += match[0].length
+      continue
+    }
+
+    if (char === '"' || char === "'" || char === "`") {
+      let value = ""
+      let cursor = index + 1
+      while (cursor < source.length && source[cursor] !== char) {
+        // A backslash escapes the next character, e.g. "say \"hi\""
+        if (source[cursor] === "\\" && cursor + 1 < source.length) {
+          value += source[cursor + 1]
+          cursor += 2
+          continue
+        }
+        value += source[cursor++]
+      }
+      if (cursor >= source.length) {
+        throw new Error(`Unterminated ${char === "`" ? "field name" : "string"} starting at position ${index + 1}`)
+      }
+      tokens.push({ type: char === "`" ? "field" : "string", value, position: index })
+      index = cursor + 1
+      continue
+    }
+
+    const identifier = source.slice(index).match(/^[A-Za-z_][A-Za-z0-9_]*(?:(?:\.[A-Za-z_][A-Za-z0-9_]*)|\[\d+\])*/)
+    if (identifier) {
+      tokens.push({ type: "identifier", value: identifier[0], position: index })
+      index += identifier[0].length
+      continue
+    }
+
+    const operator = OPERATORS.find((candidate) => source.startsWith(candidate, index))
+    if (operator) {
+      tokens.push({ type: "operator", value: operator, position: index })
+      index += operator.length
+      continue
+    }
+
+    if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ type: char, value: char, position: index })
+      index++
+      continue
+    }
+
+    throw new Error(`Unexpected character "${char}" at position ${index + 1}`)
+  }
+
+  tokens.push({ type: "eof", value: "", position: source.length })
+  return tokens
+}
+
+class Parser {
+  private index = 0
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseOr()
+    const next = this.peek()
+    if (next.type !== "eof") {
+      throw new Error(`Unexpected "${next.value}" at position ${next.position + 1}`)
+    }
+    return node
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++]
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek()
+    return token.type === "identifier" && token.value.toLowerCase() === keyword
+  }
+
+  private isOperator(...operators: string[]): boolean {
+    const token = this.peek()
+    return token.type === "operator" && operators.includes(token.value)
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd()
+    while (this.isKeyword("or")) {
+      this.next()
+      left = { kind: "binary", operator: "or", left, right: this.parseAnd() }
+    }
+    return left
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot()
+    while (this.isKeyword("and")) {
+      this.next()
+      left = { kind: "binary", operator: "and", left, right: this.parseNot() }
+    }
+    return left
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.isKeyword("not")) {
+      this.next()
+      return { kind: "unary", operator: "not", operand: this.parseNot() }
+    }
+    return this.parseComparison()
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive()
+    if (this.isOperator("=", "==", "!=", "<>", "<", ">", "<=", ">=")) {
+      const token = this.next().value
+      const operator = (token === "==" ? "=" : token === "<>" ? "!=" : token) as BinaryOperator
+      return { kind: "binary", operator, left, right: this.parseAdditive() }
+    }
+    return left
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative()
+    while (this.isOperator("+", "-", "&")) {
+      const operator = this.next().value as BinaryOperator
+      left = { kind: "binary", operator, left, right: this.parseMultiplicative() }
+    }
+    return left
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary()
+    while (this.isOperator("*", "/", "%")) {
+      const operator = this.next().value as BinaryOperator
+      left = { kind: "binary", operator, left, right: this.parseUnary() }
+    }
+    return left
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator("-")) {
+      this.next()
+      return { kind: "unary", operator: "-", operand: this.parseUnary() }
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next()
+
+    switch (token.type) {
+      case "number":
+        return { kind: "literal", value: Number(token.value) }
+      case "string":
+        return { kind: "literal", value: token.value }
+      case "field":
+        return { kind: "field", name: token.value }
+      case "(": {
+        const node = this.parseOr()
+        this.expect(")")
+        return node
+      }
+      case "identifier": {
+        const lower = token.value.toLowerCase()
+        if (this.peek().type === "(") {
+          this.next()
+          const args: ExpressionNode[] = []
+          if (this.peek().type !== ")") {
+            args.push(this.parseOr())
+            while (this.peek().type === ",") {
+              this.next()
+              args.push(this.parseOr())
+            }
+          }
+          this.expect(")")
+          return { kind: "call", name: lower, args }
+        }
+        if (lower === "true" || lower === "false") return { kind: "literal", value: lower === "true" }
+        if (lower === "null") return { kind: "literal", value: null }
+        return { kind: "field", name: token.value }
+      }
+      default:
+        throw new Error(
+          token.type === "eof" ? "Unexpected end of expression" : `Unexpected "${token.value}" at position ${token.position + 1}`,
+        )
+    }
+  }
+
+  private expect(type: Token["type"]) {
+    const token = this.next()
+    if (token.type !== type) {
+      throw new Error(`Expected "${type}" at position ${token.position + 1}`)
+    }
+  }
+}
+
+export function parseExpression(logic: string): ExpressionNode {
+  const source = logic.trim().replace(/^=/, "")
+  if (!source.trim()) throw new Error("Expression is empty")
+
+  const node = new Parser(tokenize(source)).parse()
+  validateCalls(node)
+  return node
+}
+
+// Unknown functions and wrong argument counts can never run, so they are parse errors
+function validateCalls(node: ExpressionNode) {
+  switch (node.kind) {
+    case "unary":
+      validateCalls(node.operand)
+      break
+    case "binary":
+      validateCalls(node.left)
+      validateCalls(node.right)
+      break
+    case "call": {
+      const definition = functionNamed(node.name)
+      if (!definition) {
+        throw new Error(`Unknown function "${node.name}". Available: ${EXPRESSION_FUNCTIONS.join(", ")}`)
+      }
+      const required = definition.params.length - (definition.optional ?? 0)
+      const maximum = definition.variadic ? Infinity : definition.params.length
+      if (node.args.length < required || node.args.length > maximum) {
+        const expected =
+          required === maximum ? `${required}` : maximum === Infinity ? `at least ${required}` : `${required}-${maximum}`
+        throw new Error(`${node.name}() expects ${expected} argument(s) but got ${node.args.length}`)
+      }
+      node.args.forEach(validateCalls)
+      break
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Type checking
+// ---------------------------------------------------------------------------
+
+const fieldTypeToExpressionType = (type?: DataPoint["type"]): ExpressionType => {
+  if (type === "string" || type === "number" || type === "boolean" || type === "date") return type
+  return "any"
+}
+
+// Every value can be used as text and dates are parsed from text, so only numbers and booleans are strict
+const isAssignable = (actual: ExpressionType, expected: ExpressionType) => {
+  if (expected === "any" || expected === "string" || actual === "any" || actual === "null") return true
+  if (expected === "date") return actual === "date" || actual === "string"
+  return actual === expected
+}
+
+// Text and dates are never numbers, so arithmetic on them fails for every record
+const isNeverNumber = (type: ExpressionType) => type === "string" || type === "date"
+
+export function checkExpression(node: ExpressionNode, fieldTypes: FieldTypes = {}): ExpressionCheckResult {
+  const fields = new Set<string>()
+  const errors: string[] = []
+  const warnings: string[] = []
+  const knownFields = Object.keys(fieldTypes)
+
+  const describe = (child: ExpressionNode) => (child.kind === "field" ? `field "${child.name}"` : "value")
+
+  const visit = (current: ExpressionNode): ExpressionType => {
+    switch (current.kind) {
+      case "literal":
+        if (current.value === null) return "null"
+        return typeof current.value as ExpressionType
+
+      case "field": {
+        fields.add(current.name)
+        if (knownFields.length > 0 && !hasOwn(fieldTypes, current.name)) {
+          warnings.push(`Unknown source field "${current.name}"`)
+          return "any"
+        }
+        return fieldTypeToExpressionType(fieldTypes[current.name])
+      }
+
+      case "unary": {
+        const operand = visit(current.operand)
+        if (current.operator === "-") {
+          if (isNeverNumber(operand)) errors.push(`Cannot negate ${describe(current.operand)} of type ${operand}`)
+          else if (!isAssignable(operand, "number")) warnings.push(`Cannot negate ${describe(current.operand)} of type ${operand}`)
+          return "number"
+        }
+        return "boolean"
+      }
+
+      case "binary": {
+        const left = visit(current.left)
+        const right = visit(current.right)
+
+        switch (current.operator) {
+          case "&":
+            return "string"
+          // Text is joined with & only, so + always adds numbers
+          case "+":
+          case "-":
+          case "*":
+          case "/":
+          case "%":
+            ;[
+              [current.left, left],
+              [current.right, right],
+            ].forEach(([child, type]) => {
+              const message = `Operator "${current.operator}" expects numbers but ${describe(child as ExpressionNode)} is ${type}`
+              if (isNeverNumber(type as ExpressionType)) {
+                errors.push(current.operator === "+" ? `${message}; join text with &` : message)
+              } else if (!isAssignable(type as ExpressionType, "number")) {
+                warnings.push(`${message}; wrap it in number()`)
+              }
+            })
+            return "number"
+          case "=":
+          case "!=":
+          case "<":
+          case ">":
+          case "<=":
+          case ">=":
+            // A date compares as a date, which a number or boolean never is
+            if (
+              (left === "date" && (right === "number" || right === "boolean")) ||
+              (right === "date" && (left === "number" || left === "boolean"))
+            ) {
+              errors.push(
+                `Cannot compare ${describe(current.left)} of type ${left} with ${describe(current.right)} of type ${right}`,
+              )
+            }
+            return "boolean"
+          default:
+            return "boolean"
+        }
+      }
+
+      case "call": {
+        const definition = functionNamed(current.name)!
+        const argTypes = current.args.map(visit)
+
+        argTypes.forEach((type, index) => {
+          const expected = definition.params[index] ?? definition.variadic ?? "any"
+          if (!isAssignable(type, expected)) {
+            warnings.push(
+              `${current.name}() expects ${expected} for argument ${index + 1} but ${describe(current.args[index])} is ${type}`,
+            )
+          }
+        })
+
+        return typeof definition.returns === "function" ? definition.returns(argTypes) : definition.returns
+      }
+    }
+  }
+
+  const type = visit(node)
+  return { type, fields: [...fields], errors, warnings }
+}
+
+// Parses and type-checks in one go; parse failures are reported as errors instead of thrown
+export function validateExpression(logic: string, fieldTypes: FieldTypes = {}): ExpressionCheckResult {
+  try {
+    return checkExpression(parseExpression(logic), fieldTypes)
+  } catch (error) {
+    return {
+      type: "any",
+      fields: [],
+      errors: [error instanceof Error ? error.message : String(error)],
+      warnings: [],
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+export function evaluateCondition(node: ExpressionNode, resolve: FieldResolver): boolean {
+  return toBoolean(evaluateExpression(node, resolve))
+}
+
+export function evaluateExpression(node: ExpressionNode, resolve: FieldResolver): any {
+  switch (node.kind) {
+    case "literal":
+      return node.value
+
+    case "field": {
+      const value = resolve(node.name)
+      return value === undefined ? null : value
+    }
+
+    case "unary": {
+      const operand = evaluateExpression(node.operand, resolve)
+      return node.operator === "-" ? -toNumber(operand) : !toBoolean(operand)
+    }
+
+    case "binary": {
+      if (node.operator === "and") {
+        return toBoolean(evaluateExpression(node.left, resolve)) && toBoolean(evaluateExpression(node.right, resolve))
+      }
+      if (node.operator === "or") {
+        return toBoolean(evaluateExpression(node.left, resolve)) || toBoolean(evaluateExpression(node.right, resolve))
+      }
+
+      const left = evaluateExpression(node.left, resolve)
+      const right = evaluateExpression(node.right, resolve)
+
+      switch (node.operator) {
+        case "+":
+          return toNumber(left) + toNumber(right)
+        case "&":
+          return toText(left) + toText(right)
+        case "-":
+          return toNumber(left) - toNumber(right)
+        case "*":
+          return toNumber(left) * toNumber(right)
+        case "/": {
+          const divisor = toNumber(right)
+          if (divisor === 0) throw new Error("Division by zero")
+          return toNumber(left) / divisor
+        }
+        case "%":
+          return toNumber(left) % toNumber(right)
+        case "=":
+          return isBlank(left) && isBlank(right) ? true : isBlank(left) || isBlank(right) ? false : compareValues(left, right) === 0
+        case "!=":
+          return isBlank(left) && isBlank(right) ? false : isBlank(left) || isBlank(right) ? true : compareValues(left, right) !== 0
+        case "<":
+          return compareValues(left, right) < 0
+        case ">":
+          return compareValues(left, right) > 0
+        case "<=":
+          return compareValues(left, right) <= 0
+        case ">=":
+          return compareValues(left, right) >= 0
+      }
+      return null
+    }
+
+    case "call": {
+      if (node.name === "if") {
+        const condition = toBoolean(evaluateExpression(node.args[0], resolve))
+        const branch = condition ? node.args[1] : node.args[2]
+        return branch ? evaluateExpression(branch, resolve) : null
+      }
+
+      const args = node.args.map((arg) => evaluateExpression(arg, resolve))
+      return functionNamed(node.name)!.evaluate(...args)
+    }
+  }
+}
@@ -0,0 +1,235 @@
+import type { DataType, FieldDictionaryEntry } from "@/lib/mapping-schemas"
+
+const HEADER_ALIASES: Record<string, string[]> = {
+  name: ["name", "field", "fieldname", "column", "columnname", "element", "elementname", "attribute", "tag", "property"],
+  description: ["description", "desc", "definition", "meaning", "remarks", "comment", "comments", "notes"],
+  type: ["type", "datatype", "format", "fieldtype", "representation"],
+  length: ["length", "len", "size", "maxlength", "width", "maxsize"],
+  mandatory: ["mandatory", "required", "req", "mo", "usage", "optionality", "obligatory"],
+  nullable: ["nullable", "optional"],
+  allowed_values: ["allowedvalues", "validvalues", "values", "codes", "codelist", "domain", "permittedvalues", "enumeration"],
+}
+
+// Leading keyword of a spec type: SQL and programming types, EDIFACT/X12 representations ("an..35",
+// "n3") and COBOL pictures ("X(10)", "9(5)")
+const TYPE_KEYWORDS: Array<[RegExp, DataType]> = [
+  [/^(date|datetime|timestamp|time|dt|dtm|ts|yyyy|yymmdd|ccyymmdd)/, "date"],
+  [/^(bool|boolean|bit|flag|indicator|y\/n|yes\/no)/, "boolean"],
+  [/^(an|a|x|alpha|alphanumeric|char|nchar|varchar|nvarchar|varchar2|string|str|text)\b/, "string"],
+  [/^(an|a|x)[.\d(]/, "string"],
+  [/^(n|nm|9|num|number|numeric|int|integer|bigint|smallint|tinyint|decimal|dec|float|double|real|money|amount|currency)\b/, "number"],
+  [/^(n|9)[.\d(]/, "number"],
+]
+
+const STOP_WORDS = new Set(["the", "a", "an", "of", "for", "to", "in", "on", "and", "or", "is", "be", "this", "that", "with", "as", "by", "field", "value"])
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "")
+
+function parseSpecType(value: string): { type?: DataType; length?: number } {
+  const text = value.trim().toLowerCase()
+  const type = TYPE_KEYWORDS.find(([pattern]) => pattern.test(text))?.[1]
+  // "varchar(35)", "decimal(10,2)", "X(10)", "an..35" or "n3"
+  const length = Number(text.match(/\((\d+)/)?.[1] ?? text.match(/^[a-z]+\.{0,2}(\d+)$/)?.[1])
+  return { type, length: length > 0 ? length : undefined }
+}
+
+// "Y", "Yes", "M", "Mandatory", "Required" or "X" against "N", "No", "O", "Optional" or "C" (conditional)
+function parseFlag(value: string): boolean | undefined {
+  const text = value.trim().toLowerCase()
+  if (text === "") return undefined
+  if (/^(y|m|r|x|1|true)/.test(text)) return true
+  if (/^(n|o|c|0|false)/.test(text)) return false
+  return undefined
+}
+
+// Codes separated by commas, semicolons, pipes or line breaks; "A = Active" or "A - Active" keeps the code
+function parseAllowedValues(value: string): string[] | undefined {
+  const values = value
+    .split(/[,;|\n]/)
+    .map((part) => part.split(/\s*(?:=|:|\s-\s)\s*/)[0].trim().replace(/^["']|["']$/g, ""))
+    .filter((part) => part !== "" && part.length <= 40)
+  return values.length > 0 ? [...new Set(values)] : undefined
+}
+
+// "M/O" becomes "mo", "Max. length" becomes "maxlength"
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "")
+
+const columnsOf = (row: string[]): Record<string, number> => {
+  const headers = row.map(normalizeHeader)
+  return Object.fromEntries(
+    Object.keys(HEADER_ALIASES).map((key) => [key, headers.findIndex((header) => HEADER_ALIASES[key].includes(header))]),
+  )
+}
+
+// A header row names the field column and at least one column that describes it
+const isHeaderRow = (row: string[]) => {
+  const columns = columnsOf(row)
+  return columns.name >= 0 && Object.entries(columns).some(([key, index]) => key !== "name" && index >= 0)
+}
+
+// Reads the field tables among the rows of a spec document. Every header row starts a new table, and
+// rows without a field name or with a single cell (prose or wrapped text) are skipped.
+export function readDictionaryRows(rows: string[][], document: string): FieldDictionaryEntry[] {
+  const entries: FieldDictionaryEntry[] = []
+  let columns: Record<string, number> | null = null
+
+  rows.forEach((row) => {
+    const cells = row.map((cell) => String(cell ?? "").trim())
+    if (isHeaderRow(cells)) {
+      columns = columnsOf(cells)
+      return
+    }
+    if (!columns || cells.filter(Boolean).length < 2) return
+
+    const cell = (key: string) => (columns![key] >= 0 ? cells[columns![key]] || undefined : undefined)
+    const name = cell("name")
+    if (!name || name.length > 64) return
+
+    const specType = cell("type")
+    const parsedType = specType ? parseSpecType(specType) : {}
+    const length = Number(cell("length")?.match(/\d+/)?.[0]) || parsedType.length
+    // A nullable cell that reads as neither yes nor no says nothing about the field being mandatory
+    const nullable = cell("nullable") !== undefined ? parseFlag(cell("nullable")!) : undefined
+    const mandatory =
+      cell("mandatory") !== undefined ? parseFlag(cell("mandatory")!) : nullable !== undefined ? !nullable : undefined
+    const allowed = cell("allowed_values")
+
+    entries.push({
+      name,
+      document,
+      ...(cell("description") && { description: cell("description") }),
+      ...(parsedType.type && { type: parsedType.type }),
+      ...(specType && { spec_type: specType }),
+      ...(length && { length }),
+      ...(mandatory !== undefined && { mandatory }),
+      ...(allowed && parseAllowedValues(allowed) && { allowed_values: parseAllowedValues(allowed) }),
+    })
+  })
+
+  return entries
+}
+
+// Rows of the tables in plain text: cells separated by tabs, pipes (Markdown tables) or runs of
+// spaces, as in the text of a PDF or a copied table
+export function rowsFromText(text: string): string[][] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "" && !/^[\s|:+-]+$/.test(line))
+    .map((line) => {
+      const trimmed = line.trim()
+      if (trimmed.includes("\t")) return trimmed.split("\t").map((cell) => cell.trim())
+      if (trimmed.startsWith("|")) return trimmed.replace(/^\||\|$/g, "").split("|").map((cell) => cell.trim())
+      return trimmed.split(/\s{2,}/)
+    })
+}
+
+// Combines entries of several spec documents; a field described twice keeps the first description
+// and gains the properties only the later one has
+export function mergeDictionaries(dictionaries: FieldDictionaryEntry[][]): FieldDictionaryEntry[] {
+  const merged = new Map<string, FieldDictionaryEntry>()
+  dictionaries.flat().forEach((entry) => {
+    const key = normalizeName(entry.name)
+    merged.set(key, { ...entry, ...merged.get(key) })
+  })
+  return [...merged.values()]
+}
+
+// The entry for a data field. Paths such as "N1[BY].N102", "Orders!amount" or "customer.address.city"
+// fall back to their last part, which is how most specs name the field.
+export function findDictionaryEntry(
+  dictionary: FieldDictionaryEntry[],
+  field: string,
+): FieldDictionaryEntry | undefined {
+  if (dictionary.length === 0) return undefined
+  const byName = (name: string) => dictionary.find((entry) => normalizeName(entry.name) === normalizeName(name))
+  const lastPart = field.split(/[.!]/).pop() || field
+  return byName(field) ?? byName(lastPart)
+}
+
+const wordsOf = (text: string) =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 1 && !STOP_WORDS.has(word)),
+  )
+
+// Share of the words two descriptions have in common
+export function descriptionSimilarity(a: string, b: string): number {
+  const wordsA = wordsOf(a)
+  const wordsB = wordsOf(b)
+  if (wordsA.size === 0 || wordsB.size === 0) return 0
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length
+  return shared / new Set([...wordsA, ...wordsB]).size
+}
+
+const mentions = (text: string | undefined, field: string) => {
+  const name = field.replace(/[^a-zA-Z0-9_]/g, "")
+  return !!text && name.length > 2 && new RegExp(`\\b${name}\\b`, "i").test(text)
+}
+
+// The target field whose documentation matches a source field best: their descriptions say the same,
+// or one description names the other field. Returns nothing below a score of 0.5.
+export function findDocumentedMatch(
+  sourceField: string,
+  sourceEntry: FieldDictionaryEntry | undefined,
+  targetFields: string[],
+  targetDictionary: FieldDictionaryEntry[],
+): { field: string; score: number } | null {
+  let best: { field: string; score: number } | null = null
+
+  targetFields.forEach((targetField) => {
+    const targetEntry = findDictionaryEntry(targetDictionary, targetField)
+    let score =
+      sourceEntry?.description && targetEntry?.description
+        ? descriptionSimilarity(sourceEntry.description, targetEntry.description)
+        : 0
+    if (mentions(targetEntry?.description, sourceField) || mentions(sourceEntry?.description, targetField)) {
+      score = Math.max(score, 0.8)
+    }
+    if (score >= 0.5 && (!best || score > best.score)) best = { field: targetField, score }
+  })
+
+  return best
+}
+
+export function describeDictionaryEntry(entry: FieldDictionaryEntry): string {
+  const properties = [
+    entry.spec_type ?? entry.type,
+    entry.length && `max ${entry.length}`,
+    entry.mandatory !== undefined && (entry.mandatory ? "mandatory" : "optional"),
+    entry.allowed_values && `values ${entry.allowed_values.slice(0, 8).join(", ")}`,
+  ].filter(Boolean)
+  const description = entry.description ? `: ${entry.description}` : ""
+  return `${entry.name} (${entry.document})${description}${properties.length > 0 ? ` [${properties.join("; ")}]` : ""}`
+}
+
+// What the specs say could go wrong when the source field is written to the target field
+export function compareDictionaryEntries(
+  source: FieldDictionaryEntry | undefined,
+  target: FieldDictionaryEntry | undefined,
+  sourceType?: string,
+): string[] {
+  if (!target) return []
+  const issues: string[] = []
+
+  if (target.length && source?.length && source.length > target.length) {
+    issues.push(`The source spec allows ${source.length} characters but the target allows ${target.length}; longer values are truncated`)
+  }
+  if (target.mandatory && source?.mandatory === false) {
+    issues.push("The target field is mandatory but the source field is optional; add a default for empty values")
+  }
+  if (target.allowed_values && source?.allowed_values) {
+    const allowed = new Set(target.allowed_values.map((value) => value.toLowerCase()))
+    const missing = source.allowed_values.filter((value) => !allowed.has(value.toLowerCase()))
+    if (missing.length > 0) {
+      issues.push(`Source values ${missing.slice(0, 5).join(", ")} are not allowed in the target; add a value mapping`)
+    }
+  }
+  const type = source?.type ?? sourceType
+  if (target.type && type && ["string", "number", "date", "boolean"].includes(type) && type !== target.type) {
+    issues.push(`The target spec defines a ${target.type} but the source holds ${type} values`)
+  }
+
+  return issues
+}
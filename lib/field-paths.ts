@@ -0,0 +1,98 @@
+export type PathSegment = string | number
+
+// Splits "customer.address.city" or "items[0].sku" into ["customer", "address", "city"] / ["items", 0, "sku"]
+export function parseFieldPath(path: string): PathSegment[] {
+  const segments: PathSegment[] = []
+  const regex = /([^.[\]]+)|\[(\d*)\]/g
+  let match
+
+  while ((match = regex.exec(path)) !== null) {
+    if (match[1] !== undefined) {
+      segments.push(match[1])
+    } else {
+      segments.push(match[2] === "" ? -1 : Number(match[2]))
+    }
+  }
+
+  return segments
+}
+
+// Removes the prefix that points at the record container, e.g. "[0].name" -> "name" or
+// "orders.order[0].id" -> "id" when the records were read from "orders.order"
+export function stripRecordPath(path: string, recordPath?: string): string {
+  let relative = path
+
+  if (recordPath && (relative === recordPath || relative.startsWith(`${recordPath}.`) || relative.startsWith(`${recordPath}[`))) {
+    relative = relative.slice(recordPath.length)
+  }
+
+  return relative.replace(/^\[\d*\]/, "").replace(/^\./, "")
+}
+
+const unwrapValue = (value: any): any => {
+  // xml2js wraps every element in an array and puts text next to attributes in "_"
+  if (Array.isArray(value) && value.length === 1) {
+    return unwrapValue(value[0])
+  }
+  if (value && typeof value === "object" && !Array.isArray(value) && "_" in value) {
+    return value._
+  }
+  return value
+}
+
+export function getFieldValue(record: Record<string, any>, path: string, recordPath?: string): any {
+  if (record == null) return undefined
+  if (path in record) return unwrapValue(record[path])
+
+  const relative = stripRecordPath(path, recordPath)
+  if (relative in record) return unwrapValue(record[relative])
+
+  let current: any = record
+  for (const segment of parseFieldPath(relative)) {
+    if (current == null) return undefined
+
+    if (typeof segment === "number") {
+      current = Array.isArray(current) ? current[Math.max(segment, 0)] : segment <= 0 ? current : undefined
+    } else {
+      if (Array.isArray(current)) current = current[0]
+      current = current?.[segment]
+    }
+  }
+
+  return unwrapValue(current)
+}
+
+const isContainer = (value: any) => typeof value === "object" && value !== null && !(value instanceof Date)
+
+// Writes a value at "customer.address.city" or "items[0].sku", creating objects and arrays on the
+// way. An empty index ("items[].sku") takes an array value apart into one child per element.
+export function setFieldValue(target: Record<string, any> | any[], path: string, value: any): void {
+  const segments = parseFieldPath(path)
+  const spread = segments.indexOf(-1)
+  if (spread >= 0 && Array.isArray(value)) {
+    value.forEach((item, index) => setAtSegments(target, segments.map((s, i) => (i === spread ? index : s)), item, path))
+    return
+  }
+  setAtSegments(target, segments.map((segment) => (segment === -1 ? 0 : segment)), value, path)
+}
+
+function setAtSegments(target: any, segments: PathSegment[], value: any, path: string) {
+  if (segments.length === 0) return
+
+  let current = target
+  for (let i = 0; i < segments.length - 1; i++) {
+    const segment = segments[i]
+    const next = segments[i + 1]
+    if (!isContainer(current[segment])) {
+      // A path through a value that is already set cannot be nested, so it is kept under its full name
+      if (current[segment] !== undefined && current[segment] !== null) {
+        if (!Array.isArray(target)) target[path] = value
+        return
+      }
+      current[segment] = typeof next === "number" ? [] : {}
+    }
+    current = current[segment]
+  }
+
+  current[segments[segments.length - 1]] = value
+}
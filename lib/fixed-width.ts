@@ -0,0 +1,243 @@
+import {
+  FixedWidthLayoutSchema,
+  type DataType,
+  type FixedWidthField,
+  type FixedWidthLayout,
+} from "@/lib/mapping-schemas"
+import { toISODateString } from "@/lib/date-format"
+
+export interface FixedWidthRecords {
+  records: Record<string, any>[]
+  columns: string[]
+  warnings: string[]
+}
+
+export interface FixedWidthOutput {
+  content: string
+  warnings: string[]
+}
+
+const HEADER_ALIASES: Record<string, string[]> = {
+  name: ["name", "field", "fieldname", "column", "columnname", "element"],
+  start: ["start", "startposition", "position", "pos", "from", "offset", "begin"],
+  end: ["end", "endposition", "to"],
+  length: ["length", "len", "width", "size"],
+  type: ["type", "datatype", "format"],
+  padding: ["padding", "pad", "fill", "filler"],
+  align: ["align", "alignment", "justify", "justification"],
+}
+
+const TYPE_ALIASES: Record<string, DataType> = {
+  n: "number",
+  num: "number",
+  numeric: "number",
+  number: "number",
+  int: "number",
+  integer: "number",
+  decimal: "number",
+  "9": "number",
+  d: "date",
+  date: "date",
+  b: "boolean",
+  bool: "boolean",
+  boolean: "boolean",
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "")
+
+const splitDelimitedLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = []
+  let cell = ""
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      cells.push(cell.trim())
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+
+  cells.push(cell.trim())
+  return cells
+}
+
+const parsePosition = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === "") return undefined
+  const number = Number(value.trim())
+  if (!Number.isInteger(number)) throw new Error(`"${value}" is not a whole number`)
+  return number
+}
+
+// Reads a record layout from a spec CSV with a header row, e.g. "Field;Start;Length;Type". A missing
+// start continues after the previous field and an end column can replace the length.
+export function parseLayoutCSV(text: string): FixedWidthLayout {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "")
+  if (lines.length < 2) throw new Error("The layout needs a header row and at least one field")
+
+  const delimiter = [";", "\t", ","].reduce((best, candidate) =>
+    lines[0].split(candidate).length > lines[0].split(best).length ? candidate : best,
+  )
+  const headers = splitDelimitedLine(lines[0], delimiter).map(normalizeHeader)
+  const columnOf = (key: string) => headers.findIndex((header) => HEADER_ALIASES[key].includes(header))
+  const columns = Object.fromEntries(Object.keys(HEADER_ALIASES).map((key) => [key, columnOf(key)]))
+
+  if (columns.name < 0) throw new Error("The layout has no name or field column")
+  if (columns.length < 0 && columns.end < 0) throw new Error("The layout has no length or end column")
+
+  const rows = lines.slice(1).map((line) => splitDelimitedLine(line, delimiter))
+  const cell = (row: string[], key: string) => (columns[key] >= 0 ? row[columns[key]] : undefined)
+
+  // Some layouts count positions from 0
+  const firstStart = parsePosition(cell(rows[0], "start"))
+  const shift = firstStart === 0 ? 1 : 0
+
+  let next = 1
+  const fields: FixedWidthField[] = rows
+    .filter((row) => cell(row, "name"))
+    .map((row, index) => {
+      const name = cell(row, "name")!
+      try {
+        const start = (parsePosition(cell(row, "start")) ?? next - shift) + shift
+        const end = parsePosition(cell(row, "end"))
+        const length = parsePosition(cell(row, "length")) ?? (end !== undefined ? end + shift - start + 1 : undefined)
+        if (!length || length < 1) throw new Error("it has no positive length")
+        next = start + length
+
+        const type = TYPE_ALIASES[cell(row, "type")?.trim().toLowerCase() ?? ""]
+        const padding = cell(row, "padding")?.trim().toLowerCase()
+        const align = cell(row, "align")?.trim().toLowerCase()
+
+        return {
+          name,
+          start,
+          length,
+          ...(type && { type }),
+          ...(padding && { padding: /^(zero|zeros|0)$/.test(padding) ? ("zero" as const) : ("space" as const) }),
+          ...(align && { align: align.startsWith("r") ? ("right" as const) : ("left" as const) }),
+        }
+      } catch (error) {
+        throw new Error(
+          `Field "${name}" (row ${index + 2}): ${error instanceof Error ? error.message : String(error)}`,
+        )
+      }
+    })
+
+  return validateLayout({ fields })
+}
+
+export function validateLayout(layout: FixedWidthLayout): FixedWidthLayout {
+  const parsed = FixedWidthLayoutSchema.parse(layout)
+  const sorted = [...parsed.fields].sort((a, b) => a.start - b.start)
+
+  sorted.slice(1).forEach((field, index) => {
+    const previous = sorted[index]
+    if (field.start < previous.start + previous.length) {
+      throw new Error(`Fields "${previous.name}" and "${field.name}" overlap at position ${field.start}`)
+    }
+  })
+
+  const names = new Set<string>()
+  parsed.fields.forEach((field) => {
+    if (names.has(field.name)) throw new Error(`Field "${field.name}" appears more than once in the layout`)
+    names.add(field.name)
+  })
+
+  return parsed
+}
+
+export const getRecordLength = (layout: FixedWidthLayout) =>
+  Math.max(...layout.fields.map((field) => field.start + field.length - 1))
+
+const readValue = (text: string, field: FixedWidthField): any => {
+  const trimmed = text.trim()
+  if (trimmed === "") return null
+  if (field.type !== "number") return trimmed
+
+  // Mainframe extracts often write the sign after the digits
+  const signed = /^[\d.]+-$/.test(trimmed) ? `-${trimmed.slice(0, -1)}` : trimmed
+  const number = Number(signed)
+  return isNaN(number) ? trimmed : number
+}
+
+export function readFixedWidth(text: string, layout: FixedWidthLayout): FixedWidthRecords {
+  const recordLength = getRecordLength(layout)
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "")
+  let shortLines = 0
+
+  const records = lines.map((line) => {
+    if (line.length < recordLength) shortLines++
+    const record: Record<string, any> = {}
+    layout.fields.forEach((field) => {
+      record[field.name] = readValue(line.slice(field.start - 1, field.start - 1 + field.length), field)
+    })
+    return record
+  })
+
+  const warnings =
+    shortLines > 0
+      ? [
+          `${shortLines} ${shortLines === 1 ? "line is" : "lines are"} shorter than the layout's record length of ${recordLength}; missing positions were read as empty`,
+        ]
+      : []
+
+  return { records, columns: layout.fields.map((field) => field.name), warnings }
+}
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined) return ""
+  if (value instanceof Date) return toISODateString(value)
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
+const formatField = (value: any, field: FixedWidthField): string => {
+  const text = formatValue(value)
+  if (text === "") return " ".repeat(field.length)
+
+  const align = field.align ?? (field.type === "number" || typeof value === "number" ? "right" : "left")
+  if (field.padding === "zero" && /^-/.test(text) && align === "right") {
+    return `-${text.slice(1).padStart(field.length - 1, "0")}`
+  }
+
+  const fill = field.padding === "zero" ? "0" : " "
+  return align === "right" ? text.padStart(field.length, fill) : text.padEnd(field.length, fill)
+}
+
+export function writeFixedWidth(records: Record<string, any>[], layout: FixedWidthLayout): FixedWidthOutput {
+  const recordLength = getRecordLength(layout)
+  const truncated = new Map<string, number>()
+
+  const lines = records.map((record) => {
+    const line = Array.from({ length: recordLength }, () => " ")
+    layout.fields.forEach((field) => {
+      let text = formatField(record[field.name], field)
+      if (text.length > field.length) {
+        truncated.set(field.name, (truncated.get(field.name) || 0) + 1)
+        text = text.slice(0, field.length)
+      }
+      line.splice(field.start - 1, field.length, ...text)
+    })
+    return line.join("")
+  })
+
+  const warnings = [...truncated.entries()].map(
+    ([name, count]) =>
+      `Values of "${name}" were longer than the layout allows and were cut off in ${count} ${count === 1 ? "record" : "records"}`,
+  )
+
+  return { content: lines.join("\r\n"), warnings }
+}
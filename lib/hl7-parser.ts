@@ -0,0 +1,327 @@
+import type { DataType } from "@/lib/mapping-schemas"
+
+export interface HL7Segment {
+  name: string
+  // Fields by HL7 field number; every field is a list of repetitions of components of subcomponents
+  fields: Map<number, string[][][]>
+}
+
+export interface HL7Message {
+  // Message type and trigger event from MSH-9, e.g. "ADT^A01" or "ORU^R01"
+  type: string
+  control: string
+  segments: HL7Segment[]
+}
+
+interface EncodingCharacters {
+  field: string
+  component: string
+  repetition: string
+  escape: string
+  subcomponent: string
+}
+
+// HL7 data types of the fields that mapping most often touches (v2.5). Types that are not listed
+// are inferred from the values; composite fields such as PID-5 (XPN) hold text components.
+const FIELD_TYPES: Record<string, string> = {
+  "MSH-7": "TS",
+  "MSH-9": "MSG",
+  "MSH-10": "ST",
+  "MSH-12": "VID",
+  "EVN-2": "TS",
+  "EVN-6": "TS",
+  "PID-1": "SI",
+  "PID-2": "CX",
+  "PID-3": "CX",
+  "PID-5": "XPN",
+  "PID-6": "XPN",
+  "PID-7": "TS",
+  "PID-8": "IS",
+  "PID-11": "XAD",
+  "PID-13": "XTN",
+  "PID-14": "XTN",
+  "PID-18": "CX",
+  "PID-19": "ST",
+  "PID-29": "TS",
+  "PID-30": "ID",
+  "NK1-1": "SI",
+  "NK1-2": "XPN",
+  "PV1-1": "SI",
+  "PV1-2": "IS",
+  "PV1-3": "PL",
+  "PV1-7": "XCN",
+  "PV1-19": "CX",
+  "PV1-44": "TS",
+  "PV1-45": "TS",
+  "ORC-1": "ID",
+  "ORC-2": "EI",
+  "ORC-3": "EI",
+  "ORC-9": "TS",
+  "OBR-1": "SI",
+  "OBR-2": "EI",
+  "OBR-3": "EI",
+  "OBR-4": "CE",
+  "OBR-7": "TS",
+  "OBR-8": "TS",
+  "OBR-22": "TS",
+  "OBR-25": "ID",
+  "OBX-1": "SI",
+  "OBX-2": "ID",
+  "OBX-3": "CE",
+  "OBX-6": "CE",
+  "OBX-7": "ST",
+  "OBX-8": "IS",
+  "OBX-11": "ID",
+  "OBX-14": "TS",
+  "AL1-1": "SI",
+  "DG1-1": "SI",
+  "DG1-5": "TS",
+  "IN1-1": "SI",
+}
+
+const COMPOSITE_TYPES = ["CX", "XPN", "XAD", "XTN", "XCN", "XON", "CE", "CWE", "EI", "HD", "PL", "MSG"]
+const NUMERIC_TYPES = ["NM", "SI"]
+const DATE_TYPES = ["DT", "DTM", "TS"]
+
+// Batch and file envelopes around the messages carry no patient data
+const ENVELOPE_SEGMENTS = ["FHS", "FTS", "BHS", "BTS"]
+
+export function isHL7(text: string): boolean {
+  return /^[\s\x0b]*(MSH|FHS|BHS)\|/.test(text)
+}
+
+export function toDataType(hl7Type: string | undefined): DataType | undefined {
+  if (!hl7Type) return undefined
+  if (NUMERIC_TYPES.includes(hl7Type)) return "number"
+  if (DATE_TYPES.includes(hl7Type)) return "date"
+  return "string"
+}
+
+// The data type of a field path according to the standard definitions; OBX-5 depends on OBX-2
+// per segment and is left to the values
+export function getFieldDataType(path: string): DataType | undefined {
+  const [, field, component] = path.match(/^([A-Z0-9]{3}-\d+)(?:\.(\d+))?/) || []
+  const hl7Type = field ? FIELD_TYPES[field] : undefined
+  if (!hl7Type || !component) return toDataType(hl7Type)
+  // A timestamp sent as TS^precision keeps its time in the first component
+  if (hl7Type === "TS") return component === "1" ? "date" : undefined
+  // Components of identifiers, names and addresses are text even when they are all digits
+  return COMPOSITE_TYPES.includes(hl7Type) ? "string" : undefined
+}
+
+function decodeEscapes(value: string, encoding: EncodingCharacters): string {
+  const escape = encoding.escape
+  if (!escape || !value.includes(escape)) return value
+
+  const pattern = new RegExp(`\\${escape}([^\\${escape}]*)\\${escape}`, "g")
+  return value.replace(pattern, (sequence, code: string) => {
+    switch (code) {
+      case "F":
+        return encoding.field
+      case "S":
+        return encoding.component
+      case "T":
+        return encoding.subcomponent
+      case "R":
+        return encoding.repetition
+      case "E":
+        return escape
+      case ".br":
+        return "\n"
+      default:
+        // Hexadecimal data (\X41\) is decoded; formatting commands are dropped
+        return code.startsWith("X") ? code.slice(1).replace(/../g, (hex) => String.fromCharCode(parseInt(hex, 16))) : ""
+    }
+  })
+}
+
+// "20240131", "202401311245" or "20240131124500.123+0100" to ISO 8601, keeping the precision sent
+function toISODateTime(value: string): string {
+  const match = value.match(/^(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:\.\d+)?([+-]\d{4})?$/)
+  if (!match) return value
+
+  const [, year, month, day, hour, minute, second, offset] = match
+  let iso = [year, month, day].filter(Boolean).join("-")
+  if (hour) iso += `T${hour}:${minute || "00"}${second ? `:${second}` : ""}`
+  if (hour && offset) iso += `${offset.slice(0, 3)}:${offset.slice(3)}`
+  return iso
+}
+
+function convertValue(value: string, hl7Type: string | undefined): any {
+  if (DATE_TYPES.includes(hl7Type || "")) return toISODateTime(value)
+  if (NUMERIC_TYPES.includes(hl7Type || "")) {
+    const number = Number(value)
+    return value.trim() !== "" && !isNaN(number) ? number : value
+  }
+  return value
+}
+
+function readEncoding(segment: string): EncodingCharacters {
+  const field = segment[3]
+  const characters = segment.slice(4).split(field)[0]
+  return {
+    field,
+    component: characters[0] || "^",
+    repetition: characters[1] || "~",
+    escape: characters[2] || "\\",
+    subcomponent: characters[3] || "&",
+  }
+}
+
+function parseSegment(line: string, encoding: EncodingCharacters): HL7Segment {
+  const parts = line.split(encoding.field)
+  const name = parts[0]
+  const fields = new Map<number, string[][][]>()
+
+  // MSH-1 is the field separator itself and MSH-2 the encoding characters, so the fields of MSH
+  // start at MSH-3 one position earlier than in other segments
+  const offset = name === "MSH" ? 1 : 0
+  parts.forEach((part, index) => {
+    const number = index + offset
+    if (index === 0 || (name === "MSH" && number <= 2) || part === "") return
+    fields.set(
+      number,
+      part
+        .split(encoding.repetition)
+        .map((repetition) =>
+          repetition
+            .split(encoding.component)
+            .map((component) => component.split(encoding.subcomponent).map((sub) => decodeEscapes(sub, encoding))),
+        ),
+    )
+  })
+
+  return { name, fields }
+}
+
+export function parseHL7(text: string): { messages: HL7Message[]; warnings: string[] } {
+  // Segments end with a carriage return; files saved on other systems use line feeds, and
+  // messages captured from an MLLP connection keep their framing characters
+  const lines = text
+    .replace(/[\x0b\x1c]/g, "")
+    .split(/\r\n|\r|\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+
+  const messages: HL7Message[] = []
+  const warnings: string[] = []
+  let encoding: EncodingCharacters | null = null
+  let current: HL7Message | null = null
+
+  lines.forEach((line, index) => {
+    const name = line.slice(0, 3)
+    if (name === "MSH") {
+      encoding = readEncoding(line)
+      const segment = parseSegment(line, encoding)
+      const type = segment.fields.get(9)?.[0] ?? []
+      current = {
+        type: type.map((component) => component[0]).filter(Boolean).slice(0, 2).join("^"),
+        control: segment.fields.get(10)?.[0]?.[0]?.[0] || "",
+        segments: [segment],
+      }
+      messages.push(current)
+    } else if (ENVELOPE_SEGMENTS.includes(name)) {
+      return
+    } else if (!current || !encoding) {
+      warnings.push(`Line ${index + 1} (${name}) comes before the first MSH segment and was skipped`)
+    } else if (!/^[A-Z][A-Z0-9]{2}$/.test(name) || (line.length > 3 && line[3] !== encoding.field)) {
+      warnings.push(`Line ${index + 1} is not an HL7 segment and was skipped`)
+    } else {
+      current.segments.push(parseSegment(line, encoding))
+    }
+  })
+
+  return { messages, warnings }
+}
+
+// Segments that occur more than once in a message, such as OBX
+function repeatingSegments(messages: HL7Message[]): Set<string> {
+  const repeating = new Set<string>()
+  messages.forEach((message) => {
+    const seen = new Set<string>()
+    message.segments.forEach((segment) => {
+      if (seen.has(segment.name)) repeating.add(segment.name)
+      seen.add(segment.name)
+    })
+  })
+  return repeating
+}
+
+// One flat record per message, keyed by paths such as "PID-8", "PID-5.1" (component) or "PID-3.4.1"
+// (subcomponent). Field repetitions give arrays of values. A repeating segment, such as OBX, gives a
+// list in every record, even where it occurs once, with one entry per segment and null where it lacks
+// the field, so the values of one observation line up.
+export function messageToRecord(
+  message: HL7Message,
+  repeating = repeatingSegments([message]),
+): Record<string, any> {
+  const occurrences = new Map<string, Map<string, any[]>[]>()
+
+  message.segments.forEach((segment) => {
+    const values = new Map<string, any[]>()
+    const add = (path: string, value: any) => {
+      const list = values.get(path)
+      if (list) {
+        list.push(value)
+      } else {
+        values.set(path, [value])
+      }
+    }
+    // The value type of an observation is given by OBX-2 of the same segment
+    const valueType = segment.name === "OBX" ? segment.fields.get(2)?.[0]?.[0]?.[0] : undefined
+
+    segment.fields.forEach((repetitions, number) => {
+      const field = `${segment.name}-${number}`
+      const hl7Type = field === "OBX-5" ? valueType : FIELD_TYPES[field]
+
+      repetitions.forEach((components) => {
+        const single = components.length === 1 && components[0].length === 1
+        components.forEach((subcomponents, componentIndex) => {
+          subcomponents.forEach((value, subIndex) => {
+            if (value.trim() === "") return
+            const path = single
+              ? field
+              : subcomponents.length === 1
+                ? `${field}.${componentIndex + 1}`
+                : `${field}.${componentIndex + 1}.${subIndex + 1}`
+            const componentType = single || (componentIndex === 0 && hl7Type === "TS") ? hl7Type : undefined
+            add(path, convertValue(value, componentType))
+          })
+        })
+      })
+    })
+
+    const segments = occurrences.get(segment.name)
+    if (segments) {
+      segments.push(values)
+    } else {
+      occurrences.set(segment.name, [values])
+    }
+  })
+
+  const record: Record<string, any> = {}
+  occurrences.forEach((segments, name) => {
+    const paths = new Set(segments.flatMap((values) => [...values.keys()]))
+    paths.forEach((path) => {
+      const perSegment = segments.map((values) => {
+        const list = values.get(path)
+        return !list ? null : list.length === 1 ? list[0] : list
+      })
+      record[path] = repeating.has(name) ? perSegment : perSegment[0]
+    })
+  })
+  return record
+}
+
+export function readHL7Records(text: string): { records: Record<string, any>[]; columns: string[]; warnings: string[] } {
+  const { messages, warnings } = parseHL7(text)
+  if (messages.length === 0) throw new Error("The document contains no HL7 messages (no MSH segment)")
+
+  // A segment that repeats in one message is a list in all of them, so each path has one shape
+  const repeating = repeatingSegments(messages)
+  const records = messages.map((message) => messageToRecord(message, repeating))
+  const columns = new Set<string>()
+  records.forEach((record) => Object.keys(record).forEach((key) => columns.add(key)))
+
+  return { records, columns: [...columns], warnings }
+}
@@ -0,0 +1,223 @@
+import type { FormatOptions, FormatSpec } from "@/lib/mapping-schemas"
+import { formatDate, parseDate, parseDateAuto, toISODateString } from "@/lib/date-format"
+
+export interface FormattedValue {
+  value: any
+  error?: string
+}
+
+// Tried in order when detecting how a column writes its dates. Day-first comes before month-first
+// because a column that fits both (every day <= 12) is more often European than American.
+export const DATE_PATTERN_CANDIDATES = [
+  "yyyy-MM-dd",
+  "yyyy-MM-dd'T'HH:mm:ss",
+  "yyyy-MM-dd HH:mm:ss",
+  "dd-MM-yyyy",
+  "d-M-yyyy",
+  "dd/MM/yyyy",
+  "d/M/yyyy",
+  "MM/dd/yyyy",
+  "M/d/yyyy",
+  "dd.MM.yyyy",
+  "d.M.yyyy",
+  "yyyy/MM/dd",
+  "dd-MM-yyyy HH:mm",
+  "dd/MM/yyyy HH:mm",
+  "MM/dd/yyyy HH:mm",
+  "dd-MM-yy",
+  "dd/MM/yy",
+]
+
+const CURRENCY_PATTERN = /^(€|\$|£|¥|EUR|USD|GBP|JPY|CHF)\s*|\s*(€|\$|£|¥|EUR|USD|GBP|JPY|CHF)$/i
+
+export const NUMBER_FORMAT_PRESETS: Record<string, Pick<FormatSpec, "decimal_separator" | "thousands_separator">> = {
+  "1,234.56": { decimal_separator: ".", thousands_separator: "," },
+  "1.234,56": { decimal_separator: ",", thousands_separator: "." },
+  "1 234,56": { decimal_separator: ",", thousands_separator: " " },
+  "1'234.56": { decimal_separator: ".", thousands_separator: "'" },
+}
+
+export function detectDatePattern(values: any[]): string | undefined {
+  const texts = values.filter((value) => value !== null && value !== undefined && String(value).trim() !== "")
+  if (texts.length === 0 || texts.some((value) => value instanceof Date)) return undefined
+
+  return DATE_PATTERN_CANDIDATES.find((pattern) => texts.every((value) => parseDate(String(value), pattern)))
+}
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+const stripCurrency = (text: string, symbol?: string) => {
+  let stripped = text.trim()
+  if (symbol && symbol.trim()) {
+    stripped = stripped.split(symbol.trim()).join("")
+  }
+  // Symbols can also sit between the sign and the digits, as in -€ 12,50
+  return stripped
+    .replace(/€|\$|£|¥|\b(EUR|USD|GBP|JPY|CHF)\b/gi, "")
+    .replace(/^([-+])\s+/, "$1")
+    .trim()
+}
+
+// Detects comma-decimal (1.234,56) versus point-decimal (1,234.56) numbers. Plain numbers without
+// separators need no format and return undefined.
+export function detectNumberFormat(values: any[]): FormatSpec | undefined {
+  const texts = values
+    .filter((value) => value !== null && value !== undefined && typeof value !== "number" && String(value).trim() !== "")
+    .map((value) => String(value).trim())
+  if (texts.length === 0) return undefined
+
+  const symbols = new Set(texts.map((text) => text.match(CURRENCY_PATTERN)?.[0].trim()).filter(Boolean))
+  const numbers = texts.map((text) => stripCurrency(text))
+  if (numbers.every((text) => /^[-+]?\d+(\.\d+)?$/.test(text)) && symbols.size === 0) return undefined
+
+  const fits = (spec: Pick<FormatSpec, "decimal_separator" | "thousands_separator">) =>
+    numbers.every((text) => parseLocaleNumber(text, spec) !== null)
+
+  const commaDecimal = NUMBER_FORMAT_PRESETS["1.234,56"]
+  const pointDecimal = NUMBER_FORMAT_PRESETS["1,234.56"]
+  const fitsComma = fits(commaDecimal)
+  const fitsPoint = fits(pointDecimal)
+  if (!fitsComma && !fitsPoint) return undefined
+
+  // "1,234" fits both; a comma followed by anything but three digits settles it as a decimal comma
+  const hasDecimalComma = numbers.some((text) => /,\d{1,2}$|,\d{4,}$/.test(text))
+  const spec = fitsComma && (!fitsPoint || hasDecimalComma) ? commaDecimal : pointDecimal
+
+  return {
+    ...spec,
+    ...(symbols.size === 1 && { currency_symbol: [...symbols][0] }),
+  }
+}
+
+export function parseLocaleNumber(value: any, spec?: FormatSpec): number | null {
+  if (typeof value === "number") return isNaN(value) ? null : value
+  if (value === null || value === undefined) return null
+
+  let text = stripCurrency(String(value).replace(/\u00a0/g, " "), spec?.currency_symbol)
+  // Accounting notation: (12.50) and trailing minus signs are negative
+  let negative = false
+  if (/^\(.*\)$/.test(text)) {
+    negative = true
+    text = text.slice(1, -1).trim()
+  } else if (/-$/.test(text)) {
+    negative = true
+    text = text.slice(0, -1).trim()
+  }
+  text = stripCurrency(text, spec?.currency_symbol)
+
+  const decimal = spec?.decimal_separator || "."
+  const thousands = spec?.thousands_separator ?? (decimal === "," ? "." : ",")
+
+  if (thousands) {
+    // Thousands separators are only accepted between groups of three digits
+    const grouped = new RegExp(`^[-+]?\\d{1,3}(${escapeRegex(thousands)}\\d{3})+(${escapeRegex(decimal)}\\d+)?$`)
+    if (grouped.test(text)) text = text.split(thousands).join("")
+  }
+  if (decimal !== ".") {
+    if (text.includes(".")) return null
+    text = text.replace(decimal, ".")
+  }
+
+  if (!/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(text)) return null
+  const number = Number(text)
+  return negative ? -number : number
+}
+
+export function formatLocaleNumber(number: number, spec?: FormatSpec): string {
+  const decimal = spec?.decimal_separator || "."
+  const thousands = spec?.thousands_separator ?? ""
+  const fixed = spec?.decimals !== undefined ? Math.abs(number).toFixed(spec.decimals) : String(Math.abs(number))
+  const [integer, fraction] = fixed.split(".")
+
+  const grouped = thousands ? integer.replace(/\B(?=(\d{3})+(?!\d))/g, thousands) : integer
+  return `${number < 0 ? "-" : ""}${spec?.currency_symbol ?? ""}${grouped}${fraction ? `${decimal}${fraction}` : ""}`
+}
+
+const hasNumberFormat = (spec?: FormatSpec) =>
+  !!spec &&
+  (spec.decimal_separator !== undefined ||
+    spec.thousands_separator !== undefined ||
+    spec.currency_symbol !== undefined ||
+    spec.decimals !== undefined)
+
+const hasDateFormat = (spec?: FormatSpec) => !!spec && (!!spec.date_pattern || !!spec.timezone)
+
+// Picks date or number handling from the options when the mapping has no target_type
+export function inferFormatKind(options?: FormatOptions): "date" | "number" | undefined {
+  if (hasDateFormat(options?.source) || hasDateFormat(options?.target)) return "date"
+  if (hasNumberFormat(options?.source) || hasNumberFormat(options?.target)) return "number"
+  return undefined
+}
+
+// Offset in minutes of a timezone at a given instant: "UTC", "+01:00" / "-0530" or an IANA name
+export function getTimezoneOffset(timeZone: string, instant: Date): number {
+  const fixed = timeZone.trim().match(/^(?:UTC|GMT)?\s*([+-])(\d{1,2}):?(\d{2})?$/i)
+  if (fixed) {
+    const minutes = Number(fixed[2]) * 60 + Number(fixed[3] ?? 0)
+    return fixed[1] === "-" ? -minutes : minutes
+  }
+  if (/^(UTC|GMT|Z)$/i.test(timeZone.trim())) return 0
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant)
+  const part = (type: string) => Number(parts.find((candidate) => candidate.type === type)?.value)
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"))
+  return Math.round((wallClock - instant.getTime()) / 60000)
+}
+
+// Dates are kept as UTC wall-clock values (see date-format.ts), so a timezone change shifts the wall clock
+export function convertTimezone(date: Date, from?: string, to?: string): Date {
+  if (!from || !to || from === to) return date
+
+  // The offset depends on the instant, so correct once for daylight saving changes
+  let instant = date.getTime() - getTimezoneOffset(from, date) * 60000
+  instant = date.getTime() - getTimezoneOffset(from, new Date(instant)) * 60000
+  return new Date(instant + getTimezoneOffset(to, new Date(instant)) * 60000)
+}
+
+export function convertDateValue(value: any, options?: FormatOptions): FormattedValue {
+  const source = options?.source
+  const target = options?.target
+  const text = value instanceof Date ? "" : String(value).trim()
+  const date = value instanceof Date || !source?.date_pattern ? parseDateAuto(value) : parseDate(text, source.date_pattern)
+
+  if (!date) {
+    return {
+      value,
+      error: source?.date_pattern
+        ? `Cannot parse "${text}" as a date in format ${source.date_pattern}`
+        : `Cannot convert "${text}" to a date`,
+    }
+  }
+
+  try {
+    const converted = convertTimezone(date, source?.timezone, target?.timezone)
+    return { value: target?.date_pattern ? formatDate(converted, target.date_pattern) : toISODateString(converted) }
+  } catch (error) {
+    return { value, error: `Invalid timezone: ${error instanceof Error ? error.message : String(error)}` }
+  }
+}
+
+// Numbers stay numeric unless the target asks for separators, a currency symbol or fixed decimals
+export function convertNumberValue(value: any, options?: FormatOptions): FormattedValue {
+  const number = parseLocaleNumber(value, options?.source)
+  if (number === null) {
+    const separator = options?.source?.decimal_separator
+    return {
+      value,
+      error: separator
+        ? `Cannot parse "${String(value).trim()}" as a number with "${separator}" as decimal separator`
+        : `Cannot convert "${String(value).trim()}" to a number`,
+    }
+  }
+
+  return { value: hasNumberFormat(options?.target) ? formatLocaleNumber(number, options?.target) : number }
+}
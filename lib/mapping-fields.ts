@@ -0,0 +1,31 @@
+// Helpers for mappings that read several source fields (field_combination) or write several
+// target fields (field_splitting). The field lists are stored in source_fields / target_fields;
+// older mappings and the chat step keep them as text in source_field / target_field instead.
+
+interface MultiFieldMapping {
+  source_field?: string
+  target_field?: string
+  source_fields?: string[]
+  target_fields?: string[]
+  transformation_type?: string
+}
+
+// "first_name + last_name" or "street, number, postcode"
+export function splitFieldList(fields: string): string[] {
+  return fields
+    .split(/\s*[+,;]\s*/)
+    .map((field) => field.trim())
+    .filter(Boolean)
+}
+
+export function getSourceFields(mapping: MultiFieldMapping): string[] {
+  if (mapping.source_fields && mapping.source_fields.length > 0) return mapping.source_fields
+  if (!mapping.source_field) return []
+  return mapping.transformation_type === "field_combination" ? splitFieldList(mapping.source_field) : [mapping.source_field]
+}
+
+export function getTargetFields(mapping: MultiFieldMapping): string[] {
+  if (mapping.target_fields && mapping.target_fields.length > 0) return mapping.target_fields
+  if (!mapping.target_field) return []
+  return mapping.transformation_type === "field_splitting" ? splitFieldList(mapping.target_field) : [mapping.target_field]
+}
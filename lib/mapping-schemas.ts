@@ -15,13 +15,66 @@ export const TransformationTypeSchema = z.enum([
   "filtering",
 ])
 
+export const ValueMappingEntrySchema = z.object({
+  source_value: z.string(),
+  target_value: z.string(),
+})
+
+// Lookup table for lookup_transformation mappings. Unmatched values keep their original
+// value unless a default_value is configured; matching ignores case unless case_sensitive is set.
+export const ValueMappingTableSchema = z.object({
+  entries: z.array(ValueMappingEntrySchema),
+  default_value: z.string().optional(),
+  case_sensitive: z.boolean().optional(),
+})
+
+// How values are written in the source or should be written in the target. Date patterns use the
+// tokens from date-format.ts; timezone is an IANA name such as Europe/Amsterdam, "UTC" or an offset like +01:00
+export const FormatSpecSchema = z.object({
+  date_pattern: z.string().optional(),
+  timezone: z.string().optional(),
+  decimal_separator: z.string().optional(),
+  thousands_separator: z.string().optional(),
+  currency_symbol: z.string().optional(),
+  decimals: z.number().int().min(0).optional(),
+})
+
+export const FormatOptionsSchema = z.object({
+  source: FormatSpecSchema.optional(),
+  target: FormatSpecSchema.optional(),
+})
+
+export const AggregateFunctionSchema = z.enum(["sum", "count", "min", "max", "first", "last", "concat"])
+
+// Branches of a conditional_mapping are tried in order; the first condition that holds picks the
+// expression for the record. Conditions and expressions use the expression language (see expression-language.ts).
+export const ConditionalBranchSchema = z.object({
+  condition: z.string(),
+  expression: z.string(),
+})
+
+export const ConditionalRulesSchema = z.object({
+  branches: z.array(ConditionalBranchSchema),
+  else_expression: z.string().optional(),
+})
+
 export const MappingSuggestionSchema = z.object({
   source_field: z.string(),
   target_field: z.string(),
+  // Many-to-one (field_combination) and one-to-many (field_splitting) mappings list every field here;
+  // source_field / target_field then hold a readable label such as "first_name + last_name"
+  source_fields: z.array(z.string()).optional(),
+  target_fields: z.array(z.string()).optional(),
+  separator: z.string().optional(),
   transformation_type: TransformationTypeSchema,
   confidence: z.number().min(0).max(1),
   reasoning: z.string(),
   transformation_logic: z.string(),
+  target_type: DataTypeSchema.optional(),
+  value_mapping: ValueMappingTableSchema.optional(),
+  conditional_rules: ConditionalRulesSchema.optional(),
+  aggregate_function: AggregateFunctionSchema.optional(),
+  format_options: FormatOptionsSchema.optional(),
   potential_issues: z.array(z.string()),
   sample_transformation: z
     .object({
@@ -31,6 +84,85 @@ export const MappingSuggestionSchema = z.object({
     .optional(),
 })
 
+export const FilterOperatorSchema = z.enum([
+  "equals",
+  "not_equals",
+  "contains",
+  "starts_with",
+  "ends_with",
+  "is_empty",
+  "is_not_empty",
+  "matches",
+  "expression",
+])
+
+// A row is excluded when it matches any rule. "matches" takes a regular expression and
+// "expression" a condition in the expression language, e.g. status = "test" and amount < 0
+export const FilterRuleSchema = z.object({
+  id: z.string(),
+  field: z.string(),
+  operator: FilterOperatorSchema,
+  value: z.string().optional(),
+  description: z.string().optional(),
+})
+
+export const RowFilterConfigSchema = z.object({
+  rules: z.array(FilterRuleSchema),
+  skip_leading_rows: z.number().int().min(0).optional(),
+  skip_trailing_rows: z.number().int().min(0).optional(),
+  drop_repeated_headers: z.boolean().optional(),
+})
+
+// Group-by mode: output records are grouped on the group_by target fields and every other target
+// field is reduced with its aggregate function (from aggregates, else the mapping's aggregate_function)
+export const AggregationConfigSchema = z.object({
+  group_by: z.array(z.string()),
+  aggregates: z.record(AggregateFunctionSchema).optional(),
+  concat_separator: z.string().optional(),
+})
+
+// Column layout of a fixed-width file. Positions are 1-based like most record layout documents.
+// Text is left-aligned and numbers right-aligned unless align says otherwise; "zero" padding fills with 0
+export const FixedWidthFieldSchema = z.object({
+  name: z.string().min(1),
+  start: z.number().int().min(1),
+  length: z.number().int().min(1),
+  type: DataTypeSchema.optional(),
+  padding: z.enum(["space", "zero"]).optional(),
+  align: z.enum(["left", "right"]).optional(),
+})
+
+export const FixedWidthLayoutSchema = z.object({
+  fields: z.array(FixedWidthFieldSchema).min(1),
+})
+
+// How a delimited file is read. Settings that are not given are detected from the file; header_row
+// is the 0-based row with the column names (blank lines not counted), or null for a file without one
+export const CsvDialectSchema = z.object({
+  delimiter: z.string().length(1).optional(),
+  quote: z.string().length(1).optional(),
+  header_row: z.number().int().min(0).nullable().optional(),
+})
+
+// A field as described in an uploaded specification document. Only the name is always known; the
+// other properties are read when the spec table has a column for them
+export const FieldDictionaryEntrySchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  type: DataTypeSchema.optional(),
+  // The type as written in the spec, e.g. "AN", "varchar(35)" or "decimal(10,2)"
+  spec_type: z.string().optional(),
+  length: z.number().int().min(1).optional(),
+  mandatory: z.boolean().optional(),
+  allowed_values: z.array(z.string()).optional(),
+  // Constraints a schema file such as an XSD or JSON Schema can state exactly
+  pattern: z.string().optional(),
+  minimum: z.number().optional(),
+  maximum: z.number().optional(),
+  // Name of the spec document the entry was read from
+  document: z.string(),
+})
+
 export const DataQualityIssueSchema = z.object({
   field: z.string(),
   issue_type: z.enum(["missing_values", "inconsistent_format", "data_type_mismatch", "duplicate_values", "outliers"]),
@@ -38,6 +170,29 @@ export const DataQualityIssueSchema = z.object({
   description: z.string(),
   suggested_fix: z.string(),
   affected_records: z.number(),
+  // Numbers of the first affected records, counting from 1
+  rows: z.array(z.number().int()).optional(),
+})
+
+// A field whose values are filled and unique in every record of a source file
+export const CandidateKeySchema = z.object({
+  file: z.string(),
+  field: z.string(),
+  records: z.number().int(),
+})
+
+// A likely foreign key: the values of field in file are found in the key related_field of
+// related_file, as customer_id in orders.csv is in id of customers.csv. The fields of the related
+// file are mapped as "customers!name".
+export const SourceJoinSchema = z.object({
+  file: z.string(),
+  field: z.string(),
+  related_file: z.string(),
+  related_field: z.string(),
+  // Share of the filled values of field that are found in related_field
+  coverage: z.number().min(0).max(1),
+  cardinality: z.enum(["one_to_one", "many_to_one"]),
+  confidence: z.number().min(0).max(1),
 })
 
 export const MappingAnalysisSchema = z.object({
@@ -61,3 +216,22 @@ export const MappingAnalysisSchema = z.object({
 export type MappingAnalysis = z.infer<typeof MappingAnalysisSchema>
 export type MappingSuggestion = z.infer<typeof MappingSuggestionSchema>
 export type DataQualityIssue = z.infer<typeof DataQualityIssueSchema>
+export type CandidateKey = z.infer<typeof CandidateKeySchema>
+export type SourceJoin = z.infer<typeof SourceJoinSchema>
+export type TransformationType = z.infer<typeof TransformationTypeSchema>
+export type DataType = z.infer<typeof DataTypeSchema>
+export type ValueMappingEntry = z.infer<typeof ValueMappingEntrySchema>
+export type ValueMappingTable = z.infer<typeof ValueMappingTableSchema>
+export type FilterOperator = z.infer<typeof FilterOperatorSchema>
+export type FilterRule = z.infer<typeof FilterRuleSchema>
+export type RowFilterConfig = z.infer<typeof RowFilterConfigSchema>
+export type FormatSpec = z.infer<typeof FormatSpecSchema>
+export type FormatOptions = z.infer<typeof FormatOptionsSchema>
+export type AggregateFunction = z.infer<typeof AggregateFunctionSchema>
+export type AggregationConfig = z.infer<typeof AggregationConfigSchema>
+export type ConditionalBranch = z.infer<typeof ConditionalBranchSchema>
+export type ConditionalRules = z.infer<typeof ConditionalRulesSchema>
+export type FixedWidthField = z.infer<typeof FixedWidthFieldSchema>
+export type FixedWidthLayout = z.infer<typeof FixedWidthLayoutSchema>
+export type CsvDialect = z.infer<typeof CsvDialectSchema>
+export type FieldDictionaryEntry = z.infer<typeof FieldDictionaryEntrySchema>
@@ -1,6 +1,7 @@
 import { create } from "zustand"
 import { persist } from "zustand/middleware"
-import type { MappingSuggestion } from "@/lib/mapping-schemas"
+import type { MappingSuggestion, ValueMappingTable } from "@/lib/mapping-schemas"
+import { getSourceFields, getTargetFields } from "@/lib/mapping-fields"
 
 export interface DynamicMapping extends MappingSuggestion {
   id: string
@@ -29,6 +30,7 @@ interface MappingStore {
   // Actions
   setDocumentMappings: (documentId: string, initialMappings: MappingSuggestion[]) => void
   updateMapping: (id: string, updates: Partial<DynamicMapping>) => void
+  setValueMapping: (id: string, table: ValueMappingTable | undefined) => void
   addMapping: (mapping: Omit<DynamicMapping, "id" | "created_at" | "updated_at">) => string
   removeMapping: (id: string) => void
   resolveConflict: (conflictId: string, resolution: "accept" | "reject" | "modify", data?: any) => void
@@ -83,6 +85,14 @@ export const useMappingStore = create<MappingStore>()(
         get().validateMappings()
       },
 
+      // A lookup table only has an effect on lookup transformations, so setting one switches the type
+      setValueMapping: (id: string, table: ValueMappingTable | undefined) => {
+        get().updateMapping(
+          id,
+          table ? { value_mapping: table, transformation_type: "lookup_transformation" } : { value_mapping: undefined },
+        )
+      },
+
       addMapping: (mapping: Omit<DynamicMapping, "id" | "created_at" | "updated_at">) => {
         const id = `mapping-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
         const newMapping: DynamicMapping = {
@@ -151,11 +161,10 @@ export const useMappingStore = create<MappingStore>()(
 
       getMappingByFields: (sourceField: string, targetField?: string) => {
         const { mappings } = get()
+        // Combination and splitting mappings match on any of their fields
         return mappings.find((mapping) => {
-          if (targetField) {
-            return mapping.source_field === sourceField && mapping.target_field === targetField
-          }
-          return mapping.source_field === sourceField
+          if (!getSourceFields(mapping).includes(sourceField)) return false
+          return targetField ? getTargetFields(mapping).includes(targetField) : true
         })
       },
 
@@ -163,12 +172,15 @@ export const useMappingStore = create<MappingStore>()(
         const { mappings } = get()
         const conflicts: MappingConflict[] = []
 
-        // Check for duplicate source fields
+        // Check for duplicate source fields. Reusing a field as one part of a combination is expected
+        // (first_name → given_name next to first_name + last_name → full_name), so only one-to-one
+        // mappings count here.
         const sourceFieldCounts = new Map<string, string[]>()
         mappings.forEach((mapping) => {
-          if (mapping.status === "active") {
-            const existing = sourceFieldCounts.get(mapping.source_field) || []
-            sourceFieldCounts.set(mapping.source_field, [...existing, mapping.id])
+          if (mapping.status === "active" && getSourceFields(mapping).length === 1) {
+            const [sourceField] = getSourceFields(mapping)
+            const existing = sourceFieldCounts.get(sourceField) || []
+            sourceFieldCounts.set(sourceField, [...existing, mapping.id])
           }
         })
 
@@ -184,12 +196,14 @@ export const useMappingStore = create<MappingStore>()(
           }
         })
 
-        // Check for duplicate target fields
+        // Check for duplicate target fields, counting every target a split mapping writes
         const targetFieldCounts = new Map<string, string[]>()
         mappings.forEach((mapping) => {
           if (mapping.status === "active") {
-            const existing = targetFieldCounts.get(mapping.target_field) || []
-            targetFieldCounts.set(mapping.target_field, [...existing, mapping.id])
+            getTargetFields(mapping).forEach((targetField) => {
+              const existing = targetFieldCounts.get(targetField) || []
+              targetFieldCounts.set(targetField, [...existing, mapping.id])
+            })
           }
         })
 
@@ -205,6 +219,28 @@ export const useMappingStore = create<MappingStore>()(
           }
         })
 
+        // A combination needs at least two source fields and a split at least two target fields
+        mappings.forEach((mapping) => {
+          if (mapping.status !== "active") return
+          const isCombination = mapping.transformation_type === "field_combination"
+          const isSplit = mapping.transformation_type === "field_splitting"
+          const fieldCount = isCombination ? getSourceFields(mapping).length : getTargetFields(mapping).length
+
+          if ((isCombination || isSplit) && fieldCount < 2) {
+            conflicts.push({
+              id: `conflict-field-count-${mapping.id}`,
+              type: "type_mismatch",
+              description: isCombination
+                ? `Field combination for "${mapping.target_field}" has fewer than two source fields`
+                : `Field split of "${mapping.source_field}" has fewer than two target fields`,
+              affected_mappings: [mapping.id],
+              suggested_resolution: isCombination
+                ? "Add the other source fields or change the transformation to a direct mapping"
+                : "Add the other target fields or change the transformation to a direct mapping",
+            })
+          }
+        })
+
         set({ conflicts })
         return conflicts
       },
@@ -0,0 +1,100 @@
+import { parseFieldPath, setFieldValue } from "@/lib/field-paths"
+
+export interface NDJSONRecords {
+  records: Record<string, any>[]
+  columns: string[]
+  warnings: string[]
+}
+
+export const NDJSON_MIME_TYPE = "application/x-ndjson"
+
+const isPlainObject = (value: any) => typeof value === "object" && value !== null && !Array.isArray(value)
+
+// Every line is one JSON value; blank lines are allowed and lines that do not parse are skipped
+export function parseNDJSON(text: string): NDJSONRecords {
+  const records: Record<string, any>[] = []
+  const invalidLines: number[] = []
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === "") return
+    try {
+      const value = JSON.parse(line)
+      records.push(isPlainObject(value) ? value : { value })
+    } catch {
+      invalidLines.push(index + 1)
+    }
+  })
+
+  if (records.length === 0 && invalidLines.length > 0) {
+    throw new Error(`Invalid NDJSON: line ${invalidLines[0]} is not a JSON value`)
+  }
+
+  const warnings =
+    invalidLines.length > 0
+      ? [
+          `${invalidLines.length} ${invalidLines.length === 1 ? "line is" : "lines are"} not valid JSON and ${invalidLines.length === 1 ? "was" : "were"} skipped (line ${invalidLines.slice(0, 10).join(", ")}${invalidLines.length > 10 ? ", ..." : ""})`,
+        ]
+      : []
+
+  return { records, columns: collectKeys(records), warnings }
+}
+
+// Keys of all records in order of first appearance: event streams often add fields in later records
+export function collectKeys(records: Record<string, any>[]): string[] {
+  const keys = new Set<string>()
+  records.forEach((record) => Object.keys(record).forEach((key) => keys.add(key)))
+  return [...keys]
+}
+
+// Evenly spaced records from the whole file rather than only the first ones
+export function sampleRecords<T>(records: T[], size: number): T[] {
+  if (records.length <= size) return records
+  const step = records.length / size
+  return Array.from({ length: size }, (_, index) => records[Math.floor(index * step)])
+}
+
+// Nested objects become dotted field paths ("user.address.city"); arrays stay values
+export function flattenRecord(record: Record<string, any>, prefix = ""): Record<string, any> {
+  const flat: Record<string, any> = {}
+  Object.entries(record).forEach(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key
+    if (isPlainObject(value) && Object.keys(value).length > 0) Object.assign(flat, flattenRecord(value, path))
+    else flat[path] = value
+  })
+  return flat
+}
+
+// Dotted and indexed column paths are written as nested objects, like JSON output
+function toOutputRecord(record: Record<string, any>, columns: string[], nested: boolean): Record<string, any> {
+  const output: Record<string, any> = {}
+  columns.forEach((column) => {
+    if (nested && parseFieldPath(column).length > 1) setFieldValue(output, column, record[column] ?? null)
+    else output[column] = record[column] ?? null
+  })
+  return output
+}
+
+export function* generateNDJSONLines(records: Record<string, any>[], columns: string[]): Generator<string> {
+  const nested = columns.some((column) => /[.[]/.test(column))
+  for (const record of records) {
+    yield `${JSON.stringify(toOutputRecord(record, columns, nested))}\n`
+  }
+}
+
+export function writeNDJSON(records: Record<string, any>[], columns: string[]): string {
+  return [...generateNDJSONLines(records, columns)].join("")
+}
+
+// Encodes one record per read, so a large conversion result is never held as one string
+export function streamNDJSON(records: Record<string, any>[], columns: string[]): ReadableStream<Uint8Array> {
+  const lines = generateNDJSONLines(records, columns)
+  const encoder = new TextEncoder()
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const next = lines.next()
+      if (next.done) controller.close()
+      else controller.enqueue(encoder.encode(next.value))
+    },
+  })
+}
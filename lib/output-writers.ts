@@ -0,0 +1,265 @@
+// The styled build of SheetJS, which writes cell styles such as the bold header row
+import * as XLSX from "xlsx-js-style"
+import { parseDate } from "@/lib/date-format"
+import { writeXMLFromTemplate, type XmlDocument } from "@/lib/xml-template"
+import { parseFieldPath, setFieldValue } from "@/lib/field-paths"
+import { writeFixedWidth } from "@/lib/fixed-width"
+import { NDJSON_MIME_TYPE, writeNDJSON } from "@/lib/ndjson"
+import type { FixedWidthLayout } from "@/lib/mapping-schemas"
+
+export type OutputFormat = "csv" | "json" | "xml" | "xlsx" | "fixed" | "ndjson"
+
+export interface OutputFile {
+  content: BlobPart
+  mimeType: string
+  extension: string
+  // Problems found while writing, such as values cut off to fit a fixed-width field
+  warnings?: string[]
+}
+
+export interface OutputOptions {
+  // Column order of the target sample; columns it does not list follow in mapping order
+  columnOrder?: string[]
+  // Spreadsheet output only: write one sheet per distinct value of this column
+  sheetBy?: string
+  // XML output only: parsed target sample whose structure the records are written into
+  xmlTemplate?: XmlDocument
+  // Fixed-width output only: column layout of the target file
+  layout?: FixedWidthLayout
+}
+
+export interface SheetData {
+  name: string
+  records: Record<string, any>[]
+  columns: string[]
+}
+
+export const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+
+export function resolveOutputFormat(fileName?: string): OutputFormat {
+  const extension = fileName?.split(".").pop()?.toLowerCase()
+  // A target given as a schema file is written in the format the schema describes
+  if (extension === "csv" || extension === "txt" || extension === "sql" || extension === "ddl") return "csv"
+  if (extension === "xml" || extension === "xsd") return "xml"
+  if (extension === "xlsx" || extension === "xls") return "xlsx"
+  if (extension === "jsonl" || extension === "ndjson") return "ndjson"
+  // JSON Schema, OpenAPI and GraphQL targets get JSON payloads
+  return "json"
+}
+
+export function orderColumns(columns: string[], columnOrder?: string[]): string[] {
+  if (!columnOrder?.length) return columns
+  const known = columnOrder.filter((column) => columns.includes(column))
+  return [...known, ...columns.filter((column) => !known.includes(column))]
+}
+
+export function writeOutput(
+  records: Record<string, any>[],
+  columns: string[],
+  format: OutputFormat,
+  options: OutputOptions = {},
+): OutputFile {
+  columns = orderColumns(columns, options.columnOrder)
+
+  switch (format) {
+    case "csv":
+      return { content: writeCSV(records, columns), mimeType: "text/csv", extension: "csv" }
+    case "xml":
+      return {
+        content: options.xmlTemplate
+          ? writeXMLFromTemplate(records, columns, options.xmlTemplate)
+          : writeXML(records, columns),
+        mimeType: "application/xml",
+        extension: "xml",
+      }
+    case "ndjson":
+      return { content: writeNDJSON(records, columns), mimeType: NDJSON_MIME_TYPE, extension: "jsonl" }
+    case "fixed": {
+      if (!options.layout) throw new Error("Fixed-width output needs a column layout")
+      const { content, warnings } = writeFixedWidth(records, options.layout)
+      return { content, mimeType: "text/plain", extension: "txt", warnings: warnings.length > 0 ? warnings : undefined }
+    }
+    case "xlsx": {
+      const sheets = options.sheetBy
+        ? splitIntoSheets(records, columns, options.sheetBy)
+        : [{ name: "Data", records, columns }]
+      return { content: writeXLSX(sheets), mimeType: XLSX_MIME_TYPE, extension: "xlsx" }
+    }
+    default:
+      return { content: writeJSON(records, columns), mimeType: "application/json", extension: "json" }
+  }
+}
+
+const formatCell = (value: any): string => {
+  if (value === null || value === undefined) return ""
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
+// The part of the column paths that points at the record container, shared by every column:
+// "orders[0].id" and "orders[0].items[0].sku" give "orders[0]", "[0].id" gives "[0]"
+function findRecordContainer(columns: string[]): string | undefined {
+  const prefixes = columns.map((column) => {
+    const match = column.match(/^(.*?\[\d*\])\./)
+    return match ? match[1] : undefined
+  })
+  return prefixes[0] !== undefined && prefixes.every((prefix) => prefix === prefixes[0]) ? prefixes[0] : undefined
+}
+
+// Rebuilds the nested structure of the target from dotted and indexed column paths; flat columns
+// give the usual array of flat objects
+export function writeJSON(records: Record<string, any>[], columns: string[]): string {
+  if (!columns.some((column) => /[.[]/.test(column))) return JSON.stringify(records, null, 2)
+
+  const container = findRecordContainer(columns)
+  const nested = records.map((record) => {
+    const output: Record<string, any> = {}
+    columns.forEach((column) => {
+      const path = container ? column.slice(container.length + 1) : column
+      setFieldValue(output, path, record[column] ?? null)
+    })
+    return output
+  })
+
+  if (!container) return JSON.stringify(nested, null, 2)
+
+  // Place the records where the sample kept them, e.g. { "orders": [...] }
+  const document: Record<string, any> = {}
+  const containerPath = parseFieldPath(container).slice(0, -1)
+  if (containerPath.length === 0) return JSON.stringify(nested, null, 2)
+  setFieldValue(document, containerPath.join("."), nested)
+  return JSON.stringify(document, null, 2)
+}
+
+export function writeCSV(records: Record<string, any>[], columns: string[]): string {
+  const escape = (value: any) => {
+    const text = formatCell(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  return [columns.map(escape).join(","), ...records.map((record) => columns.map((column) => escape(record[column])).join(","))].join(
+    "\r\n",
+  )
+}
+
+const escapeXML = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+// Element names cannot start with a digit or contain spaces and most punctuation
+const toElementName = (name: string) => {
+  const cleaned = name.replace(/[^A-Za-z0-9_.-]/g, "_")
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `_${cleaned}`
+}
+
+export function writeXML(records: Record<string, any>[], columns: string[]): string {
+  const body = records
+    .map((record) => {
+      const fields = columns
+        .map((column) => `    <${toElementName(column)}>${escapeXML(formatCell(record[column]))}</${toElementName(column)}>`)
+        .join("\n")
+      return `  <record>\n${fields}\n  </record>`
+    })
+    .join("\n")
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<data>\n${body}\n</data>`
+}
+
+// Excel limits sheet names to 31 characters and forbids a few punctuation marks
+const toSheetName = (name: string, used: Set<string>) => {
+  const base = name.replace(/[[\]:*?/\\]/g, "_").trim().slice(0, 31) || "Sheet"
+  let candidate = base
+  for (let index = 2; used.has(candidate.toLowerCase()); index++) {
+    const suffix = ` (${index})`
+    candidate = `${base.slice(0, 31 - suffix.length)}${suffix}`
+  }
+  used.add(candidate.toLowerCase())
+  return candidate
+}
+
+export function splitIntoSheets(records: Record<string, any>[], columns: string[], sheetBy: string): SheetData[] {
+  const groups = new Map<string, Record<string, any>[]>()
+  records.forEach((record) => {
+    const key = formatCell(record[sheetBy]).trim() || "(empty)"
+    const group = groups.get(key)
+    if (group) {
+      group.push(record)
+    } else {
+      groups.set(key, [record])
+    }
+  })
+
+  if (groups.size === 0) return [{ name: "Data", records, columns }]
+  return [...groups.entries()].map(([name, group]) => ({ name, records: group, columns }))
+}
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30)
+
+// Dates are UTC wall-clock values (see date-format.ts); Excel stores them as days since its epoch
+const toExcelSerial = (date: Date) => (date.getTime() - EXCEL_EPOCH) / 86400000
+
+const toCell = (value: any): XLSX.CellObject | undefined => {
+  if (value === null || value === undefined || value === "") return undefined
+  if (typeof value === "number") return isFinite(value) ? { t: "n", v: value } : { t: "s", v: String(value) }
+  if (typeof value === "boolean") return { t: "b", v: value }
+  if (value instanceof Date) return { t: "n", v: toExcelSerial(value), z: "yyyy-mm-dd hh:mm:ss" }
+
+  // The conversion engine writes dates as ISO text; other text stays text so codes keep their leading zeros
+  if (typeof value === "string") {
+    const date = parseDate(value, "yyyy-MM-dd")
+    if (date) return { t: "n", v: toExcelSerial(date), z: "yyyy-mm-dd" }
+    const dateTime = parseDate(value.replace(/Z$/, ""), "yyyy-MM-dd'T'HH:mm:ss")
+    if (dateTime) return { t: "n", v: toExcelSerial(dateTime), z: "yyyy-mm-dd hh:mm:ss" }
+  }
+
+  return { t: "s", v: formatCell(value) }
+}
+
+const MAX_COLUMN_WIDTH = 60
+
+const HEADER_STYLE = {
+  font: { bold: true, color: { rgb: "FFFFFF" } },
+  fill: { fgColor: { rgb: "4472C4" } },
+  border: { bottom: { style: "thin", color: { rgb: "2F5597" } } },
+}
+
+export function writeXLSX(sheets: SheetData[]): ArrayBuffer {
+  const workbook = XLSX.utils.book_new()
+  const used = new Set<string>()
+
+  sheets.forEach(({ name, records, columns }) => {
+    const sheet: XLSX.WorkSheet = {}
+    const widths = columns.map((column) => column.length)
+
+    columns.forEach((column, col) => {
+      sheet[XLSX.utils.encode_cell({ r: 0, c: col })] = { t: "s", v: column, s: HEADER_STYLE }
+    })
+    records.forEach((record, index) => {
+      columns.forEach((column, col) => {
+        const cell = toCell(record[column])
+        if (!cell) return
+        sheet[XLSX.utils.encode_cell({ r: index + 1, c: col })] = cell
+        widths[col] = Math.max(widths[col], cell.z ? String(cell.z).length : formatCell(record[column]).length)
+      })
+    })
+
+    const range = { s: { r: 0, c: 0 }, e: { r: records.length, c: Math.max(columns.length - 1, 0) } }
+    sheet["!ref"] = XLSX.utils.encode_range(range)
+    if (columns.length > 0) sheet["!autofilter"] = { ref: XLSX.utils.encode_range(range) }
+    sheet["!cols"] = widths.map((width) => ({ wch: Math.min(width + 2, MAX_COLUMN_WIDTH) }))
+
+    XLSX.utils.book_append_sheet(workbook, sheet, toSheetName(name, used))
+  })
+
+  return XLSX.write(workbook, { type: "array", bookType: "xlsx" })
+}
+
+// Header row of the first sheet of a spreadsheet, used to mirror the target's column order
+export function readSpreadsheetColumns(data: ArrayBuffer): string[] {
+  const workbook = XLSX.read(data, { type: "array", sheetRows: 1 })
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  if (!sheet) return []
+
+  const [header = []] = XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1, blankrows: false })
+  return header.map((cell) => String(cell ?? "").trim()).filter(Boolean)
+}
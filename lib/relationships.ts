@@ -0,0 +1,132 @@
+import type { CandidateKey, SourceJoin } from "@/lib/mapping-schemas"
+import { attachLinkedFields, type SheetRows } from "@/lib/sheet-references"
+
+// Names of fields that identify a record
+export const KEY_FIELD_NAME = /(^|[^a-z])(id|key|code|number|no|nr|ref|reference|uuid|guid|email)$/i
+
+// Key names that every table may have, which only link files when qualified ("customer_id")
+const GENERIC_KEY_NAME = /^(id|key|code|number|no|nr)$/i
+
+// Share of the filled values of a field that must be found in a key before it counts as a foreign key
+const MIN_COVERAGE = 0.8
+// Values only link files by accident when there are few of them, or when they are numbers whose
+// field names do not suggest a link
+const MIN_LINKED_VALUES = 2
+const MIN_UNNAMED_COVERAGE = 0.95
+const UNNAMED_CONFIDENCE = 0.8
+
+const keyOf = (value: any) => (value === null || value === undefined ? "" : String(value).trim().toLowerCase())
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "")
+const isScalar = (value: any) =>
+  value === null || value === undefined || typeof value !== "object" || value instanceof Date
+
+// "customers.csv" -> "customers", the table name related fields are qualified with
+export function tableNameOf(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "")
+}
+
+// Fields that are filled and unique in every record, with fields named like keys first
+export function findCandidateKeys(table: SheetRows): CandidateKey[] {
+  if (table.rows.length < 2) return []
+
+  return table.columns
+    .filter((column) => {
+      const keys = table.rows.map((row) => (isScalar(row[column]) ? keyOf(row[column]) : ""))
+      return keys.every(Boolean) && new Set(keys).size === keys.length
+    })
+    .sort((a, b) => Number(KEY_FIELD_NAME.test(b)) - Number(KEY_FIELD_NAME.test(a)))
+    .map((field) => ({ file: table.name, field, records: table.rows.length }))
+}
+
+// "customer_id" in orders names "id" of customers, as does a field with the same specific name as the key
+function namesKey(field: string, table: string, key: string): boolean {
+  const singular = table.replace(/(ies|s)$/i, (ending) => (ending.toLowerCase() === "ies" ? "y" : ""))
+  if (normalize(field) === normalize(key)) return !GENERIC_KEY_NAME.test(normalize(key))
+  return [normalize(singular + key), normalize(table + key)].includes(normalize(field))
+}
+
+function findJoin(table: SheetRows, field: string, related: SheetRows, key: string): SourceJoin | null {
+  const keys = new Set(related.rows.map((row) => keyOf(row[key])))
+  const values = table.rows.map((row) => (isScalar(row[field]) ? keyOf(row[field]) : "")).filter(Boolean)
+  if (values.length === 0) return null
+
+  const linked = values.filter((value) => keys.has(value))
+  const coverage = linked.length / values.length
+  if (coverage < MIN_COVERAGE || new Set(linked).size < MIN_LINKED_VALUES) return null
+
+  const named = namesKey(field, related.name, key)
+  const numeric = linked.every((value) => !isNaN(Number(value)))
+  if (!named && (numeric || coverage < MIN_UNNAMED_COVERAGE)) return null
+
+  return {
+    file: table.name,
+    field,
+    related_file: related.name,
+    related_field: key,
+    coverage: Math.round(coverage * 100) / 100,
+    cardinality: new Set(values).size === values.length ? "one_to_one" : "many_to_one",
+    confidence: Math.round(coverage * (named ? 1 : UNNAMED_CONFIDENCE) * 100) / 100,
+  }
+}
+
+// Likely foreign keys between the tables: fields whose values are found in a candidate key of another
+// table. A field links to one key at most, and a one-to-one link is listed once.
+export function findSourceJoins(tables: SheetRows[]): SourceJoin[] {
+  const keysByTable = new Map(tables.map((table) => [table.name, findCandidateKeys(table)]))
+  const joins: SourceJoin[] = []
+
+  tables.forEach((table) => {
+    table.columns.forEach((field) => {
+      const candidates = tables
+        .filter((related) => related !== table)
+        .flatMap((related) => keysByTable.get(related.name)!.map((key) => findJoin(table, field, related, key.field)))
+        .filter((join): join is SourceJoin => join !== null)
+        .sort((a, b) => b.confidence - a.confidence)
+      if (candidates.length > 0) joins.push(candidates[0])
+    })
+  })
+
+  return joins
+    .filter(
+      (join, index) =>
+        !joins.some(
+          (other, otherIndex) =>
+            otherIndex < index &&
+            other.file === join.related_file &&
+            other.field === join.related_field &&
+            other.related_file === join.file &&
+            other.related_field === join.field,
+        ),
+    )
+    .sort((a, b) => b.confidence - a.confidence)
+}
+
+// Adds the fields of related files to the source records through the joins that involve the source.
+// A join from the source gives each record the one related row its key points at; a join to the
+// source gives each record the values of all related rows that point at it.
+export function applySourceJoins(
+  source: SheetRows,
+  related: SheetRows[],
+  joins: SourceJoin[],
+): { records: Record<string, any>[]; columns: string[]; warnings: string[] } {
+  const warnings: string[] = []
+  let linked = source
+
+  joins.forEach((join) => {
+    const outgoing = join.file === source.name
+    const otherName = outgoing ? join.related_file : join.file
+    if (!outgoing && join.related_file !== source.name) return
+
+    const other = related.find((table) => table.name === otherName)
+    if (!other) {
+      warnings.push(`Fields of "${otherName}" are empty: the file was not uploaded with the source`)
+      return
+    }
+    linked = attachLinkedFields(linked, other, {
+      recordColumn: outgoing ? join.field : join.related_field,
+      otherColumn: outgoing ? join.related_field : join.field,
+    })
+  })
+
+  return { records: linked.rows, columns: linked.columns, warnings }
+}
@@ -0,0 +1,135 @@
+import type { FilterRule, RowFilterConfig } from "@/lib/mapping-schemas"
+import type { SourceRecord } from "@/lib/document-processor"
+import { evaluateCondition, parseExpression, type ExpressionNode } from "@/lib/expression-language"
+
+export interface RowExclusion {
+  reason: string
+  count: number
+  rows: number[]
+}
+
+export interface FilteredRecords {
+  records: Array<{ record: SourceRecord; row: number }>
+  exclusions: RowExclusion[]
+  warnings: string[]
+}
+
+type FieldReader = (record: SourceRecord, field: string) => any
+
+// Only the first rows per reason are listed; the count always covers all of them
+const MAX_EXCLUDED_ROWS_LISTED = 20
+
+export const FILTER_OPERATOR_LABELS: Record<FilterRule["operator"], string> = {
+  equals: "equals",
+  not_equals: "does not equal",
+  contains: "contains",
+  starts_with: "starts with",
+  ends_with: "ends with",
+  is_empty: "is empty",
+  is_not_empty: "is not empty",
+  matches: "matches pattern",
+  expression: "expression",
+}
+
+export function describeFilterRule(rule: FilterRule): string {
+  if (rule.description) return rule.description
+  if (rule.operator === "expression") return `Expression: ${rule.value ?? ""}`
+  if (rule.operator === "is_empty" || rule.operator === "is_not_empty") {
+    return `${rule.field} ${FILTER_OPERATOR_LABELS[rule.operator]}`
+  }
+  return `${rule.field} ${FILTER_OPERATOR_LABELS[rule.operator]} "${rule.value ?? ""}"`
+}
+
+export function recordExclusion(exclusions: Map<string, RowExclusion>, reason: string, row: number) {
+  const exclusion = exclusions.get(reason) ?? { reason, count: 0, rows: [] }
+  exclusion.count++
+  if (exclusion.rows.length < MAX_EXCLUDED_ROWS_LISTED) exclusion.rows.push(row)
+  exclusions.set(reason, exclusion)
+}
+
+const normalize = (value: any) => (value === null || value === undefined ? "" : String(value).trim().toLowerCase())
+
+function compileRule(rule: FilterRule, read: FieldReader): (record: SourceRecord) => boolean {
+  const expected = normalize(rule.value)
+
+  switch (rule.operator) {
+    case "equals":
+      return (record) => normalize(read(record, rule.field)) === expected
+    case "not_equals":
+      return (record) => normalize(read(record, rule.field)) !== expected
+    case "contains":
+      return (record) => normalize(read(record, rule.field)).includes(expected)
+    case "starts_with":
+      return (record) => normalize(read(record, rule.field)).startsWith(expected)
+    case "ends_with":
+      return (record) => normalize(read(record, rule.field)).endsWith(expected)
+    case "is_empty":
+      return (record) => normalize(read(record, rule.field)) === ""
+    case "is_not_empty":
+      return (record) => normalize(read(record, rule.field)) !== ""
+    case "matches": {
+      const pattern = new RegExp(rule.value ?? "", "i")
+      return (record) => pattern.test(String(read(record, rule.field) ?? ""))
+    }
+    case "expression": {
+      const condition: ExpressionNode = parseExpression(rule.value ?? "")
+      return (record) => evaluateCondition(condition, (field) => read(record, field))
+    }
+  }
+}
+
+// Rows are numbered from 1 in source order so exclusions and row issues point at the same records
+export function applyRowFilters(
+  records: SourceRecord[],
+  columns: string[],
+  config: RowFilterConfig | undefined,
+  read: FieldReader,
+): FilteredRecords {
+  const exclusions = new Map<string, RowExclusion>()
+  const warnings: string[] = []
+  const leading = config?.skip_leading_rows ?? 0
+  const trailing = config?.skip_trailing_rows ?? 0
+
+  const rules: Array<{ reason: string; test: (record: SourceRecord) => boolean }> = []
+  config?.rules.forEach((rule) => {
+    const reason = describeFilterRule(rule)
+    try {
+      rules.push({ reason, test: compileRule(rule, read) })
+    } catch (error) {
+      warnings.push(`Filter "${reason}" was ignored: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  })
+
+  const kept: FilteredRecords["records"] = []
+
+  records.forEach((record, index) => {
+    const row = index + 1
+
+    if (index < leading) {
+      return recordExclusion(exclusions, `Skipped first ${leading} ${leading === 1 ? "row" : "rows"}`, row)
+    }
+    if (index >= records.length - trailing) {
+      return recordExclusion(exclusions, `Skipped last ${trailing} ${trailing === 1 ? "row" : "rows"}`, row)
+    }
+
+    if (
+      config?.drop_repeated_headers &&
+      columns.length > 0 &&
+      columns.every((column) => normalize(record[column]) === normalize(column))
+    ) {
+      return recordExclusion(exclusions, "Repeated header row", row)
+    }
+
+    for (const rule of rules) {
+      try {
+        if (rule.test(record)) return recordExclusion(exclusions, rule.reason, row)
+      } catch {
+        // A rule that cannot be evaluated for this row (e.g. a non-numeric amount) does not exclude it
+      }
+    }
+
+    kept.push({ record, row })
+  })
+
+  return { records: kept, exclusions: [...exclusions.values()], warnings }
+}
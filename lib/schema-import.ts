@@ -0,0 +1,804 @@
+import type { DataType, FieldDictionaryEntry } from "@/lib/mapping-schemas"
+import { parseXMLDocument, type XmlElement } from "@/lib/xml-template"
+import { parse as parseYAML } from "yaml"
+
+export type SchemaKind = "json_schema" | "xsd" | "sql_ddl" | "openapi" | "graphql"
+
+export interface SchemaFields {
+  kind: SchemaKind
+  fields: FieldDictionaryEntry[]
+  // Operations of an OpenAPI document or input types of a GraphQL schema, and the one the fields are of
+  entries?: string[]
+  entry?: string
+  warnings: string[]
+}
+
+// $refs are followed this deep, so recursive definitions such as a tree of categories end
+const MAX_DEPTH = 8
+
+export function detectSchemaKind(fileName: string, text: string): SchemaKind | null {
+  const extension = fileName.split(".").pop()?.toLowerCase()
+  if (extension === "xsd") return "xsd"
+  if (extension === "sql" || extension === "ddl") return "sql_ddl"
+  if (extension === "graphql" || extension === "gql" || extension === "graphqls") return "graphql"
+  if (extension === "yaml" || extension === "yml") return "openapi"
+  if (extension === "json" && isOpenAPI(text)) return "openapi"
+  if (extension === "json" && isJSONSchema(text)) return "json_schema"
+  return null
+}
+
+export function isOpenAPI(text: string): boolean {
+  try {
+    const data = JSON.parse(text)
+    return typeof data?.openapi === "string" || typeof data?.swagger === "string"
+  } catch {
+    return false
+  }
+}
+
+export function isJSONSchema(text: string): boolean {
+  try {
+    const data = JSON.parse(text)
+    if (typeof data !== "object" || data === null || Array.isArray(data)) return false
+    if (typeof data.$schema === "string" && data.$schema.includes("json-schema")) return true
+    // Without $schema: an object or array type described by its properties or items
+    return (data.type === "object" && typeof data.properties === "object") || (data.type === "array" && !!data.items)
+  } catch {
+    return false
+  }
+}
+
+// The fields a schema defines. An OpenAPI document or GraphQL schema describes several payloads, so
+// entry picks the operation ("POST /orders" or its operationId) or input type; the first is used
+// when it is not given.
+export async function readSchemaFields(
+  kind: SchemaKind,
+  text: string,
+  document: string,
+  entry?: string,
+): Promise<SchemaFields> {
+  switch (kind) {
+    case "json_schema":
+      return readJSONSchema(text, document)
+    case "xsd":
+      return readXSD(text, document)
+    case "sql_ddl":
+      return readSQLDDL(text, document)
+    case "openapi":
+      return readOpenAPI(text, document, entry)
+    case "graphql":
+      return readGraphQL(text, document, entry)
+  }
+}
+
+// The payloads a user can choose between, without reading their fields
+export function listSchemaEntries(kind: SchemaKind, text: string): string[] {
+  if (kind === "openapi") return openAPIEntries(parseAPIDocument(text)).map((candidate) => candidate.id)
+  if (kind === "graphql") return inputTypeNames(readGraphQLDefinitions(text).inputs)
+  return []
+}
+
+const entry = (
+  name: string,
+  document: string,
+  properties: Omit<FieldDictionaryEntry, "name" | "document">,
+): FieldDictionaryEntry => {
+  const cleaned = Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined))
+  return { name, document, ...cleaned }
+}
+
+/* JSON Schema */
+
+function jsonType(schema: any): DataType {
+  const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type]
+  const type = types.find((candidate) => candidate && candidate !== "null")
+  if (type === "integer" || type === "number") return "number"
+  if (type === "boolean") return "boolean"
+  if (type === "array") return "array"
+  if (type === "object") return "object"
+  if (type === "string" && ["date", "date-time", "time"].includes(schema.format)) return "date"
+  if (!type && schema.enum?.every((value: any) => typeof value === "number")) return "number"
+  // OpenAPI schemas often leave out the type of an object or array
+  if (!type && schema.properties) return "object"
+  if (!type && schema.items) return "array"
+  return "string"
+}
+
+function readJSONSchema(text: string, document: string): SchemaFields {
+  const root = JSON.parse(text)
+  return { kind: "json_schema", ...jsonSchemaFields(root, root, document) }
+}
+
+// Fields of a JSON Schema by path: "customer.address.city", and "lines[].sku" for the objects in an
+// array. A field is mandatory when it and every object around it are required. $refs are resolved
+// against root, the document the schema is part of. A request body leaves out read-only properties,
+// which the API sets itself.
+function jsonSchemaFields(
+  root: any,
+  schema: any,
+  document: string,
+  requestBody = false,
+): { fields: FieldDictionaryEntry[]; warnings: string[] } {
+  const fields: FieldDictionaryEntry[] = []
+  const warnings: string[] = []
+
+  const resolve = (schema: any, depth: number): any => {
+    if (!schema || typeof schema !== "object") return {}
+    if (typeof schema.$ref === "string") {
+      if (!schema.$ref.startsWith("#")) {
+        warnings.push(`External reference ${schema.$ref} cannot be resolved`)
+        return {}
+      }
+      const target = schema.$ref
+        .slice(1)
+        .split("/")
+        .filter(Boolean)
+        .reduce(
+          (node: any, key: string) => node?.[decodeURIComponent(key.replace(/~1/g, "/").replace(/~0/g, "~"))],
+          root,
+        )
+      if (!target) warnings.push(`Reference ${schema.$ref} does not exist`)
+      const { $ref, ...rest } = schema
+      return depth > MAX_DEPTH ? {} : { ...resolve(target, depth + 1), ...rest }
+    }
+    if (Array.isArray(schema.allOf)) {
+      const parts = schema.allOf.map((part: any) => resolve(part, depth + 1))
+      const { allOf, ...rest } = schema
+      return parts.reduce(
+        (merged: any, part: any) => ({
+          ...merged,
+          ...part,
+          properties: { ...merged.properties, ...part.properties },
+          required: [...(merged.required || []), ...(part.required || [])],
+        }),
+        rest,
+      )
+    }
+    // Of several alternatives the first that is not just null describes the field
+    const options = schema.oneOf || schema.anyOf
+    if (Array.isArray(options)) {
+      const option = options.find((candidate: any) => candidate?.type !== "null") ?? options[0]
+      const { oneOf, anyOf, ...rest } = schema
+      return { ...resolve(option, depth + 1), ...rest }
+    }
+    return schema
+  }
+
+  const walk = (raw: any, path: string, mandatory: boolean, depth: number) => {
+    const schema = resolve(raw, depth)
+    const type = jsonType(schema)
+
+    if (depth > MAX_DEPTH) {
+      warnings.push(`${path} nests deeper than ${MAX_DEPTH} levels and was not expanded`)
+      return
+    }
+    if (type === "object" && schema.properties) {
+      const required: string[] = schema.required || []
+      Object.entries(schema.properties)
+        .filter(([, property]) => !(requestBody && resolve(property, depth + 1).readOnly))
+        .forEach(([name, property]) =>
+          walk(property, path ? `${path}.${name}` : name, mandatory && required.includes(name), depth + 1),
+        )
+      return
+    }
+    if (type === "array") {
+      const items = resolve(schema.items, depth + 1)
+      if (jsonType(items) === "object" && items.properties) {
+        walk(items, `${path}[]`, mandatory && (schema.minItems ?? 0) > 0, depth + 1)
+        return
+      }
+    }
+
+    const values = schema.enum ?? (schema.const !== undefined ? [schema.const] : undefined)
+    fields.push(
+      entry(path || "value", document, {
+        description: schema.description ?? schema.title,
+        type,
+        spec_type: schema.format ? `${schema.type} (${schema.format})` : [schema.type].flat().join(" | ") || undefined,
+        length: schema.maxLength,
+        mandatory,
+        allowed_values: values?.filter((value: any) => value !== null).map(String),
+        pattern: schema.pattern,
+        minimum: schema.minimum ?? schema.exclusiveMinimum,
+        maximum: schema.maximum ?? schema.exclusiveMaximum,
+      }),
+    )
+  }
+
+  // A document that is a list of records is described by the schema of its items
+  const top = resolve(schema, 0)
+  const record = jsonType(top) === "array" ? resolve(top.items, 1) : top
+  walk(record, "", true, 0)
+
+  return { fields, warnings }
+}
+
+/* OpenAPI */
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"]
+
+interface OpenAPIEntry {
+  // "POST /orders", or "#/components/schemas/Order" for a schema without an operation
+  id: string
+  operationId?: string
+  schema: any
+}
+
+// Merge keys ("<<: *defaults") are common in API descriptions though YAML 1.2 dropped them
+const parseAPIDocument = (text: string) =>
+  text.trimStart().startsWith("{") ? JSON.parse(text) : parseYAML(text, { merge: true })
+
+const resolveRef = (spec: any, value: any) =>
+  typeof value?.$ref === "string" && value.$ref.startsWith("#/")
+    ? value.$ref
+        .slice(2)
+        .split("/")
+        .reduce((node: any, key: string) => node?.[key.replace(/~1/g, "/").replace(/~0/g, "~")], spec)
+    : value
+
+// Operations with a request body (OpenAPI 3) or body parameter (Swagger 2), then the named schemas
+function openAPIEntries(spec: any): OpenAPIEntry[] {
+  if (!spec || (typeof spec.openapi !== "string" && typeof spec.swagger !== "string")) {
+    throw new Error("The document is not an OpenAPI description (no openapi or swagger version)")
+  }
+
+  const operations = Object.entries<any>(spec.paths || {}).flatMap(([path, item]) =>
+    HTTP_METHODS.filter((method) => item?.[method]).flatMap((method) => {
+      const operation = item[method]
+      const content = resolveRef(spec, operation.requestBody)?.content
+      const mediaType = content && (Object.keys(content).find((type) => type.includes("json")) ?? Object.keys(content)[0])
+      const bodyParameter = [...(item.parameters || []), ...(operation.parameters || [])]
+        .map((parameter: any) => resolveRef(spec, parameter))
+        .find((parameter: any) => parameter?.in === "body")
+      const schema = mediaType ? content[mediaType].schema : bodyParameter?.schema
+      return schema ? [{ id: `${method.toUpperCase()} ${path}`, operationId: operation.operationId, schema }] : []
+    }),
+  )
+
+  const schemas = spec.components?.schemas ? "#/components/schemas" : "#/definitions"
+  const named = Object.keys(spec.components?.schemas ?? spec.definitions ?? {}).map((name) => ({
+    id: `${schemas}/${name}`,
+    schema: { $ref: `${schemas}/${name}` },
+  }))
+  return [...operations, ...named]
+}
+
+function readOpenAPI(text: string, document: string, selected?: string): SchemaFields {
+  const spec = parseAPIDocument(text)
+  const entries = openAPIEntries(spec)
+  if (entries.length === 0) throw new Error("The OpenAPI document has no request bodies or schemas")
+
+  const chosen = selected
+    ? entries.find((candidate) => candidate.id === selected || candidate.operationId === selected)
+    : entries[0]
+  if (!chosen) {
+    throw new Error(`Operation ${selected} does not exist; choose one of ${entries.map((candidate) => candidate.id).join(", ")}`)
+  }
+
+  return {
+    kind: "openapi",
+    ...jsonSchemaFields(spec, chosen.schema, document, true),
+    entries: entries.map((candidate) => candidate.id),
+    entry: chosen.id,
+  }
+}
+
+/* GraphQL SDL */
+
+const GRAPHQL_SCALARS: Record<string, DataType> = {
+  Int: "number",
+  Float: "number",
+  Boolean: "boolean",
+  String: "string",
+  ID: "string",
+}
+
+const DEFINITION_KEYWORDS = new Set(["type", "interface", "union", "enum", "input", "scalar", "schema", "directive", "extend"])
+
+interface GraphQLTypeRef {
+  name: string
+  list: boolean
+  required: boolean
+  text: string
+}
+
+interface GraphQLInputField {
+  name: string
+  description?: string
+  type: GraphQLTypeRef
+  hasDefault: boolean
+}
+
+// Input types and enums of an SDL document; object types, interfaces and the rest are skipped
+function readGraphQLDefinitions(text: string) {
+  const tokens = (
+    text.match(/"""[\s\S]*?"""|"(?:[^"\\\n]|\\.)*"|#[^\n]*|[A-Za-z_]\w*|-?\d+(?:\.\d+)?(?:[eE][-+]?\d+)?|\.\.\.|[!$():=@[\]{}|&]/g) ?? []
+  ).filter((token) => !token.startsWith("#"))
+  const inputs = new Map<string, GraphQLInputField[]>()
+  const enums = new Map<string, string[]>()
+  let i = 0
+
+  const isString = (token?: string) => !!token?.startsWith('"')
+  const description = (token: string) => (token.startsWith('"""') ? token.slice(3, -3).trim() : JSON.parse(token))
+  const skipBalanced = () => {
+    const open = tokens[i]
+    const close = ({ "{": "}", "(": ")", "[": "]" } as Record<string, string>)[open]
+    let depth = 0
+    do {
+      if (tokens[i] === open) depth++
+      else if (tokens[i] === close) depth--
+      i++
+    } while (depth > 0 && i < tokens.length)
+  }
+  const skipDirectives = () => {
+    while (tokens[i] === "@") {
+      i += 2
+      if (tokens[i] === "(") skipBalanced()
+    }
+  }
+  const parseType = (): GraphQLTypeRef => {
+    const start = i
+    let name: string
+    let list = false
+    if (tokens[i] === "[") {
+      i++
+      name = parseType().name
+      i++
+      list = true
+    } else {
+      name = tokens[i++]
+    }
+    const required = tokens[i] === "!"
+    if (required) i++
+    return { name, list, required, text: tokens.slice(start, i).join("") }
+  }
+
+  while (i < tokens.length) {
+    if (isString(tokens[i])) i++
+    if (tokens[i] === "extend") i++
+    const keyword = tokens[i++]
+
+    if ((keyword === "input" || keyword === "enum") && tokens[i]) {
+      const name = tokens[i++]
+      skipDirectives()
+      if (tokens[i] !== "{") continue
+      i++
+
+      while (i < tokens.length && tokens[i] !== "}") {
+        const fieldDescription = isString(tokens[i]) ? description(tokens[i++]) : undefined
+        const fieldName = tokens[i++]
+        if (keyword === "enum") {
+          enums.set(name, [...(enums.get(name) ?? []), fieldName])
+          skipDirectives()
+          continue
+        }
+
+        i++ // ":"
+        const type = parseType()
+        let hasDefault = false
+        if (tokens[i] === "=") {
+          hasDefault = true
+          i++
+          if (["[", "{"].includes(tokens[i])) skipBalanced()
+          else i++
+        }
+        skipDirectives()
+        inputs.set(name, [...(inputs.get(name) ?? []), { name: fieldName, description: fieldDescription, type, hasDefault }])
+      }
+      i++
+      continue
+    }
+
+    // Anything else up to the next definition: the body of a type, a union's members, a scalar
+    while (i < tokens.length && !DEFINITION_KEYWORDS.has(tokens[i]) && !isString(tokens[i])) {
+      if (["{", "(", "["].includes(tokens[i])) skipBalanced()
+      else i++
+    }
+  }
+
+  return { inputs, enums }
+}
+
+// Input types that no other input type uses come first: they are what mutations take
+function inputTypeNames(inputs: Map<string, GraphQLInputField[]>): string[] {
+  const nestedTypes = new Set([...inputs.values()].flat().map((field) => field.type.name))
+  const names = [...inputs.keys()]
+  return [...names.filter((name) => !nestedTypes.has(name)), ...names.filter((name) => nestedTypes.has(name))]
+}
+
+// Fields of a GraphQL input type by path, with nested input objects as "address.city" and lists of
+// them as "lines[].sku". A non-null field without a default value is mandatory.
+function readGraphQL(text: string, document: string, selected?: string): SchemaFields {
+  const { inputs, enums } = readGraphQLDefinitions(text)
+  if (inputs.size === 0) throw new Error("The GraphQL schema defines no input types")
+
+  const names = inputTypeNames(inputs)
+  const chosen = selected ?? names[0]
+  if (!inputs.has(chosen)) {
+    throw new Error(`Input type ${chosen} does not exist; choose one of ${names.join(", ")}`)
+  }
+
+  const fields: FieldDictionaryEntry[] = []
+  const warnings: string[] = []
+  const walk = (typeName: string, path: string, mandatory: boolean, depth: number) => {
+    inputs.get(typeName)!.forEach((field) => {
+      const fieldPath = path ? `${path}.${field.name}` : field.name
+      const required = mandatory && field.type.required && !field.hasDefault
+
+      if (inputs.has(field.type.name)) {
+        if (depth >= MAX_DEPTH) warnings.push(`${fieldPath} nests deeper than ${MAX_DEPTH} levels and was not expanded`)
+        else walk(field.type.name, field.type.list ? `${fieldPath}[]` : fieldPath, required, depth + 1)
+        return
+      }
+
+      const values = enums.get(field.type.name)
+      const scalarType = GRAPHQL_SCALARS[field.type.name] ?? (/date|time/i.test(field.type.name) ? "date" : "string")
+      fields.push(
+        entry(fieldPath, document, {
+          description: field.description,
+          type: field.type.list ? "array" : values ? "string" : scalarType,
+          spec_type: field.type.text,
+          mandatory: required,
+          allowed_values: values,
+        }),
+      )
+    })
+  }
+
+  walk(chosen, "", true, 0)
+  return { kind: "graphql", fields, entries: names, entry: chosen, warnings }
+}
+
+/* XSD */
+
+const localName = (name: string) => name.slice(name.indexOf(":") + 1)
+const childrenNamed = (element: XmlElement, name: string) =>
+  element.children.filter((child) => localName(child.name) === name)
+const childNamed = (element: XmlElement, name: string) => childrenNamed(element, name)[0]
+
+const XSD_NUMBER_TYPES = [
+  "decimal",
+  "integer",
+  "int",
+  "long",
+  "short",
+  "byte",
+  "float",
+  "double",
+  "nonNegativeInteger",
+  "positiveInteger",
+  "negativeInteger",
+  "nonPositiveInteger",
+  "unsignedInt",
+  "unsignedLong",
+  "unsignedShort",
+  "unsignedByte",
+]
+const XSD_DATE_TYPES = ["date", "dateTime", "time", "gYear", "gYearMonth"]
+
+function xsdType(base: string): DataType {
+  const name = localName(base)
+  if (XSD_NUMBER_TYPES.includes(name)) return "number"
+  if (XSD_DATE_TYPES.includes(name)) return "date"
+  if (name === "boolean") return "boolean"
+  return "string"
+}
+
+interface SimpleTypeFacets {
+  base: string
+  length?: number
+  allowed_values?: string[]
+  pattern?: string
+  minimum?: number
+  maximum?: number
+}
+
+// Fields of an XSD by element path relative to the record element; attributes are "path.@name".
+// Wrapper elements that hold a single repeating element are the document around the records.
+async function readXSD(text: string, document: string): Promise<SchemaFields> {
+  const { root: schema } = await parseXMLDocument(text)
+  if (localName(schema.name) !== "schema") throw new Error("The document is not an XML Schema (no xs:schema root)")
+
+  const fields: FieldDictionaryEntry[] = []
+  const warnings: string[] = []
+  const globals = (kind: string) =>
+    new Map(childrenNamed(schema, kind).map((element) => [element.attributes.name, element] as const))
+  const elements = globals("element")
+  const complexTypes = globals("complexType")
+  const simpleTypes = globals("simpleType")
+
+  const description = (element: XmlElement) => {
+    const documentation =
+      childNamed(element, "annotation") && childNamed(childNamed(element, "annotation"), "documentation")
+    return documentation?.text.trim() || undefined
+  }
+
+  const facetsOf = (simpleType: XmlElement, depth = 0): SimpleTypeFacets => {
+    const restriction = childNamed(simpleType, "restriction")
+    if (!restriction) return { base: "string" }
+    const facet = (name: string) => childNamed(restriction, name)?.attributes.value
+    const baseName = restriction.attributes.base || "string"
+    const inherited =
+      simpleTypes.has(localName(baseName)) && depth < MAX_DEPTH
+        ? facetsOf(simpleTypes.get(localName(baseName))!, depth + 1)
+        : { base: baseName }
+    const enumeration = childrenNamed(restriction, "enumeration").map((value) => value.attributes.value)
+    const number = (value?: string) => (value !== undefined && value !== "" ? Number(value) : undefined)
+
+    return {
+      ...inherited,
+      length: number(facet("maxLength") ?? facet("length") ?? facet("totalDigits")) ?? inherited.length,
+      allowed_values: enumeration.length > 0 ? enumeration : inherited.allowed_values,
+      // XSD patterns match the whole value; JSON Schema patterns, like a RegExp, match anywhere
+      pattern: facet("pattern") !== undefined ? `^(?:${facet("pattern")})$` : inherited.pattern,
+      minimum: number(facet("minInclusive") ?? facet("minExclusive")) ?? inherited.minimum,
+      maximum: number(facet("maxInclusive") ?? facet("maxExclusive")) ?? inherited.maximum,
+    }
+  }
+
+  const addLeaf = (
+    path: string,
+    typeName: string | undefined,
+    inline: XmlElement | undefined,
+    mandatory: boolean,
+    source: XmlElement,
+  ) => {
+    const facets = inline
+      ? facetsOf(inline)
+      : typeName && simpleTypes.has(localName(typeName))
+        ? facetsOf(simpleTypes.get(localName(typeName))!)
+        : { base: typeName || "string" }
+    fields.push(
+      entry(path, document, {
+        description: description(source) ?? (inline ? description(inline) : undefined),
+        type: xsdType(facets.base),
+        spec_type: typeName ?? localName(facets.base),
+        length: facets.length,
+        mandatory,
+        allowed_values: facets.allowed_values,
+        pattern: facets.pattern,
+        minimum: facets.minimum,
+        maximum: facets.maximum,
+      }),
+    )
+  }
+
+  const isRepeating = (element: XmlElement) => {
+    const max = element.attributes.maxOccurs
+    return max === "unbounded" || Number(max) > 1
+  }
+
+  // The elements and attributes of a complex type, including those of the type it extends
+  const contentOf = (complexType: XmlElement, depth: number): { elements: XmlElement[]; attributes: XmlElement[] } => {
+    const elementsIn = (node: XmlElement): XmlElement[] =>
+      node.children.flatMap((child) => {
+        const name = localName(child.name)
+        if (name === "element") return [child]
+        if (["sequence", "all", "choice"].includes(name)) return elementsIn(child)
+        return []
+      })
+    let content = { elements: elementsIn(complexType), attributes: childrenNamed(complexType, "attribute") }
+
+    const derived = childNamed(complexType, "complexContent") ?? childNamed(complexType, "simpleContent")
+    const extension = derived && (childNamed(derived, "extension") ?? childNamed(derived, "restriction"))
+    if (extension) {
+      const base = complexTypes.get(localName(extension.attributes.base || ""))
+      const inherited = base && depth < MAX_DEPTH ? contentOf(base, depth + 1) : { elements: [], attributes: [] }
+      content = {
+        elements: [...inherited.elements, ...elementsIn(extension)],
+        attributes: [...inherited.attributes, ...childrenNamed(extension, "attribute")],
+      }
+    }
+    return content
+  }
+
+  const complexTypeOf = (element: XmlElement) =>
+    childNamed(element, "complexType") ?? complexTypes.get(localName(element.attributes.type || ""))
+
+  // The path of the record element itself is null; its children are named from there
+  const walk = (raw: XmlElement, path: string | null, mandatory: boolean, depth: number) => {
+    const element = raw.attributes.ref ? elements.get(localName(raw.attributes.ref)) : raw
+    if (!element) {
+      warnings.push(`Element reference ${raw.attributes.ref} does not exist`)
+      return
+    }
+    const name = element.attributes.name
+    const repeating = isRepeating(raw)
+    const elementPath = path === null ? "" : [path, `${name}${repeating ? "[]" : ""}`].filter(Boolean).join(".")
+    const required = mandatory && raw.attributes.minOccurs !== "0"
+
+    const complexType = complexTypeOf(element)
+    if (!complexType) {
+      addLeaf(elementPath || name, element.attributes.type, childNamed(element, "simpleType"), required, element)
+      return
+    }
+    if (depth > MAX_DEPTH) {
+      warnings.push(`${elementPath || name} nests deeper than ${MAX_DEPTH} levels and was not expanded`)
+      return
+    }
+
+    const content = contentOf(complexType, 0)
+    content.attributes.forEach((attribute) => {
+      const attributePath = elementPath
+        ? `${elementPath}.@${attribute.attributes.name}`
+        : `@${attribute.attributes.name}`
+      addLeaf(
+        attributePath,
+        attribute.attributes.type,
+        childNamed(attribute, "simpleType"),
+        required && attribute.attributes.use === "required",
+        attribute,
+      )
+    })
+    // Text content next to attributes (simpleContent) is the value of the element itself
+    const simple = childNamed(complexType, "simpleContent")
+    const extension = simple && (childNamed(simple, "extension") ?? childNamed(simple, "restriction"))
+    if (extension) addLeaf(elementPath || name, extension.attributes.base, undefined, required, element)
+
+    content.elements.forEach((child) => walk(child, elementPath, required, depth + 1))
+  }
+
+  // The root is the first global element; wrappers down to the repeating record element are skipped
+  let record = [...elements.values()][0]
+  if (!record) throw new Error("The schema declares no global element")
+  for (let depth = 0; depth < MAX_DEPTH; depth++) {
+    const type = complexTypeOf(record)
+    const children = type ? contentOf(type, 0).elements : []
+    if (children.length !== 1) break
+    const [occurrence] = children
+    const child = occurrence.attributes.ref ? elements.get(localName(occurrence.attributes.ref)) : occurrence
+    if (!child || !complexTypeOf(child)) break
+    record = child
+    if (isRepeating(occurrence)) break
+  }
+
+  walk(record, null, true, 0)
+  return { kind: "xsd", fields, warnings }
+}
+
+/* SQL DDL */
+
+// Splits on commas outside parentheses and quotes
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let quote: string | null = null
+  let part = ""
+
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null
+    } else if (char === "'" || char === '"' || char === "`") {
+      quote = char
+    } else if (char === "(") {
+      depth++
+    } else if (char === ")") {
+      depth--
+    } else if (char === "," && depth === 0) {
+      parts.push(part.trim())
+      part = ""
+      continue
+    }
+    part += char
+  }
+
+  if (part.trim()) parts.push(part.trim())
+  return parts
+}
+
+const unquote = (name: string) => name.replace(/^[`"[]|[`"\]]$/g, "")
+const stringLiterals = (text: string) =>
+  [...text.matchAll(/'((?:[^']|'')*)'/g)].map((match) => match[1].replace(/''/g, "'"))
+
+function sqlType(type: string): DataType {
+  const name = type.toLowerCase()
+  if (/^(bool|boolean|bit)\b/.test(name)) return "boolean"
+  if (/^(date|datetime|datetime2|timestamp|timestamptz|time|smalldatetime)\b/.test(name)) return "date"
+  if (
+    /^(int|integer|bigint|smallint|tinyint|mediumint|serial|bigserial|decimal|numeric|number|real|float|double|money|smallmoney)\b/.test(
+      name,
+    )
+  ) {
+    return "number"
+  }
+  return "string"
+}
+
+const CONSTRAINT_KEYWORDS = /^(constraint|primary|foreign|unique|check|key|index|exclude)\b/i
+
+// Types of more than one word are matched whole, so "character varying(20)" keeps its size
+const MULTI_WORD_SQL_TYPE =
+  "(?:national\\s+)?(?:character|char)\\s+varying|national\\s+(?:character|char)|double\\s+precision|bit\\s+varying|" +
+  "long\\s+(?:varchar|raw)|(?:timestamp|time)(?:\\s*\\(\\s*\\d+\\s*\\))?\\s+with(?:out)?\\s+(?:local\\s+)?time\\s+zone"
+
+// Name, type with its optional size or values, and the rest of a column definition
+const SQL_COLUMN = new RegExp(
+  `^([\`"[][^\`"\\]]+[\`"\\]]|\\S+)\\s+((?:${MULTI_WORD_SQL_TYPE})\\b|[a-z]\\w*)(\\s*\\([^)]*\\))?(?=\\s|$)(.*)$`,
+  "is",
+)
+
+// Columns of the CREATE TABLE statements. One table gives plain column names; several give
+// "table.column" so the fields of each table stay apart.
+function readSQLDDL(text: string, document: string): SchemaFields {
+  const sql = text.replace(/--[^\n]*/g, "").replace(/\/\*[\s\S]*?\*\//g, "")
+  const statement =
+    /create\s+(?:or\s+replace\s+)?(?:(?:global\s+|local\s+)?temp(?:orary)?\s+)?table\s+(?:if\s+not\s+exists\s+)?([\w."`[\]]+)\s*\(/gi
+  const tables: Array<{ name: string; body: string }> = []
+  let match: RegExpExecArray | null
+
+  while ((match = statement.exec(sql))) {
+    // The column list ends at the parenthesis that closes the one after the table name
+    let depth = 1
+    let end = match.index + match[0].length
+    while (end < sql.length && depth > 0) {
+      if (sql[end] === "(") depth++
+      if (sql[end] === ")") depth--
+      end++
+    }
+    const name = unquote(match[1].split(".").pop() || match[1])
+    tables.push({ name, body: sql.slice(match.index + match[0].length, end - 1) })
+  }
+  if (tables.length === 0) throw new Error("The script contains no CREATE TABLE statement")
+
+  const comments = new Map<string, string>()
+  for (const comment of sql.matchAll(/comment\s+on\s+column\s+([\w."`[\]]+)\s+is\s+'((?:[^']|'')*)'/gi)) {
+    const parts = comment[1].split(".").map(unquote)
+    comments.set(parts.slice(-2).join(".").toLowerCase(), comment[2].replace(/''/g, "'"))
+  }
+
+  const fields: FieldDictionaryEntry[] = []
+  tables.forEach((table) => {
+    const definitions = splitTopLevel(table.body)
+    const keyColumns = new Set<string>()
+    const checks = new Map<string, string[]>()
+
+    // Table constraints: PRIMARY KEY (a, b) makes columns mandatory; CHECK (c IN (...)) lists values
+    definitions
+      .filter((definition) => CONSTRAINT_KEYWORDS.test(definition))
+      .forEach((definition) => {
+        const primary = definition.match(/primary\s+key\s*\(([^)]*)\)/i)
+        primary?.[1].split(",").forEach((column) => keyColumns.add(unquote(column.trim()).toLowerCase()))
+        const check = definition.match(/check\s*\(\s*([\w"`[\]]+)\s+in\s*\(([^)]*)\)/i)
+        if (check) checks.set(unquote(check[1]).toLowerCase(), stringLiterals(check[2]))
+      })
+
+    definitions
+      .filter((definition) => !CONSTRAINT_KEYWORDS.test(definition))
+      .forEach((definition) => {
+        const column = definition.match(SQL_COLUMN)
+        if (!column) return
+        const name = unquote(column[1])
+        const type = `${column[2].replace(/\s+/g, " ")}${column[3]?.trim() ?? ""}`
+        const rest = column[4]
+
+        const size = type.match(/\(\s*(\d+)/)?.[1]
+        const notNull =
+          /\bnot\s+null\b/i.test(rest) || /\bprimary\s+key\b/i.test(rest) || keyColumns.has(name.toLowerCase())
+        const hasDefault =
+          /\bdefault\b/i.test(rest) ||
+          /\b(serial|bigserial|identity|auto_increment|autoincrement)\b/i.test(`${type} ${rest}`)
+        const inline = rest.match(/check\s*\(\s*[\w"`[\]]+\s+in\s*\(([^)]*)\)/i)
+        const enumValues = /^enum\s*\(/i.test(type) ? stringLiterals(type) : undefined
+        const comment = rest.match(/\bcomment\s+'((?:[^']|'')*)'/i)?.[1].replace(/''/g, "'")
+
+        fields.push(
+          entry(tables.length > 1 ? `${table.name}.${name}` : name, document, {
+            description: comment ?? comments.get(`${table.name}.${name}`.toLowerCase()),
+            type: enumValues ? "string" : sqlType(type),
+            spec_type: type,
+            length: size && !enumValues ? Number(size) : undefined,
+            // A column with a default can be left out of an insert
+            mandatory: notNull && !hasDefault,
+            allowed_values: enumValues ?? (inline ? stringLiterals(inline[1]) : checks.get(name.toLowerCase())),
+          }),
+        )
+      })
+  })
+
+  return {
+    kind: "sql_ddl",
+    fields,
+    warnings:
+      tables.length > 1 ? [`The script defines ${tables.length} tables; their fields are named table.column`] : [],
+  }
+}
@@ -0,0 +1,103 @@
+import * as XLSX from "xlsx"
+
+export interface SheetRows {
+  name: string
+  columns: string[]
+  rows: Record<string, any>[]
+}
+
+// Fields of other sheets than the record sheet are named like Excel references: "Customers!Name"
+export function qualifySheetField(sheet: string, column: string): string {
+  return `${sheet}!${column}`
+}
+
+export function parseSheetField(field: string): { sheet: string; column: string } | null {
+  const separator = field.indexOf("!")
+  if (separator <= 0 || separator === field.length - 1) return null
+  return { sheet: field.slice(0, separator), column: field.slice(separator + 1) }
+}
+
+// Sheet names without reading the cells, for choosing the record sheet before analysis
+export function readSheetNames(data: ArrayBuffer): string[] {
+  return XLSX.read(data, { type: "array", bookSheets: true }).SheetNames
+}
+
+const keyOf = (value: any) => (value === null || value === undefined ? "" : String(value).trim().toLowerCase())
+
+export interface TableJoin {
+  recordColumn: string
+  otherColumn: string
+}
+
+// The column both sheets share whose values link the most record rows to a row of the other sheet
+function findJoinColumn(records: SheetRows, other: SheetRows): TableJoin | null {
+  let best: (TableJoin & { matches: number }) | null = null
+
+  records.columns.forEach((recordColumn) => {
+    const otherColumn = other.columns.find((column) => column.trim().toLowerCase() === recordColumn.trim().toLowerCase())
+    if (!otherColumn) return
+
+    const keys = new Set(other.rows.map((row) => keyOf(row[otherColumn])).filter(Boolean))
+    const matches = records.rows.filter((row) => keys.has(keyOf(row[recordColumn]))).length
+    if (matches > 0 && (!best || matches > best.matches)) best = { recordColumn, otherColumn, matches }
+  })
+
+  return best
+}
+
+// Adds the fields of another table to every record under names qualified with the table name. One
+// linked row gives its value, several give an array.
+export function attachLinkedFields(records: SheetRows, other: SheetRows, join: TableJoin): SheetRows {
+  const linked = new Map<string, Record<string, any>[]>()
+  other.rows.forEach((row) => {
+    const key = keyOf(row[join.otherColumn])
+    if (!key) return
+    const matches = linked.get(key)
+    if (matches) {
+      matches.push(row)
+    } else {
+      linked.set(key, [row])
+    }
+  })
+
+  const rows = records.rows.map((row) => {
+    const matches = linked.get(keyOf(row[join.recordColumn])) || []
+    const fields: Record<string, any> = {}
+    other.columns.forEach((column) => {
+      const values = matches.map((match) => match[column] ?? null)
+      fields[qualifySheetField(other.name, column)] = values.length === 0 ? null : values.length === 1 ? values[0] : values
+    })
+    return { ...row, ...fields }
+  })
+
+  return {
+    name: records.name,
+    columns: [...records.columns, ...other.columns.map((column) => qualifySheetField(other.name, column))],
+    rows,
+  }
+}
+
+// Adds the fields of the other sheets to every record under sheet-qualified names. Rows are linked
+// through a shared column such as customer_id.
+export function attachSheetFields(
+  records: SheetRows,
+  others: SheetRows[],
+): { records: Record<string, any>[]; columns: string[]; warnings: string[] } {
+  const warnings: string[] = []
+  let linked = records
+
+  others.forEach((other) => {
+    const join = findJoinColumn(records, other)
+    if (!join) {
+      if (other.rows.length > 0) {
+        warnings.push(
+          `Fields of sheet "${other.name}" are empty: it shares no column with matching values with sheet "${records.name}"`,
+        )
+      }
+      return
+    }
+    linked = attachLinkedFields(linked, other, join)
+  })
+
+  return { records: linked.rows, columns: linked.columns, warnings }
+}
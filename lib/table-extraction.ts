@@ -0,0 +1,216 @@
+// A piece of text on a PDF page with the position of its baseline start, in PDF units (the origin
+// is the bottom left of the page)
+export interface PdfTextItem {
+  text: string
+  x: number
+  y: number
+  width: number
+  height?: number
+}
+
+export interface TextCell {
+  text: string
+  x: number
+  end: number
+}
+
+export interface TextLine {
+  y: number
+  cells: TextCell[]
+}
+
+export interface ExtractedTable {
+  rows: string[][]
+  // 1-based page of a PDF table
+  page?: number
+}
+
+// Tolerance in PDF units for text that is meant to start at the same position
+const ALIGN_TOLERANCE = 4
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, "&")
+
+const cellText = (html: string) =>
+  decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/p>\s*<p[^>]*>/gi, "\n")
+      .replace(/<[^>]+>/g, ""),
+  )
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n")
+
+// Tables in HTML such as mammoth makes of a Word document. A nested table is read as a table of its
+// own and its text is left out of the cell that holds it. Merged cells keep their text in the first
+// column they span.
+export function tablesFromHTML(html: string): ExtractedTable[] {
+  const tables: ExtractedTable[] = []
+  const stack: Array<{ rows: string[][]; row: string[] | null; cell: { start: number; span: number } | null }> = []
+  const tag = /<(\/?)(table|tr|td|th)\b([^>]*)>/gi
+  let match: RegExpExecArray | null
+
+  while ((match = tag.exec(html))) {
+    const [markup, closing, name, attributes] = match
+    const current = stack[stack.length - 1]
+    const element = name.toLowerCase()
+
+    if (element === "table") {
+      if (!closing) {
+        // Text of the enclosing cell up to the nested table still belongs to that cell
+        if (current?.cell) {
+          current.row?.push(cellText(html.slice(current.cell.start, match.index)))
+          current.cell = null
+        }
+        stack.push({ rows: [], row: null, cell: null })
+      } else if (current) {
+        stack.pop()
+        if (current.rows.length > 0) tables.push({ rows: current.rows })
+      }
+    } else if (!current) {
+      continue
+    } else if (element === "tr") {
+      if (!closing) current.row = []
+      else if (current.row) {
+        if (current.row.some((value) => value !== "")) current.rows.push(current.row)
+        current.row = null
+      }
+    } else if (!closing) {
+      const span = Number(attributes.match(/colspan\s*=\s*["']?(\d+)/i)?.[1]) || 1
+      current.cell = { start: match.index + markup.length, span }
+    } else if (current.cell && current.row) {
+      current.row.push(cellText(html.slice(current.cell.start, match.index)), ...Array(current.cell.span - 1).fill(""))
+      current.cell = null
+    }
+  }
+
+  return tables
+}
+
+// Groups the text items of a page into lines from top to bottom, and the items of a line into cells:
+// a gap wider than a few characters separates two cells
+export function linesFromPdfItems(items: PdfTextItem[]): TextLine[] {
+  const sorted = items.filter((item) => item.text.trim() !== "").sort((a, b) => b.y - a.y || a.x - b.x)
+  const lines: Array<{ y: number; items: PdfTextItem[] }> = []
+
+  sorted.forEach((item) => {
+    const tolerance = Math.max(2, (item.height || 10) * 0.3)
+    const line = lines.find((candidate) => Math.abs(candidate.y - item.y) <= tolerance)
+    if (line) line.items.push(item)
+    else lines.push({ y: item.y, items: [item] })
+  })
+
+  return lines.map((line) => {
+    const cells: TextCell[] = []
+    line.items
+      .sort((a, b) => a.x - b.x)
+      .forEach((item) => {
+        const previous = cells[cells.length - 1]
+        const charWidth = item.width / Math.max(item.text.length, 1) || 5
+        const gap = previous ? item.x - previous.end : Infinity
+        if (previous && gap <= charWidth * 2) {
+          previous.text += (gap > charWidth * 0.25 ? " " : "") + item.text
+          previous.end = Math.max(previous.end, item.x + item.width)
+        } else {
+          cells.push({ text: item.text, x: item.x, end: item.x + item.width })
+        }
+      })
+    cells.forEach((cell) => (cell.text = cell.text.replace(/\s+/g, " ").trim()))
+    return { y: line.y, cells }
+  })
+}
+
+// The text of a line with its cells separated by tabs, so the columns survive in the plain text
+export const lineText = (line: TextLine) => line.cells.map((cell) => cell.text).join("\t")
+
+// Column of a cell: the last column that starts before it, so right-aligned numbers under a
+// left-aligned header still land in their column
+const columnOf = (columns: number[], x: number) => {
+  let index = -1
+  columns.forEach((start, column) => {
+    if (start <= x + ALIGN_TOLERANCE) index = column
+  })
+  return index
+}
+
+// Tables on a PDF page from the layout of its text. A table starts at a line of several cells (the
+// header) whose starts give the columns. Following lines belong to it while their cells fall in
+// different columns; a single cell that starts under a later column continues the text of the row
+// above, as when a description wraps. Anything else ends the table.
+export function tablesFromPdfLines(lines: TextLine[], page?: number): ExtractedTable[] {
+  const tables: ExtractedTable[] = []
+  let columns: number[] | null = null
+  let rows: string[][] = []
+
+  const close = () => {
+    if (columns && rows.length >= 2) tables.push({ rows, ...(page !== undefined && { page }) })
+    columns = null
+    rows = []
+  }
+
+  lines.forEach((line) => {
+    if (columns) {
+      const positions = line.cells.map((cell) => columnOf(columns!, cell.x))
+      const distinct = new Set(positions.filter((position) => position >= 0))
+
+      if (line.cells.length >= 2 && distinct.size >= 2 && positions[0] === 0) {
+        const row = Array<string>(columns.length).fill("")
+        line.cells.forEach((cell, index) => {
+          const column = Math.max(positions[index], 0)
+          row[column] = row[column] ? `${row[column]} ${cell.text}` : cell.text
+        })
+        rows.push(row)
+        return
+      }
+      if (line.cells.length === 1 && positions[0] > 0 && rows.length > 1) {
+        const previous = rows[rows.length - 1]
+        previous[positions[0]] = [previous[positions[0]], line.cells[0].text].filter(Boolean).join(" ")
+        return
+      }
+      close()
+    }
+
+    if (line.cells.length >= 2) {
+      columns = line.cells.map((cell) => cell.x)
+      rows = [line.cells.map((cell) => cell.text)]
+    }
+  })
+
+  close()
+  return tables
+}
+
+// Records of a table whose first row holds the column names
+export function tableToRecords(table: ExtractedTable): { records: Record<string, any>[]; columns: string[] } {
+  const [header = [], ...data] = table.rows
+  const seen = new Map<string, number>()
+  const columns = header.map((cell, index) => {
+    const name = cell.replace(/\s+/g, " ").trim() || `column_${index + 1}`
+    const count = (seen.get(name) || 0) + 1
+    seen.set(name, count)
+    return count > 1 ? `${name}_${count}` : name
+  })
+
+  const records = data.map((row) => Object.fromEntries(columns.map((column, index) => [column, row[index] ?? null])))
+  return { records, columns }
+}
+
+// The table with the most cells, which in a document with several tables is usually the data
+export const largestTable = (tables: ExtractedTable[]): ExtractedTable | undefined =>
+  tables.reduce<ExtractedTable | undefined>(
+    (best, table) =>
+      !best || table.rows.length * (table.rows[0]?.length || 0) > best.rows.length * (best.rows[0]?.length || 0)
+        ? table
+        : best,
+    undefined,
+  )
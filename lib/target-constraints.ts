@@ -0,0 +1,83 @@
+import type { FieldDictionaryEntry } from "@/lib/mapping-schemas"
+import { parseDateAuto } from "@/lib/date-format"
+import { findDictionaryEntry } from "@/lib/field-dictionary"
+
+export interface ConstraintViolation {
+  value: any
+  message: string
+}
+
+const isEmpty = (value: any) =>
+  value === null || value === undefined || (typeof value === "string" && value.trim() === "")
+
+// Patterns are compiled once; one the JavaScript engine cannot read (XSD has classes such as \i) is
+// not checked
+const patterns = new Map<string, RegExp | null>()
+const compilePattern = (pattern: string) => {
+  if (!patterns.has(pattern)) {
+    try {
+      patterns.set(pattern, new RegExp(pattern))
+    } catch {
+      patterns.set(pattern, null)
+    }
+  }
+  return patterns.get(pattern)
+}
+
+function checkScalar(entry: FieldDictionaryEntry, value: any): string | null {
+  const text = String(value)
+
+  if (entry.type === "number") {
+    const number = typeof value === "number" ? value : Number(text.trim())
+    if (!Number.isFinite(number)) return "The target field requires a number"
+    if (entry.minimum !== undefined && number < entry.minimum) return `Below the minimum of ${entry.minimum}`
+    if (entry.maximum !== undefined && number > entry.maximum) return `Above the maximum of ${entry.maximum}`
+  }
+  if (entry.type === "date" && !parseDateAuto(value)) return "The target field requires a date"
+  if (entry.type === "boolean" && typeof value !== "boolean" && !/^(true|false|0|1)$/i.test(text.trim())) {
+    return "The target field requires true or false"
+  }
+  // The length of a number is its precision, which the number itself does not show
+  if (entry.length && entry.type !== "number" && text.length > entry.length) {
+    return `${text.length} characters exceed the maximum length of ${entry.length}`
+  }
+  if (entry.allowed_values && !entry.allowed_values.includes(text)) {
+    return `Not one of the allowed values ${entry.allowed_values.slice(0, 8).join(", ")}`
+  }
+  if (entry.pattern && compilePattern(entry.pattern)?.test(text) === false) {
+    return `Does not match the pattern ${entry.pattern}`
+  }
+  return null
+}
+
+// What is wrong with a value for a target field; a value that spreads over an array ("lines[].sku")
+// is checked item by item
+export function checkTargetValue(entry: FieldDictionaryEntry, value: any): ConstraintViolation[] {
+  if (isEmpty(value)) return entry.mandatory ? [{ value, message: "Mandatory in the target but empty" }] : []
+
+  const values = Array.isArray(value) && entry.type !== "array" ? value : [value]
+  return values.flatMap((item) => {
+    if (isEmpty(item)) return entry.mandatory ? [{ value: item, message: "Mandatory in the target but empty" }] : []
+    const message = checkScalar(entry, item)
+    return message ? [{ value: item, message }] : []
+  })
+}
+
+// The constraints of the output columns that have any
+export function constraintsByColumn(
+  constraints: FieldDictionaryEntry[],
+  columns: string[],
+): Map<string, FieldDictionaryEntry> {
+  const byColumn = new Map<string, FieldDictionaryEntry>()
+  columns.forEach((column) => {
+    const entry = findDictionaryEntry(constraints, column)
+    if (entry) byColumn.set(column, entry)
+  })
+  return byColumn
+}
+
+// Mandatory target fields that no output column fills
+export function unmappedMandatoryFields(constraints: FieldDictionaryEntry[], columns: string[]): string[] {
+  const covered = new Set([...constraintsByColumn(constraints, columns).values()])
+  return constraints.filter((entry) => entry.mandatory && !covered.has(entry)).map((entry) => entry.name)
+}
@@ -0,0 +1,54 @@
+import type { ValueMappingTable } from "@/lib/mapping-schemas"
+
+export interface ValueLookupResult {
+  value: any
+  matched: boolean
+}
+
+// Builds a lookup table from a stored value_mapping, the { sourceValue, targetValue } rows edited in the
+// review and chat steps, or both. The UI rows are edited last, so their entries win over the stored ones.
+export function toValueMappingTable(mapping: any): ValueMappingTable | undefined {
+  const stored: Partial<ValueMappingTable> = mapping?.value_mapping ?? {}
+  const rows: any[] | undefined = Array.isArray(mapping?.valueMappings) ? mapping.valueMappings : undefined
+
+  const entries = (
+    rows
+      ? rows.map((row) => ({ source_value: row?.sourceValue, target_value: row?.targetValue }))
+      : (stored.entries ?? [])
+  )
+    .filter((entry) => entry.source_value !== undefined && entry.source_value !== null && String(entry.source_value) !== "")
+    .map((entry) => ({ source_value: String(entry.source_value), target_value: String(entry.target_value ?? "") }))
+
+  const defaultValue = stored.default_value === "" ? undefined : stored.default_value
+  if (entries.length === 0 && defaultValue === undefined) return undefined
+
+  return {
+    entries,
+    ...(defaultValue !== undefined && { default_value: defaultValue }),
+    ...(stored.case_sensitive && { case_sensitive: true }),
+  }
+}
+
+const toKey = (value: any, caseSensitive?: boolean) => {
+  const text = String(value).trim()
+  return caseSensitive ? text : text.toLowerCase()
+}
+
+export function createValueLookup(table: ValueMappingTable): (value: any) => ValueLookupResult {
+  const lookup = new Map<string, string>()
+  table.entries.forEach((entry) => {
+    const key = toKey(entry.source_value, table.case_sensitive)
+    // The first entry wins when a value is listed twice
+    if (!lookup.has(key)) lookup.set(key, entry.target_value)
+  })
+
+  return (value: any) => {
+    const isBlank = value === null || value === undefined || String(value).trim() === ""
+    const key = isBlank ? "" : toKey(value, table.case_sensitive)
+
+    if (lookup.has(key)) return { value: lookup.get(key), matched: true }
+    // Empty values are not lookups that failed, so they pass through unreported
+    if (isBlank) return { value, matched: true }
+    return { value: table.default_value !== undefined ? table.default_value : value, matched: false }
+  }
+}
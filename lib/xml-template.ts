@@ -0,0 +1,223 @@
+import { Builder, parseStringPromise } from "xml2js"
+import { parseFieldPath } from "@/lib/field-paths"
+
+export interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlElement[]
+  text: string
+}
+
+export interface XmlDocument {
+  root: XmlElement
+}
+
+// Keys of the xml2js objects; neither can be an element name
+const ATTRIBUTE_KEY = "$"
+const TEXT_KEY = "#text"
+
+const toElement = (node: any, name: string): XmlElement => ({
+  name,
+  attributes: { ...(node[ATTRIBUTE_KEY] ?? {}) },
+  children: (node.$$ ?? []).map((child: any) => toElement(child, child["#name"])),
+  text: typeof node[TEXT_KEY] === "string" ? node[TEXT_KEY].trim() : "",
+})
+
+// Mixed content is flattened into the element's text; comments and the doctype are not kept
+export async function parseXMLDocument(xml: string): Promise<XmlDocument> {
+  const parsed = await parseStringPromise(xml, {
+    explicitRoot: true,
+    explicitChildren: true,
+    preserveChildrenOrder: true,
+    explicitCharkey: true,
+    attrkey: ATTRIBUTE_KEY,
+    charkey: TEXT_KEY,
+  })
+  const [name] = Object.keys(parsed ?? {})
+  if (!name) throw new Error("The XML document has no root element")
+  return { root: toElement(parsed[name], name) }
+}
+
+// xml2js builds from objects keyed by element name, so siblings are written grouped by name in the
+// order their names first appear
+const toBuilderNode = (element: XmlElement) => {
+  const node: Record<string, any> = {}
+  if (Object.keys(element.attributes).length > 0) node[ATTRIBUTE_KEY] = element.attributes
+  if (element.text !== "") node[TEXT_KEY] = element.text
+  element.children.forEach((child) => {
+    if (!node[child.name]) node[child.name] = []
+    node[child.name].push(toBuilderNode(child))
+  })
+  return node
+}
+
+export function serializeXMLDocument(document: XmlDocument): string {
+  return new Builder({
+    attrkey: ATTRIBUTE_KEY,
+    charkey: TEXT_KEY,
+    xmldec: { version: "1.0", encoding: "UTF-8" },
+    renderOpts: { pretty: true, indent: "  ", newline: "\n" },
+  }).buildObject({ [document.root.name]: toBuilderNode(document.root) })
+}
+
+const localName = (name: string) => name.slice(name.indexOf(":") + 1).toLowerCase()
+
+const cloneElement = (element: XmlElement): XmlElement => ({
+  ...element,
+  attributes: { ...element.attributes },
+  children: element.children.map(cloneElement),
+})
+
+// The record element is the first element that repeats under its parent; a sample with a single
+// record falls back to the first child of the root that has child elements of its own
+function findRecordPath(root: XmlElement): XmlElement[] | null {
+  let fallback: XmlElement[] | null = null
+  const queue: XmlElement[][] = [[root]]
+
+  while (queue.length > 0) {
+    const path = queue.shift()!
+    const element = path[path.length - 1]
+
+    for (const child of element.children) {
+      if (element.children.filter((sibling) => sibling.name === child.name).length > 1) return [...path, child]
+      if (!fallback && path.length === 1 && child.children.length > 0) fallback = [...path, child]
+      queue.push([...path, child])
+    }
+  }
+
+  return fallback
+}
+
+interface XmlLocation {
+  elements: string[]
+  attribute?: string
+}
+
+// Column names follow the analysis paths ("orders.order[0].customer[0].name", "order[0].$.id") or
+// a shorthand relative to the record ("customer.name", "@id")
+function resolveLocation(column: string, recordPath: string[]): XmlLocation {
+  let segments = parseFieldPath(column).filter((segment): segment is string => typeof segment === "string")
+  let attribute: string | undefined
+
+  const marker = segments.indexOf("$")
+  if (marker >= 0) {
+    attribute = segments[marker + 1]
+    segments = segments.slice(0, marker)
+  } else if (segments.length > 0 && segments[segments.length - 1].startsWith("@")) {
+    attribute = segments[segments.length - 1].slice(1)
+    segments = segments.slice(0, -1)
+  }
+  segments = segments.filter((segment) => segment !== "_")
+
+  // Drop the part of the path that leads to the record element, with or without the root
+  const names = recordPath.map(localName)
+  for (let start = 0; start < names.length; start++) {
+    const prefix = names.slice(start)
+    if (prefix.every((name, i) => segments[i] !== undefined && localName(segments[i]) === name)) {
+      segments = segments.slice(prefix.length)
+      break
+    }
+  }
+
+  return { elements: segments, attribute }
+}
+
+// Element names cannot start with a digit or contain spaces and most punctuation
+const toElementName = (name: string) => {
+  const cleaned = name.replace(/[^A-Za-z0-9_.:-]/g, "_")
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `_${cleaned}`
+}
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined) return ""
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
+// Finds (or creates) the element a location points at inside one record
+function locate(record: XmlElement, location: XmlLocation): XmlElement {
+  let current = record
+  for (const segment of location.elements) {
+    let child =
+      current.children.find((candidate) => candidate.name === segment) ??
+      current.children.find((candidate) => localName(candidate.name) === localName(segment))
+    if (!child) {
+      child = { name: toElementName(segment), attributes: {}, children: [], text: "" }
+      current.children.push(child)
+    }
+    current = child
+  }
+  return current
+}
+
+// Namespace declarations and xsi attributes such as xsi:schemaLocation describe the document
+// rather than the record
+const isNamespaceAttribute = (name: string) => /^xmlns(:|$)/.test(name) || name.startsWith("xsi:")
+
+// Clears the sample values of a record template: text and attributes alike. Mapped attributes are
+// set again per record.
+function clearValues(element: XmlElement, seen = new Set<string>()): XmlElement {
+  // Repeating children inside a record are reduced to one, since records are flat
+  const children = element.children.filter((child) => {
+    if (seen.has(child.name)) return false
+    seen.add(child.name)
+    return true
+  })
+  const attributes = Object.fromEntries(
+    Object.entries(element.attributes).filter(([name]) => isNamespaceAttribute(name)),
+  )
+  return { ...element, attributes, text: "", children: children.map((child) => clearValues(child)) }
+}
+
+// Whether the sample has an element to repeat per record; without one it cannot be a template
+export function hasRecordElement(template: XmlDocument): boolean {
+  return findRecordPath(template.root) !== null
+}
+
+// Writes one copy of the target sample's record element per record, inside the sample's own
+// document structure, so element hierarchy and namespace declarations are preserved
+export function writeXMLFromTemplate(
+  records: Record<string, any>[],
+  columns: string[],
+  template: XmlDocument,
+): string {
+  const document = { root: cloneElement(template.root) }
+  const recordPath = findRecordPath(document.root)
+  if (!recordPath) {
+    throw new Error("The target XML has no element that can be repeated per record")
+  }
+
+  const parent = recordPath[recordPath.length - 2]
+  const recordTemplate = clearValues(recordPath[recordPath.length - 1])
+  const locations = new Map(columns.map((column) => [column, resolveLocation(column, recordPath.map((e) => e.name))]))
+
+  const outputRecords = records.map((record) => {
+    const element = cloneElement(recordTemplate)
+    columns.forEach((column) => {
+      const location = locations.get(column)!
+      // A column that names the record element itself sets its text
+      const target = location.elements.length > 0 || location.attribute ? locate(element, location) : element
+      const value = formatValue(record[column])
+      if (location.attribute) {
+        // An empty attribute is rarely valid, so one without a value is left out
+        if (value === "") delete target.attributes[location.attribute]
+        else target.attributes[location.attribute] = value
+      } else {
+        target.text = value
+      }
+    })
+    return element
+  })
+
+  // The records replace the sample records in place, after any header elements that precede them
+  const templateName = recordTemplate.name
+  const first = parent.children.findIndex((child) => child.name === templateName)
+  parent.children = [
+    ...parent.children.slice(0, first),
+    ...outputRecords,
+    ...parent.children.slice(first).filter((child) => child.name !== templateName),
+  ]
+
+  return serializeXMLDocument(document)
+}
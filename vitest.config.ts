@@ -0,0 +1,15 @@
+import { fileURLToPath } from "node:url"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL(".", import.meta.url)),
+      // The package entry reads a sample PDF when it is not required by another CommonJS module
+      "pdf-parse": "pdf-parse/lib/pdf-parse.js",
+    },
+  },
+  test: {
+    environment: "node",
+  },
+})